@@ -2,10 +2,16 @@
  * Search harness for crafting share links that produce a wanted schedule.
  *
  * Share links do NOT store the schedule — the app regenerates it
- * deterministically from the settings, and the only steering wheel is the
- * ORDER of the teams (plus order-dependent `exclude` indices). This script
- * brute-forces team orderings and prints the first link whose generated
- * schedule satisfies WANTED below.
+ * deterministically from the settings. Besides pins, the steering wheels are
+ * the ORDER of the teams (plus order-dependent `exclude` indices) and
+ * CONFIG.seed, which picks a variant without touching the team order. This
+ * script brute-forces team orderings and prints the first link whose
+ * generated schedule satisfies WANTED below; the "Ny variant" button in the
+ * app walks the seeds instead.
+ *
+ * For a match that must be played in a given round or on a given pitch, add it
+ * to CONFIG.pinnedMatches instead — pins travel in the link as `pin` params and
+ * the generator builds the rest of the schedule around them.
  *
  * Usage: edit SETTINGS / TEAM_NAMES / CONFIG / WANTED, then run
  *   npx tsx scripts/find-share-link.ts
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useLocalStorage } from '@/hooks/useLocalStorage'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -15,15 +15,37 @@ import { Step1TournamentSettings } from '@/components/Step1TournamentSettings'
 import { Step2Teams } from '@/components/Step2Teams'
 import { Step3SchedulingMode } from '@/components/Step3SchedulingMode'
 import { Step4Schedule } from '@/components/Step4Schedule'
+import { Step5Results } from '@/components/Step5Results'
 import { PWAUpdatePrompt } from '@/components/PWAUpdatePrompt'
+import { GenerationProgressDialog } from '@/components/GenerationProgressDialog'
 import type {
   Tournament,
   TournamentSettings,
   Team,
   SchedulingConfig,
   GeneratedSchedule,
+  Division,
+  RefereePool,
+  ScheduleRequest,
 } from '@/lib/types'
-import { generateSchedule, rehydrateSchedule } from '@/lib/scheduler'
+import {
+  delaySchedule,
+  generateNextSwissRound,
+  getActiveTeams,
+  getEndTimeCapacity,
+  getNextSeed,
+  getPitchName,
+  moveMatch,
+  rehydrateSchedule,
+  withdrawTeam,
+} from '@/lib/scheduler'
+import { applyMatchResult } from '@/lib/standings'
+import { assignReferees } from '@/lib/referees'
+import {
+  getRequestRuns,
+  startScheduleGeneration,
+  type ScheduleProgress,
+} from '@/lib/schedule-generation'
 import {
   createTournamentShareUrl,
   parseTournamentShareParams,
@@ -67,6 +89,7 @@ const steps = [
   { number: 2, title: 'Tilføj Hold' },
   { number: 3, title: 'Planlægnings Tilstand' },
   { number: 4, title: 'Generer & Se' },
+  { number: 5, title: 'Resultater' },
 ]
 
 function App() {
@@ -75,10 +98,16 @@ function App() {
   const [settings, setSettings] = useState<TournamentSettings>(INITIAL_SETTINGS)
   const [teams, setTeams] = useState<Team[]>([])
   const [schedulingConfig, setSchedulingConfig] = useState<SchedulingConfig>(INITIAL_CONFIG)
+  const [divisions, setDivisions] = useState<Division[]>([])
+  const [refereePool, setRefereePool] = useState<RefereePool | undefined>(undefined)
+  // Step 3 configures one division at a time
+  const [divisionStep, setDivisionStep] = useState(0)
   const [schedule, setSchedule] = useState<GeneratedSchedule | null>(null)
   const [currentTournamentId, setCurrentTournamentId] = useState<string | null>(null)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [tournamentToDelete, setTournamentToDelete] = useState<string | null>(null)
+  const [generationProgress, setGenerationProgress] = useState<ScheduleProgress | null>(null)
+  const cancelGeneration = useRef<(() => void) | null>(null)
 
   const isWizardActive = currentStep > 0
 
@@ -97,26 +126,66 @@ function App() {
     window.history.pushState({ tournamentId, step }, '', newURL)
   }, [])
 
-  const loadSharedTournament = useCallback((sharedTournament: SharedTournamentData) => {
-    const generatedSchedule = generateSchedule(
-      sharedTournament.settings,
-      sharedTournament.teams,
-      sharedTournament.schedulingConfig
-    )
-
-    setSettings(sharedTournament.settings)
-    setTeams(sharedTournament.teams)
-    setSchedulingConfig(sharedTournament.schedulingConfig)
-    setSchedule(generatedSchedule)
-    setCurrentTournamentId(null)
-    setCurrentStep(4)
+  /**
+   * Generates a schedule in the schedule worker while showing its progress.
+   * Resolves to null if the organizer cancels or generation fails; failures
+   * are shown as a toast.
+   */
+  const generate = useCallback(async (request: ScheduleRequest) => {
+    const generation = startScheduleGeneration(request, setGenerationProgress)
+    cancelGeneration.current = generation.cancel
+    setGenerationProgress({ done: 0, total: getRequestRuns(request) })
+    try {
+      return await generation.result
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Kunne ikke generere skema')
+      return null
+    } finally {
+      cancelGeneration.current = null
+      setGenerationProgress(null)
+    }
   }, [])
 
+  const handleCancelGeneration = () => {
+    cancelGeneration.current?.()
+    toast('Generering af skema annulleret')
+  }
+
+  /** Regenerates a shared tournament's schedule; false if that did not happen. */
+  const loadSharedTournament = useCallback(
+    async (sharedTournament: SharedTournamentData) => {
+      const sharedDivisions = sharedTournament.divisions || []
+      const generatedSchedule = await generate({
+        settings: sharedTournament.settings,
+        teams: sharedTournament.teams,
+        schedulingConfig: sharedTournament.schedulingConfig,
+        divisions: sharedDivisions,
+      })
+      if (!generatedSchedule) return false
+
+      setSettings(sharedTournament.settings)
+      setTeams(sharedTournament.teams)
+      setSchedulingConfig(sharedTournament.schedulingConfig)
+      setDivisions(sharedDivisions)
+      setRefereePool(sharedTournament.refereePool)
+      setSchedule(
+        assignReferees(generatedSchedule, sharedTournament.teams, sharedTournament.refereePool)
+      )
+      setCurrentTournamentId(null)
+      setCurrentStep(4)
+      return true
+    },
+    [generate]
+  )
+
   /** Loads a saved tournament into wizard state (rehydrating JSON dates). */
   const applyTournament = useCallback((tournament: Tournament, step?: number) => {
     setSettings(tournament.settings)
     setTeams(tournament.teams)
     setSchedulingConfig(tournament.schedulingConfig)
+    setDivisions(tournament.divisions || [])
+    setRefereePool(tournament.refereePool)
+    setDivisionStep(0)
     setSchedule(tournament.schedule ? rehydrateSchedule(tournament.schedule) : null)
     setCurrentTournamentId(tournament.id)
     setCurrentStep(step || (tournament.schedule ? 4 : 1))
@@ -128,8 +197,9 @@ function App() {
       if (params.has('share')) {
         const sharedTournament = parseTournamentShareParams(params)
         if (sharedTournament.ok) {
-          loadSharedTournament(sharedTournament.data)
-          if (isInitialLoad) toast.success('Delt turnering indlæst')
+          loadSharedTournament(sharedTournament.data).then(loaded => {
+            if (loaded && isInitialLoad) toast.success('Delt turnering indlæst')
+          })
         } else {
           toast.error(sharedTournament.error)
           setCurrentStep(0)
@@ -177,6 +247,9 @@ function App() {
     setSettings(INITIAL_SETTINGS)
     setTeams([])
     setSchedulingConfig(INITIAL_CONFIG)
+    setDivisions([])
+    setRefereePool(undefined)
+    setDivisionStep(0)
     setSchedule(null)
     setCurrentTournamentId(null)
     updateURL(null, 1)
@@ -188,20 +261,149 @@ function App() {
     updateURL(currentTournamentId, 2)
   }
 
-  const handleStep2Complete = (data: Team[]) => {
+  const handleStep2Complete = (
+    data: Team[],
+    newDivisions: Division[],
+    newRefereePool?: RefereePool
+  ) => {
     setTeams(data)
+    setDivisions(newDivisions)
+    setRefereePool(newRefereePool)
+    setDivisionStep(0)
     setCurrentStep(3)
     updateURL(currentTournamentId, 3)
   }
 
-  const handleStep3Complete = (config: SchedulingConfig) => {
+  const handleStep3Complete = async (config: SchedulingConfig) => {
     setSchedulingConfig(config)
-    const generatedSchedule = generateSchedule(settings, teams, config)
-    setSchedule(generatedSchedule)
+    const generatedSchedule = await generate({ settings, teams, schedulingConfig: config })
+    if (!generatedSchedule) return
+    setSchedule(assignReferees(generatedSchedule, teams, refereePool))
+    setCurrentStep(4)
+    updateURL(currentTournamentId, 4)
+  }
+
+  const handleDivisionStepComplete = async (config: SchedulingConfig) => {
+    const updatedDivisions = divisions.map((division, index) =>
+      index === divisionStep ? { ...division, schedulingConfig: config } : division
+    )
+    setDivisions(updatedDivisions)
+
+    if (divisionStep < divisions.length - 1) {
+      setDivisionStep(divisionStep + 1)
+      return
+    }
+
+    const generatedSchedule = await generate({
+      settings,
+      teams,
+      schedulingConfig,
+      divisions: updatedDivisions,
+    })
+    if (!generatedSchedule) return
+    setSchedule(assignReferees(generatedSchedule, teams, refereePool))
     setCurrentStep(4)
     updateURL(currentTournamentId, 4)
   }
 
+  const handleResultChange = (
+    matchId: string,
+    homeScore: number | undefined,
+    awayScore: number | undefined
+  ) => {
+    setSchedule(current => current && applyMatchResult(current, matchId, homeScore, awayScore))
+  }
+
+  const handleMoveMatch = (matchId: string, target: { startTime: Date; pitch: number }) => {
+    setSchedule(
+      current =>
+        current &&
+        assignReferees(moveMatch(current, matchId, target, teams, settings), teams, refereePool)
+    )
+  }
+
+  const handleWithdrawTeam = (teamId: string, closeGaps: boolean) => {
+    if (!schedule) return
+    const updated = withdrawTeam(
+      schedule,
+      teamId,
+      teams,
+      settings,
+      new Date(),
+      closeGaps,
+      schedulingConfig,
+      divisions
+    )
+    setSchedule(assignReferees(updated, teams, refereePool))
+    const withdrawal = updated.withdrawals?.find(w => w.team.id === teamId)
+    if (withdrawal) {
+      toast.success(
+        `${withdrawal.team.name} er trukket, ${withdrawal.walkovers.length} kampe tæller som walkover`
+      )
+    }
+  }
+
+  const handleDelay = (from: Date, minutes: number, minBreakMinutes: number) => {
+    setSchedule(
+      current =>
+        current &&
+        delaySchedule(
+          current,
+          from,
+          minutes,
+          teams,
+          settings,
+          minBreakMinutes,
+          schedulingConfig,
+          divisions
+        )
+    )
+    toast.success(`Programmet er rykket ${minutes} min`)
+  }
+
+  const handleGenerateVariant = async () => {
+    const updatedDivisions = divisions.map(division => ({
+      ...division,
+      schedulingConfig: {
+        ...division.schedulingConfig,
+        seed: getNextSeed(division.schedulingConfig),
+      },
+    }))
+    const config =
+      divisions.length > 0
+        ? schedulingConfig
+        : { ...schedulingConfig, seed: getNextSeed(schedulingConfig) }
+
+    // A new variant re-plans only the teams still in the tournament. Their
+    // withdrawals carry over so the walkovers keep counting; the matches they
+    // moved belong to the old variant
+    const activeTeams = schedule ? getActiveTeams(schedule, teams) : teams
+    const generatedSchedule = await generate({
+      settings,
+      teams: activeTeams,
+      schedulingConfig: config,
+      divisions: updatedDivisions,
+    })
+    if (!generatedSchedule) return
+    const withdrawals = schedule?.withdrawals?.map(w => ({ ...w, movedMatchIds: [] }))
+    setSchedule(assignReferees({ ...generatedSchedule, withdrawals }, teams, refereePool))
+    setDivisions(updatedDivisions)
+    setSchedulingConfig(config)
+    toast.success('Ny variant genereret')
+  }
+
+  const handleGenerateNextRound = () => {
+    if (!schedule) return
+    setSchedule(
+      assignReferees(
+        generateNextSwissRound(schedule, teams, settings, schedulingConfig),
+        teams,
+        refereePool
+      )
+    )
+    toast.success('Næste runde genereret')
+  }
+
   const handleSaveTournament = () => {
     if (!schedule) return
 
@@ -210,6 +412,8 @@ function App() {
       settings,
       teams,
       schedulingConfig,
+      divisions: divisions.length > 0 ? divisions : undefined,
+      refereePool,
       schedule,
       createdAt: currentTournamentId
         ? (tournaments || []).find(t => t.id === currentTournamentId)?.createdAt ||
@@ -240,7 +444,9 @@ function App() {
       settings,
       teams,
       schedulingConfig,
-      window.location.href
+      window.location.href,
+      divisions,
+      refereePool
     )
     const isLongShareUrl = shareUrl.length > MAX_SAFE_SHARE_URL_LENGTH
 
@@ -329,6 +535,7 @@ function App() {
       <div className="min-h-screen flex flex-col pitch-backdrop">
         <Toaster />
         <PWAUpdatePrompt />
+        <GenerationProgressDialog progress={generationProgress} onCancel={handleCancelGeneration} />
         <div className="container mx-auto px-4 pt-14 pb-12 max-w-5xl flex-1">
           {/* Hero Section */}
           <div className="text-center mb-16 pt-4 pitch-lines">
@@ -447,6 +654,12 @@ function App() {
                               {tournament.settings.numPitches} ban
                               {tournament.settings.numPitches !== 1 ? 'er' : 'e'}
                             </span>
+                            {tournament.schedule?.manuallyEdited && (
+                              <>
+                                <span>•</span>
+                                <span>Manuelt redigeret</span>
+                              </>
+                            )}
                           </div>
                           <p className="text-xs text-muted-foreground mt-1">
                             {formatDate(tournament.settings.startDate)} kl.{' '}
@@ -541,6 +754,7 @@ function App() {
     <div className="min-h-screen pitch-backdrop">
       <Toaster />
       <PWAUpdatePrompt />
+      <GenerationProgressDialog progress={generationProgress} onCancel={handleCancelGeneration} />
       <div className="container mx-auto px-4 py-8 max-w-5xl">
         <div className="mb-6">
           <div className="flex items-center justify-center gap-2.5 mb-1">
@@ -569,6 +783,8 @@ function App() {
         {currentStep === 2 && (
           <Step2Teams
             initialTeams={teams}
+            initialDivisions={divisions}
+            initialRefereePool={refereePool}
             onNext={handleStep2Complete}
             onBack={() => {
               setCurrentStep(1)
@@ -577,11 +793,36 @@ function App() {
           />
         )}
 
-        {currentStep === 3 && (
+        {currentStep === 3 && divisions.length > 0 && divisions[divisionStep] && (
+          <Step3SchedulingMode
+            key={divisions[divisionStep].id}
+            initialConfig={divisions[divisionStep].schedulingConfig}
+            teamCount={teams.filter(t => t.divisionId === divisions[divisionStep].id).length}
+            teams={teams.filter(t => t.divisionId === divisions[divisionStep].id)}
+            divisionName={divisions[divisionStep].name}
+            endTimeCapacity={getEndTimeCapacity(settings)}
+            hasNextDivision={divisionStep < divisions.length - 1}
+            onNext={handleDivisionStepComplete}
+            onBack={() => {
+              if (divisionStep > 0) {
+                setDivisionStep(divisionStep - 1)
+                return
+              }
+              setCurrentStep(2)
+              updateURL(currentTournamentId, 2)
+            }}
+          />
+        )}
+
+        {currentStep === 3 && divisions.length === 0 && (
           <Step3SchedulingMode
             initialConfig={schedulingConfig}
             teamCount={teams.length}
             teams={teams}
+            pitchNames={Array.from({ length: settings.numPitches }, (_, i) =>
+              getPitchName(i + 1, settings)
+            )}
+            endTimeCapacity={getEndTimeCapacity(settings)}
             onNext={handleStep3Complete}
             onBack={() => {
               setCurrentStep(2)
@@ -597,11 +838,45 @@ function App() {
             teams={teams}
             settings={settings}
             onBack={() => {
+              setDivisionStep(Math.max(0, divisions.length - 1))
               setCurrentStep(3)
               updateURL(currentTournamentId, 3)
             }}
             onSave={handleSaveTournament}
             onShare={handleShareTournament}
+            onMoveMatch={handleMoveMatch}
+            onWithdrawTeam={handleWithdrawTeam}
+            onDelay={handleDelay}
+            seed={divisions.length > 0 ? divisions[0].schedulingConfig.seed : schedulingConfig.seed}
+            onGenerateVariant={handleGenerateVariant}
+            onResults={() => {
+              setCurrentStep(5)
+              updateURL(currentTournamentId, 5)
+            }}
+            swissRounds={
+              schedulingConfig.mode === 'swiss' && divisions.length === 0
+                ? schedulingConfig.swissRounds
+                : undefined
+            }
+            onGenerateNextRound={
+              schedulingConfig.mode === 'swiss' && divisions.length === 0
+                ? handleGenerateNextRound
+                : undefined
+            }
+          />
+        )}
+
+        {currentStep === 5 && schedule && (
+          <Step5Results
+            schedule={schedule}
+            teams={teams}
+            settings={settings}
+            onResultChange={handleResultChange}
+            onBack={() => {
+              setCurrentStep(4)
+              updateURL(currentTournamentId, 4)
+            }}
+            onSave={handleSaveTournament}
           />
         )}
       </div>
@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { ScheduleProgress } from '@/lib/schedule-generation'
+
+interface GenerationProgressDialogProps {
+  progress: ScheduleProgress | null
+  onCancel: () => void
+}
+
+export function GenerationProgressDialog({ progress, onCancel }: GenerationProgressDialogProps) {
+  // A single variant reports nothing until it is done, so show activity instead of 0%
+  const indeterminate = !progress || progress.total <= 1
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0
+
+  return (
+    <Dialog open={progress !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Genererer kampskema</DialogTitle>
+          <DialogDescription>
+            {progress && progress.total > 1
+              ? `Forsøg ${progress.done} af ${progress.total}`
+              : 'Kampene fordeles på baner og tider'}
+          </DialogDescription>
+        </DialogHeader>
+        <div
+          role="progressbar"
+          aria-label="Fremskridt"
+          aria-valuemin={indeterminate ? undefined : 0}
+          aria-valuemax={indeterminate ? undefined : progress.total}
+          aria-valuenow={indeterminate ? undefined : progress.done}
+          className="h-2 w-full overflow-hidden rounded-full bg-muted"
+        >
+          {indeterminate ? (
+            <div className="h-full w-full bg-primary animate-pulse" />
+          ) : (
+            <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Annuller
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
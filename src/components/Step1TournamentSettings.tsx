@@ -12,8 +12,14 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import type { TournamentSettings, MatchMode } from '@/lib/types'
-import { ArrowRight, ArrowLeft } from '@phosphor-icons/react'
+import type {
+  AvailabilityWindow,
+  ScheduledBreak,
+  TournamentDay,
+  TournamentSettings,
+  MatchMode,
+} from '@/lib/types'
+import { ArrowRight, ArrowLeft, Plus, Trash } from '@phosphor-icons/react'
 import { useState, useEffect } from 'react'
 
 const tournamentSettingsSchema = z
@@ -53,6 +59,14 @@ const tournamentSettingsSchema = z
     }
   )
 
+function getNextDate(date: string): string {
+  const next = new Date(`${date}T00:00`)
+  next.setDate(next.getDate() + 1)
+  const month = String(next.getMonth() + 1).padStart(2, '0')
+  const day = String(next.getDate()).padStart(2, '0')
+  return `${next.getFullYear()}-${month}-${day}`
+}
+
 interface Step1Props {
   initialData: TournamentSettings
   onNext: (data: TournamentSettings) => void
@@ -78,8 +92,21 @@ export function Step1TournamentSettings({ initialData, onNext, onBack }: Step1Pr
       Array.from({ length: initialData.numPitches }, (_, i) => `Bane ${i + 1}`)
   )
 
+  const [pitchWindows, setPitchWindows] = useState<AvailabilityWindow[]>(
+    initialData.pitchWindows || []
+  )
+  const [pitchWindowError, setPitchWindowError] = useState('')
+  const [breaks, setBreaks] = useState<ScheduledBreak[]>(initialData.breaks || [])
+  const [breakError, setBreakError] = useState('')
+  // Day 1 takes its date and start time from the fields above; only its end
+  // time is set here
+  const [firstDayEnd, setFirstDayEnd] = useState(initialData.days?.[0]?.endTime || '')
+  const [extraDays, setExtraDays] = useState<TournamentDay[]>(initialData.days?.slice(1) || [])
+  const [dayError, setDayError] = useState('')
+
   useEffect(() => {
     const currentNum = Number(numPitches) || 1
+    setPitchWindows(current => current.slice(0, currentNum))
     setPitchNames(current => {
       const newNames = [...current]
       if (newNames.length < currentNum) {
@@ -101,8 +128,111 @@ export function Step1TournamentSettings({ initialData, onNext, onBack }: Step1Pr
     })
   }
 
+  const handlePitchWindowChange = (
+    index: number,
+    field: keyof AvailabilityWindow,
+    value: string
+  ) => {
+    setPitchWindows(current => {
+      const updated = [...current]
+      updated[index] = { ...updated[index], [field]: value || undefined }
+      return updated
+    })
+    setPitchWindowError('')
+  }
+
+  const addBreak = () => {
+    setBreaks(current => [
+      ...current,
+      { startTime: '12:00', durationMinutes: 30, label: 'Frokost' },
+    ])
+  }
+
+  const updateBreak = (index: number, changes: Partial<ScheduledBreak>) => {
+    setBreaks(current => current.map((b, i) => (i === index ? { ...b, ...changes } : b)))
+    setBreakError('')
+  }
+
+  const removeBreak = (index: number) => {
+    setBreaks(current => current.filter((_, i) => i !== index))
+    setBreakError('')
+  }
+
+  const addDay = () => {
+    const previousDate = extraDays[extraDays.length - 1]?.date || watch('startDate')
+    const endTime = firstDayEnd || '18:00'
+    setFirstDayEnd(endTime)
+    setExtraDays(current => [
+      ...current,
+      {
+        date: previousDate ? getNextDate(previousDate) : '',
+        startTime: watch('startTime'),
+        endTime,
+      },
+    ])
+    setDayError('')
+  }
+
+  const updateDay = (index: number, changes: Partial<TournamentDay>) => {
+    setExtraDays(current => current.map((d, i) => (i === index ? { ...d, ...changes } : d)))
+    setDayError('')
+  }
+
+  const removeDay = (index: number) => {
+    setExtraDays(current => current.filter((_, i) => i !== index))
+    setDayError('')
+  }
+
   const onSubmit = (data: TournamentSettings) => {
-    onNext({ ...data, pitchNames })
+    const invalidIndex = pitchWindows.findIndex(
+      window =>
+        window?.availableFrom &&
+        window.availableUntil &&
+        window.availableFrom >= window.availableUntil
+    )
+    if (invalidIndex >= 0) {
+      setPitchWindowError(`${pitchNames[invalidIndex]}: Lukketid skal være efter åbningstid`)
+      return
+    }
+
+    const invalidBreak = breaks.findIndex(
+      b => !b.startTime || !Number.isFinite(b.durationMinutes) || b.durationMinutes < 1
+    )
+    if (invalidBreak >= 0) {
+      setBreakError(`Pause ${invalidBreak + 1}: Angiv starttid og en varighed på mindst 1 minut`)
+      return
+    }
+
+    const days: TournamentDay[] =
+      firstDayEnd || extraDays.length > 0
+        ? [{ date: data.startDate, startTime: data.startTime, endTime: firstDayEnd }, ...extraDays]
+        : []
+    const invalidDay = days.findIndex(d => !d.date || !d.startTime || d.endTime <= d.startTime)
+    if (invalidDay >= 0) {
+      setDayError(`Dag ${invalidDay + 1}: Sluttid skal være efter starttid`)
+      return
+    }
+    const unorderedDay = days.findIndex((d, i) => i > 0 && d.date <= days[i - 1].date)
+    if (unorderedDay >= 0) {
+      setDayError(`Dag ${unorderedDay + 1}: Datoen skal ligge efter dag ${unorderedDay}`)
+      return
+    }
+
+    const hasPitchWindows = pitchWindows.some(
+      window => window?.availableFrom || window?.availableUntil
+    )
+    onNext({
+      ...data,
+      pitchNames,
+      pitchWindows: hasPitchWindows
+        ? pitchNames.map((_, index) => ({ ...pitchWindows[index] }))
+        : undefined,
+      breaks:
+        breaks.length > 0
+          ? breaks.map(b => ({ ...b, label: b.label.trim() || 'Pause' }))
+          : undefined,
+      days: days.length > 0 ? days : undefined,
+    })
   }
 
   const today = new Date().toISOString().split('T')[0]
@@ -173,12 +303,33 @@ export function Step1TournamentSettings({ initialData, onNext, onBack }: Step1Pr
                         onChange={e => handlePitchNameChange(index, e.target.value)}
                         placeholder={`Bane ${index + 1}`}
                       />
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          aria-label={`Bane ${index + 1} åbner`}
+                          value={pitchWindows[index]?.availableFrom || ''}
+                          onChange={e =>
+                            handlePitchWindowChange(index, 'availableFrom', e.target.value)
+                          }
+                        />
+                        <span className="text-muted-foreground">-</span>
+                        <Input
+                          type="time"
+                          aria-label={`Bane ${index + 1} lukker`}
+                          value={pitchWindows[index]?.availableUntil || ''}
+                          onChange={e =>
+                            handlePitchWindowChange(index, 'availableUntil', e.target.value)
+                          }
+                        />
+                      </div>
                     </div>
                   ))}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Giv hver bane et specifikt navn (f.eks. "Hovedbane", "Træningsbane A")
+                  Giv hver bane et specifikt navn (f.eks. "Hovedbane", "Træningsbane A"). Angiv
+                  åbningstider hvis en bane kun er ledig en del af dagen
                 </p>
+                {pitchWindowError && <p className="text-sm text-destructive">{pitchWindowError}</p>}
               </div>
             )}
 
@@ -271,6 +422,147 @@ export function Step1TournamentSettings({ initialData, onNext, onBack }: Step1Pr
                 <p className="text-sm text-destructive">{errors.breakBetweenMatches.message}</p>
               )}
             </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Faste Pauser (Valgfri)</Label>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="gap-1 min-h-11"
+                  onClick={addBreak}
+                >
+                  <Plus size={16} /> Tilføj pause
+                </Button>
+              </div>
+              {breaks.map((scheduledBreak, index) => (
+                <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <Input
+                    aria-label={`Navn på pause ${index + 1}`}
+                    value={scheduledBreak.label}
+                    onChange={e => updateBreak(index, { label: e.target.value })}
+                    placeholder="f.eks. Frokost"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label={`Starttid for pause ${index + 1}`}
+                      value={scheduledBreak.startTime}
+                      onChange={e => updateBreak(index, { startTime: e.target.value })}
+                      className="sm:w-32"
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      aria-label={`Varighed af pause ${index + 1} (minutter)`}
+                      value={
+                        Number.isFinite(scheduledBreak.durationMinutes)
+                          ? scheduledBreak.durationMinutes
+                          : ''
+                      }
+                      onChange={e =>
+                        updateBreak(index, { durationMinutes: parseInt(e.target.value) })
+                      }
+                      className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">min</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Fjern pause ${index + 1}`}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
+                      onClick={() => removeBreak(index)}
+                    >
+                      <Trash size={16} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Faste pauser for hele turneringen, f.eks. frokost eller præmieoverrækkelse. Der
+                planlægges ingen kampe i pauserne
+              </p>
+              {breakError && <p className="text-sm text-destructive">{breakError}</p>}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Turneringsdage (Valgfri)</Label>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="gap-1 min-h-11"
+                  onClick={addDay}
+                >
+                  <Plus size={16} /> Tilføj dag
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium w-16 shrink-0">Dag 1</span>
+                <span className="text-sm text-muted-foreground">
+                  {watch('startDate')} fra {watch('startTime')} til
+                </span>
+                <Input
+                  type="time"
+                  aria-label="Sluttid dag 1"
+                  value={firstDayEnd}
+                  onChange={e => {
+                    setFirstDayEnd(e.target.value)
+                    setDayError('')
+                  }}
+                  className="w-32"
+                />
+              </div>
+              {extraDays.map((day, index) => (
+                <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <span className="text-sm font-medium w-16 shrink-0">Dag {index + 2}</span>
+                  <Input
+                    type="date"
+                    aria-label={`Dato dag ${index + 2}`}
+                    value={day.date}
+                    onChange={e => updateDay(index, { date: e.target.value })}
+                    className="sm:w-44"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label={`Starttid dag ${index + 2}`}
+                      value={day.startTime}
+                      onChange={e => updateDay(index, { startTime: e.target.value })}
+                      className="w-32"
+                    />
+                    <span className="text-sm text-muted-foreground">til</span>
+                    <Input
+                      type="time"
+                      aria-label={`Sluttid dag ${index + 2}`}
+                      value={day.endTime}
+                      onChange={e => updateDay(index, { endTime: e.target.value })}
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Fjern dag ${index + 2}`}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
+                      onClick={() => removeDay(index)}
+                    >
+                      <Trash size={16} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Spilles turneringen over flere dage, fortsætter kampe der ikke kan nå at blive
+                færdige, ved næste dags start. Sluttiden på sidste dag er et fast sluttidspunkt,
+                f.eks. når baneleje udløber, og skemaet planlægges så kampene når at slutte inden
+                da.
+              </p>
+              {dayError && <p className="text-sm text-destructive">{dayError}</p>}
+            </div>
           </div>
 
           {/* Mobile-friendly sticky bottom navigation */}
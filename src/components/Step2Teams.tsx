@@ -5,22 +5,129 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import type { Team } from '@/lib/types'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Division, Referee, RefereePool, Team } from '@/lib/types'
 import { ArrowRight, ArrowLeft, Plus, Trash, Users, WarningCircle } from '@phosphor-icons/react'
 import { v4 as uuidv4 } from 'uuid'
 
 interface Step2Props {
   initialTeams: Team[]
-  onNext: (teams: Team[]) => void
+  initialDivisions?: Division[]
+  initialRefereePool?: RefereePool
+  onNext: (teams: Team[], divisions: Division[], refereePool?: RefereePool) => void
   onBack: () => void
 }
 
-export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
+export function Step2Teams({
+  initialTeams,
+  initialDivisions = [],
+  initialRefereePool,
+  onNext,
+  onBack,
+}: Step2Props) {
   const [teams, setTeams] = useState<Team[]>(initialTeams)
+  const [divisions, setDivisions] = useState<Division[]>(initialDivisions)
+  const [targetDivisionId, setTargetDivisionId] = useState(initialDivisions[0]?.id || '')
   const [newTeamName, setNewTeamName] = useState('')
+  const [newDivisionName, setNewDivisionName] = useState('')
+  const [referees, setReferees] = useState<Referee[]>(initialRefereePool?.referees || [])
+  const [teamsReferee, setTeamsReferee] = useState(initialRefereePool?.teamsReferee || false)
+  const [newRefereeName, setNewRefereeName] = useState('')
   const [bulkText, setBulkText] = useState('')
   const [error, setError] = useState('')
 
+  // New teams join the selected division while the tournament has divisions
+  const createTeam = (name: string): Team =>
+    divisions.length > 0
+      ? { id: uuidv4(), name, divisionId: targetDivisionId }
+      : { id: uuidv4(), name }
+
+  const addDivision = () => {
+    const trimmedName = newDivisionName.trim()
+
+    if (!trimmedName) {
+      setError('Rækkenavn kan ikke være tomt')
+      return
+    }
+
+    if (divisions.some(d => d.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setError(`Række "${trimmedName}" eksisterer allerede`)
+      return
+    }
+
+    const division: Division = {
+      id: uuidv4(),
+      name: trimmedName,
+      schedulingConfig: { mode: 'round-robin' },
+    }
+    // The first division takes every team added so far
+    if (divisions.length === 0) {
+      setTeams(teams.map(t => ({ ...t, divisionId: division.id })))
+      setTargetDivisionId(division.id)
+    }
+    setDivisions([...divisions, division])
+    setNewDivisionName('')
+    setError('')
+  }
+
+  const removeDivision = (id: string) => {
+    const remaining = divisions.filter(d => d.id !== id)
+    const fallbackId = remaining[0]?.id
+    setDivisions(remaining)
+    setTeams(
+      teams.map(t => {
+        if (t.divisionId !== id) return t
+        const { divisionId: _removed, ...team } = t
+        return fallbackId ? { ...team, divisionId: fallbackId } : team
+      })
+    )
+    if (targetDivisionId === id) setTargetDivisionId(fallbackId || '')
+    setError('')
+  }
+
+  const updateDivisionDuration = (id: string, value: string) => {
+    const minutes = parseInt(value)
+    setDivisions(
+      divisions.map(d =>
+        d.id === id ? { ...d, matchDurationMinutes: minutes > 0 ? minutes : undefined } : d
+      )
+    )
+  }
+
+  const updateTeamDivision = (teamId: string, divisionId: string) => {
+    setTeams(teams.map(t => (t.id === teamId ? { ...t, divisionId } : t)))
+    setError('')
+  }
+
+  const addReferee = () => {
+    const trimmedName = newRefereeName.trim()
+
+    if (!trimmedName) {
+      setError('Dommernavn kan ikke være tomt')
+      return
+    }
+
+    if (referees.some(r => r.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setError(`Dommer "${trimmedName}" eksisterer allerede`)
+      return
+    }
+
+    setReferees([...referees, { id: uuidv4(), name: trimmedName }])
+    setNewRefereeName('')
+    setError('')
+  }
+
+  const removeReferee = (id: string) => {
+    setReferees(referees.filter(r => r.id !== id))
+    setError('')
+  }
+
   const addTeam = () => {
     const trimmedName = newTeamName.trim()
 
@@ -34,7 +141,7 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
       return
     }
 
-    setTeams([...teams, { id: uuidv4(), name: trimmedName }])
+    setTeams([...teams, createTeam(trimmedName)])
     setNewTeamName('')
     setError('')
   }
@@ -63,7 +170,7 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
         continue
       }
 
-      newTeams.push({ id: uuidv4(), name })
+      newTeams.push(createTeam(name))
       addedInBulk.add(lowerName)
     }
 
@@ -82,12 +189,53 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
     setError('')
   }
 
+  const updateTeamWindow = (
+    id: string,
+    field: 'availableFrom' | 'availableUntil',
+    value: string
+  ) => {
+    setTeams(teams.map(t => (t.id === id ? { ...t, [field]: value || undefined } : t)))
+    setError('')
+  }
+
   const handleNext = () => {
     if (teams.length < 2) {
       setError('Mindst 2 hold er påkrævet')
       return
     }
-    onNext(teams)
+
+    const invalidWindow = teams.find(
+      t => t.availableFrom && t.availableUntil && t.availableFrom >= t.availableUntil
+    )
+    if (invalidWindow) {
+      setError(`${invalidWindow.name}: Seneste sluttid skal være efter tidligste starttid`)
+      return
+    }
+
+    if (divisions.length === 1) {
+      setError('Opret mindst to rækker, eller fjern rækken')
+      return
+    }
+
+    const shortDivision = divisions.find(
+      d => d.matchDurationMinutes !== undefined && d.matchDurationMinutes < 5
+    )
+    if (shortDivision) {
+      setError(`${shortDivision.name}: Kampvarighed skal være mindst 5 minutter`)
+      return
+    }
+
+    const smallDivision = divisions.find(d => teams.filter(t => t.divisionId === d.id).length < 2)
+    if (smallDivision) {
+      setError(`${smallDivision.name}: Mindst 2 hold er påkrævet i hver række`)
+      return
+    }
+
+    onNext(
+      teams,
+      divisions,
+      referees.length > 0 || teamsReferee ? { referees, teamsReferee } : undefined
+    )
   }
 
   return (
@@ -150,6 +298,155 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
                   Tilføj Alle Hold
                 </Button>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="divisionName" className="text-base font-medium">
+                  Rækker (Valgfri)
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Opdel holdene i rækker (f.eks. U9 og U11), som planlægges hver for sig på de samme
+                  baner
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    id="divisionName"
+                    value={newDivisionName}
+                    onChange={e => setNewDivisionName(e.target.value)}
+                    placeholder="Rækkenavn"
+                    className="min-h-12 text-base"
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        addDivision()
+                      }
+                    }}
+                  />
+                  <Button
+                    onClick={addDivision}
+                    type="button"
+                    variant="secondary"
+                    className="gap-2 min-h-12 w-full sm:w-auto"
+                  >
+                    <Plus size={20} /> Tilføj række
+                  </Button>
+                </div>
+                {divisions.length > 0 && (
+                  <>
+                    <div className="border rounded-lg divide-y">
+                      {divisions.map(division => (
+                        <div key={division.id} className="flex items-center gap-2 p-2">
+                          <span className="flex-1 font-medium">
+                            {division.name}{' '}
+                            <span className="text-sm text-muted-foreground">
+                              ({teams.filter(t => t.divisionId === division.id).length} hold)
+                            </span>
+                          </span>
+                          <Input
+                            type="number"
+                            min="5"
+                            aria-label={`Kampvarighed for ${division.name} (minutter)`}
+                            placeholder="Standard"
+                            value={division.matchDurationMinutes ?? ''}
+                            onChange={e => updateDivisionDuration(division.id, e.target.value)}
+                            className="h-9 w-24"
+                          />
+                          <span className="text-sm text-muted-foreground">min</span>
+                          <Button
+                            onClick={() => removeDivision(division.id)}
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            aria-label={`Fjern række ${division.name}`}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash size={18} />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground shrink-0">
+                        Nye hold tilføjes til
+                      </span>
+                      <Select value={targetDivisionId} onValueChange={setTargetDivisionId}>
+                        <SelectTrigger aria-label="Række for nye hold">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {divisions.map(division => (
+                            <SelectItem key={division.id} value={division.id}>
+                              {division.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="refereeName" className="text-base font-medium">
+                  Dommere (Valgfri)
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Dommerne fordeles ligeligt på kampene, så ingen dømmer to kampe på samme tid
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    id="refereeName"
+                    value={newRefereeName}
+                    onChange={e => setNewRefereeName(e.target.value)}
+                    placeholder="Dommerens navn"
+                    className="min-h-12 text-base"
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        addReferee()
+                      }
+                    }}
+                  />
+                  <Button
+                    onClick={addReferee}
+                    type="button"
+                    variant="secondary"
+                    className="gap-2 min-h-12 w-full sm:w-auto"
+                  >
+                    <Plus size={20} /> Tilføj dommer
+                  </Button>
+                </div>
+                {referees.length > 0 && (
+                  <div className="border rounded-lg divide-y">
+                    {referees.map(referee => (
+                      <div key={referee.id} className="flex items-center gap-2 p-2">
+                        <span className="flex-1 font-medium">{referee.name}</span>
+                        <Button
+                          onClick={() => removeReferee(referee.id)}
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Fjern dommer ${referee.name}`}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash size={18} />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <input
+                    id="teamsReferee"
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={teamsReferee}
+                    onChange={e => setTeamsReferee(e.target.checked)}
+                  />
+                  <Label htmlFor="teamsReferee" className="cursor-pointer">
+                    Holdene dømmer hinandens kampe
+                  </Label>
+                </div>
+              </div>
             </div>
 
             <div className="space-y-4">
@@ -159,6 +456,11 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
                   Hold ({teams.length})
                 </Label>
               </div>
+              {teams.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Valgfrit: Angiv hvornår et hold tidligst kan spille og senest skal være færdigt
+                </p>
+              )}
 
               {teams.length === 0 ? (
                 <div className="border-2 border-dashed border-border rounded-lg p-8 text-center text-muted-foreground">
@@ -172,7 +474,7 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
                     {teams.map((team, index) => (
                       <div
                         key={team.id}
-                        className="flex items-center justify-between p-3 hover:bg-muted/50 transition-colors"
+                        className="flex flex-wrap items-center justify-between gap-2 p-3 hover:bg-muted/50 transition-colors"
                       >
                         <div className="flex items-center gap-3">
                           <span className="text-xs font-semibold text-muted-foreground w-6">
@@ -180,14 +482,55 @@ export function Step2Teams({ initialTeams, onNext, onBack }: Step2Props) {
                           </span>
                           <span className="font-medium">{team.name}</span>
                         </div>
-                        <Button
-                          onClick={() => removeTeam(team.id)}
-                          variant="ghost"
-                          size="sm"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash size={18} />
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          {divisions.length > 0 && (
+                            <Select
+                              value={team.divisionId || ''}
+                              onValueChange={value => updateTeamDivision(team.id, value)}
+                            >
+                              <SelectTrigger
+                                aria-label={`Række for ${team.name}`}
+                                className="h-9 w-24"
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {divisions.map(division => (
+                                  <SelectItem key={division.id} value={division.id}>
+                                    {division.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Input
+                            type="time"
+                            aria-label={`Tidligste starttid for ${team.name}`}
+                            value={team.availableFrom || ''}
+                            onChange={e =>
+                              updateTeamWindow(team.id, 'availableFrom', e.target.value)
+                            }
+                            className="h-9 w-28"
+                          />
+                          <span className="text-muted-foreground">-</span>
+                          <Input
+                            type="time"
+                            aria-label={`Seneste sluttid for ${team.name}`}
+                            value={team.availableUntil || ''}
+                            onChange={e =>
+                              updateTeamWindow(team.id, 'availableUntil', e.target.value)
+                            }
+                            className="h-9 w-28"
+                          />
+                          <Button
+                            onClick={() => removeTeam(team.id)}
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash size={18} />
+                          </Button>
+                        </div>
                       </div>
                     ))}
                   </div>
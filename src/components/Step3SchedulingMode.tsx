@@ -11,13 +11,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import type { SchedulingConfig, SchedulingMode, Team } from '@/lib/types'
+import type {
+  EndTimeCapacity,
+  PinnedMatch,
+  PitchStrategy,
+  SchedulingConfig,
+  SchedulingMode,
+  Team,
+  TimeAllocation,
+} from '@/lib/types'
 import { ArrowRight, ArrowLeft, Plus, Trash } from '@phosphor-icons/react'
+import { analyzeFeasibility } from '@/lib/feasibility'
+import { MAX_OPTIMIZATION_RUNS } from '@/lib/scheduler'
 
 interface Step3Props {
   initialConfig: SchedulingConfig
   teamCount: number
   teams: Team[]
+  pitchNames?: string[]
+  endTimeCapacity?: EndTimeCapacity
+  divisionName?: string
+  hasNextDivision?: boolean
   onNext: (config: SchedulingConfig) => void
   onBack: () => void
 }
@@ -26,10 +40,15 @@ export function Step3SchedulingMode({
   initialConfig,
   teamCount,
   teams,
+  pitchNames = [],
+  endTimeCapacity,
+  divisionName,
+  hasNextDivision,
   onNext,
   onBack,
 }: Step3Props) {
   const [mode, setMode] = useState<SchedulingMode>(initialConfig.mode)
+  const [doubleRoundRobin, setDoubleRoundRobin] = useState(initialConfig.doubleRoundRobin || false)
   const [maxMatchesPerTeam, setMaxMatchesPerTeam] = useState<number | ''>(
     initialConfig.maxMatchesPerTeam || 3
   )
@@ -37,8 +56,37 @@ export function Step3SchedulingMode({
   const [excludedMatchups, setExcludedMatchups] = useState<[string, string][]>(
     initialConfig.excludedMatchups || []
   )
+  const [requiredMatchups, setRequiredMatchups] = useState<[string, string][]>(
+    initialConfig.requiredMatchups || []
+  )
+  const [numGroups, setNumGroups] = useState<number | ''>(initialConfig.numGroups || 2)
+  const [teamsAdvancingPerGroup, setTeamsAdvancingPerGroup] = useState<number | ''>(
+    initialConfig.teamsAdvancingPerGroup || 2
+  )
+  const [swissRounds, setSwissRounds] = useState<number | ''>(
+    initialConfig.swissRounds || Math.max(1, Math.ceil(Math.log2(Math.max(teamCount, 2))))
+  )
+  const [minRestSlots, setMinRestSlots] = useState<number | ''>(initialConfig.minRestSlots || 0)
+  const [pitchStrategy, setPitchStrategy] = useState<PitchStrategy>(
+    initialConfig.pitchStrategy || 'in-order'
+  )
+  const [timeAllocation, setTimeAllocation] = useState<TimeAllocation>(
+    initialConfig.timeAllocation || 'synchronized'
+  )
+  const [optimizationRuns, setOptimizationRuns] = useState<number | ''>(
+    initialConfig.optimizationRuns || 1
+  )
   const [excludeTeam1, setExcludeTeam1] = useState<string>('')
   const [excludeTeam2, setExcludeTeam2] = useState<string>('')
+  const [requireTeam1, setRequireTeam1] = useState<string>('')
+  const [requireTeam2, setRequireTeam2] = useState<string>('')
+  const [pinnedMatches, setPinnedMatches] = useState<PinnedMatch[]>(
+    initialConfig.pinnedMatches || []
+  )
+  const [pinHome, setPinHome] = useState<string>('')
+  const [pinAway, setPinAway] = useState<string>('')
+  const [pinRound, setPinRound] = useState<number | ''>('')
+  const [pinPitch, setPinPitch] = useState<string>('any')
   const [error, setError] = useState('')
 
   const handleNext = () => {
@@ -54,13 +102,71 @@ export function Step3SchedulingMode({
       }
     }
 
+    if (mode === 'groups-knockout') {
+      if (!numGroups || numGroups < 1 || numGroups > maxGroups) {
+        setError(`Antal puljer skal være mellem 1 og ${maxGroups}`)
+        return
+      }
+
+      if (
+        !teamsAdvancingPerGroup ||
+        teamsAdvancingPerGroup < 1 ||
+        teamsAdvancingPerGroup > smallestGroupSize
+      ) {
+        setError(`Hold videre pr. pulje skal være mellem 1 og ${smallestGroupSize}`)
+        return
+      }
+
+      if (knockoutSize < 2) {
+        setError('Mindst 2 hold skal gå videre til slutspillet')
+        return
+      }
+    }
+
+    if (mode === 'swiss') {
+      if (!swissRounds || swissRounds < 1 || swissRounds > maxSwissRounds) {
+        setError(`Antal runder skal være mellem 1 og ${maxSwissRounds}`)
+        return
+      }
+    }
+
+    if (minRestSlots !== '' && (!Number.isInteger(minRestSlots) || minRestSlots < 0)) {
+      setError('Minimum hvile skal være 0 eller flere runder')
+      return
+    }
+
+    // The chosen variant survives going back to adjust the settings
+    if (
+      mode !== 'swiss' &&
+      (!Number.isInteger(optimizationRuns) ||
+        Number(optimizationRuns) < 1 ||
+        Number(optimizationRuns) > MAX_OPTIMIZATION_RUNS)
+    ) {
+      setError(`Antal forsøg skal være mellem 1 og ${MAX_OPTIMIZATION_RUNS}`)
+      return
+    }
+
     const config: SchedulingConfig = {
       mode,
+      ...(initialConfig.seed && { seed: initialConfig.seed }),
+      ...(Number(minRestSlots) > 0 && { minRestSlots: Number(minRestSlots) }),
+      ...(pitchStrategy !== 'in-order' && { pitchStrategy }),
+      ...(canRoll && timeAllocation === 'rolling' && { timeAllocation }),
+      ...(mode === 'round-robin' && doubleRoundRobin && { doubleRoundRobin: true }),
       ...(mode === 'limited-matches' && {
         maxMatchesPerTeam: Number(maxMatchesPerTeam),
         maxTotalMatches: maxTotalMatches || undefined,
         excludedMatchups: excludedMatchups.length > 0 ? excludedMatchups : undefined,
+        requiredMatchups: requiredMatchups.length > 0 ? requiredMatchups : undefined,
       }),
+      ...(mode === 'groups-knockout' && {
+        numGroups: Number(numGroups),
+        teamsAdvancingPerGroup: Number(teamsAdvancingPerGroup),
+      }),
+      ...(mode === 'swiss' && { swissRounds: Number(swissRounds) }),
+      ...(canPin && pinnedMatches.length > 0 && { pinnedMatches }),
+      ...(mode !== 'swiss' &&
+        Number(optimizationRuns) > 1 && { optimizationRuns: Number(optimizationRuns) }),
     }
 
     onNext(config)
@@ -81,6 +187,11 @@ export function Step3SchedulingMode({
       return
     }
 
+    if (requiredMatchups.some(([a, b]) => [a, b].sort().join('-') === pairKey)) {
+      setError('Denne parring er sikret og kan ikke udelukkes')
+      return
+    }
+
     setExcludedMatchups([...excludedMatchups, [excludeTeam1, excludeTeam2]])
     setExcludeTeam1('')
     setExcludeTeam2('')
@@ -91,19 +202,133 @@ export function Step3SchedulingMode({
     setExcludedMatchups(excludedMatchups.filter((_, i) => i !== index))
   }
 
+  const addRequiredMatchup = () => {
+    if (!requireTeam1 || !requireTeam2) return
+    if (requireTeam1 === requireTeam2) {
+      setError('Vælg to forskellige hold')
+      return
+    }
+
+    const pairKey = [requireTeam1, requireTeam2].sort().join('-')
+    const alreadyRequired = requiredMatchups.some(([a, b]) => [a, b].sort().join('-') === pairKey)
+
+    if (alreadyRequired) {
+      setError('Denne parring er allerede sikret')
+      return
+    }
+
+    if (excludedMatchups.some(([a, b]) => [a, b].sort().join('-') === pairKey)) {
+      setError('Denne parring er udelukket og kan ikke sikres')
+      return
+    }
+
+    setRequiredMatchups([...requiredMatchups, [requireTeam1, requireTeam2]])
+    setRequireTeam1('')
+    setRequireTeam2('')
+    setError('')
+  }
+
+  const removeRequiredMatchup = (index: number) => {
+    setRequiredMatchups(requiredMatchups.filter((_, i) => i !== index))
+  }
+
+  const addPinnedMatch = () => {
+    if (!pinHome || !pinAway) return
+    if (pinHome === pinAway) {
+      setError('Vælg to forskellige hold')
+      return
+    }
+
+    if (pinRound === '' && pinPitch === 'any') {
+      setError('Angiv en runde og/eller en bane for den fastlåste kamp')
+      return
+    }
+
+    if (pinRound !== '' && (!Number.isInteger(pinRound) || pinRound < 1)) {
+      setError('Runden for den fastlåste kamp skal være mindst 1')
+      return
+    }
+
+    const pairKey = [pinHome, pinAway].sort().join('-')
+    const alreadyPinned = pinnedMatches.some(
+      pin => [pin.homeTeamId, pin.awayTeamId].sort().join('-') === pairKey
+    )
+
+    if (alreadyPinned) {
+      setError('Dette opgør er allerede fastlåst')
+      return
+    }
+
+    setPinnedMatches([
+      ...pinnedMatches,
+      {
+        homeTeamId: pinHome,
+        awayTeamId: pinAway,
+        ...(pinRound !== '' && { slot: pinRound - 1 }),
+        ...(pinPitch !== 'any' && { pitch: Number(pinPitch) }),
+      },
+    ])
+    setPinHome('')
+    setPinAway('')
+    setPinRound('')
+    setPinPitch('any')
+    setError('')
+  }
+
+  const removePinnedMatch = (index: number) => {
+    setPinnedMatches(pinnedMatches.filter((_, i) => i !== index))
+  }
+
   const getTeamName = (id: string) => {
     return teams.find(t => t.id === id)?.name || id
   }
 
+  // Divisions are interleaved on the shared pitches after generation, which
+  // would move pinned matches away from their round and pitch
+  const canPin = (mode === 'round-robin' || mode === 'limited-matches') && !divisionName
+  // Swiss rounds wait for results, and divisions always share the pitches
+  // this way
+  const canRoll = mode !== 'swiss' && !divisionName
+
   const maxPossibleOpponents = teamCount - 1
   const maxMatchesWithRematches = Math.max(1, maxPossibleOpponents * 2)
-  const roundRobinMatches = (teamCount * (teamCount - 1)) / 2
+  const legs = doubleRoundRobin ? 2 : 1
+  const roundRobinMatches = ((teamCount * (teamCount - 1)) / 2) * legs
+  const feasibilityIssues = analyzeFeasibility(teams, {
+    mode,
+    maxMatchesPerTeam: Number(maxMatchesPerTeam) || undefined,
+    maxTotalMatches,
+    excludedMatchups,
+    requiredMatchups,
+  })
+  const limitedMatches = Math.min(
+    Number(maxTotalMatches) || Infinity,
+    Math.ceil((teamCount * (Number(maxMatchesPerTeam) || 0)) / 2)
+  )
+  const endTime = endTimeCapacity?.end.toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  // Divisions share the pitches, so the venue's capacity is not theirs alone
+  const capacity = divisionName ? undefined : endTimeCapacity
+
+  const maxGroups = Math.max(1, Math.floor(teamCount / 2))
+  const groupCount = Math.min(Math.max(Number(numGroups) || 1, 1), maxGroups)
+  const smallestGroupSize = Math.floor(teamCount / groupCount)
+  const largestGroupSize = Math.ceil(teamCount / groupCount)
+  const qualifiers = groupCount * (Number(teamsAdvancingPerGroup) || 0)
+  let knockoutSize = 1
+  while (knockoutSize * 2 <= qualifiers) knockoutSize *= 2
+
+  // An odd team count gives everyone one bye, which allows one extra round
+  const maxSwissRounds = Math.max(1, teamCount % 2 === 0 ? teamCount - 1 : teamCount)
+  const swissMatchesPerRound = Math.floor(teamCount / 2)
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-2xl" style={{ fontFamily: 'var(--font-heading)' }}>
-          Planlægningstilstand
+          {divisionName ? `Planlægningstilstand: ${divisionName}` : 'Planlægningstilstand'}
         </CardTitle>
         <CardDescription>Vælg hvordan kampe skal planlægges for {teamCount} hold</CardDescription>
       </CardHeader>
@@ -128,16 +353,36 @@ export function Step3SchedulingMode({
                     <p className="text-sm text-muted-foreground mt-1">
                       Klassisk turneringsformat hvor hvert hold spiller mod hvert andet hold én gang
                     </p>
+                    {mode === 'round-robin' && (
+                      <div className="mt-3 flex items-center gap-2 animate-fadeIn">
+                        <input
+                          id="doubleRoundRobin"
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={doubleRoundRobin}
+                          onChange={e => setDoubleRoundRobin(e.target.checked)}
+                        />
+                        <Label htmlFor="doubleRoundRobin" className="cursor-pointer">
+                          Ude- og hjemmekamp (hvert opgør spilles to gange)
+                        </Label>
+                      </div>
+                    )}
                     <div className="mt-3 p-3 bg-muted rounded-md">
                       <p className="text-sm font-medium">
                         Totale kampe:{' '}
                         <span className="text-primary font-bold">{roundRobinMatches}</span>
                       </p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        Hvert hold spiller {maxPossibleOpponents} kamp
-                        {maxPossibleOpponents !== 1 ? 'e' : ''}
+                        Hvert hold spiller {maxPossibleOpponents * legs} kamp
+                        {maxPossibleOpponents * legs !== 1 ? 'e' : ''}
                         {teamCount % 2 !== 0 && ' (1 hold sidder over i hver runde)'}
                       </p>
+                      {capacity && roundRobinMatches > capacity.matches && (
+                        <p className="text-xs text-destructive mt-1">
+                          ⚠️ Kun {capacity.matches} kampe kan nå at blive spillet inden kl.{' '}
+                          {endTime}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -203,6 +448,12 @@ export function Step3SchedulingMode({
                           <p className="text-xs text-muted-foreground">
                             Begræns yderligere det totale antal kampe i turneringen
                           </p>
+                          {capacity && limitedMatches > capacity.matches && (
+                            <p className="text-xs text-accent-foreground">
+                              Sættes automatisk til {capacity.matches}, så alle kampe kan nå at
+                              blive spillet inden kl. {endTime}
+                            </p>
+                          )}
                         </div>
 
                         {Number(maxMatchesPerTeam) > maxPossibleOpponents && (
@@ -276,6 +527,7 @@ export function Step3SchedulingMode({
                                   </span>
                                   <Button
                                     onClick={() => removeExcludedMatchup(idx)}
+                                    aria-label={`Fjern udelukket holdpar ${getTeamName(a)} og ${getTeamName(b)}`}
                                     variant="ghost"
                                     size="sm"
                                     className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
@@ -287,14 +539,442 @@ export function Step3SchedulingMode({
                             </div>
                           )}
                         </div>
+
+                        <div className="space-y-3 border-t pt-4">
+                          <Label className="text-base font-medium">Sikre holdpar (valgfri)</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Vælg hold der altid skal spille mod hinanden, f.eks. lokalopgør
+                          </p>
+
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <Select value={requireTeam1} onValueChange={setRequireTeam1}>
+                              <SelectTrigger className="min-h-11 flex-1" aria-label="Sikret hold 1">
+                                <SelectValue placeholder="Vælg hold 1" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {teams.map(team => (
+                                  <SelectItem key={team.id} value={team.id}>
+                                    {team.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+
+                            <Select value={requireTeam2} onValueChange={setRequireTeam2}>
+                              <SelectTrigger className="min-h-11 flex-1" aria-label="Sikret hold 2">
+                                <SelectValue placeholder="Vælg hold 2" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {teams
+                                  .filter(t => t.id !== requireTeam1)
+                                  .map(team => (
+                                    <SelectItem key={team.id} value={team.id}>
+                                      {team.name}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+
+                            <Button
+                              onClick={addRequiredMatchup}
+                              type="button"
+                              variant="secondary"
+                              size="sm"
+                              className="gap-1 min-h-11"
+                              disabled={!requireTeam1 || !requireTeam2}
+                              aria-label="Tilføj sikret holdpar"
+                            >
+                              <Plus size={16} /> Tilføj
+                            </Button>
+                          </div>
+
+                          {requiredMatchups.length > 0 && (
+                            <div className="space-y-2">
+                              {requiredMatchups.map(([a, b], idx) => (
+                                <div
+                                  key={`${a}-${b}`}
+                                  className="flex items-center justify-between p-2 bg-muted rounded-md"
+                                >
+                                  <span className="text-sm font-medium">
+                                    {getTeamName(a)} ↔ {getTeamName(b)}
+                                  </span>
+                                  <Button
+                                    onClick={() => removeRequiredMatchup(idx)}
+                                    aria-label={`Fjern sikret holdpar ${getTeamName(a)} og ${getTeamName(b)}`}
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
+                                  >
+                                    <Trash size={16} />
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+
+                        {feasibilityIssues.length > 0 && (
+                          <div
+                            className="p-3 bg-accent/20 border border-accent rounded-md"
+                            aria-label="Problemer med antal kampe"
+                          >
+                            <p className="text-sm font-medium text-accent-foreground">
+                              ⚠️ Begrænsningerne påvirker antallet af kampe
+                            </p>
+                            <ul className="text-xs text-muted-foreground mt-1 list-disc pl-4">
+                              {feasibilityIssues.map(issue => (
+                                <li key={issue.message}>{issue.message}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
                 </div>
               </div>
+
+              <div
+                className={`border-2 rounded-lg p-4 cursor-pointer transition-all ${
+                  mode === 'groups-knockout'
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border hover:border-primary/50'
+                }`}
+                onClick={() => setMode('groups-knockout')}
+              >
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="groups-knockout" id="groups-knockout" className="mt-1" />
+                  <div className="flex-1">
+                    <Label
+                      htmlFor="groups-knockout"
+                      className="text-base font-semibold cursor-pointer"
+                    >
+                      Puljer og slutspil
+                    </Label>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Holdene deles i puljer der spiller alle mod alle, efterfulgt af kvartfinaler,
+                      semifinaler og finale
+                    </p>
+
+                    {mode === 'groups-knockout' && (
+                      <div className="mt-4 space-y-4 animate-fadeIn">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="numGroups">Antal puljer *</Label>
+                            <Input
+                              id="numGroups"
+                              type="number"
+                              min="1"
+                              max={maxGroups}
+                              value={numGroups}
+                              onChange={e =>
+                                setNumGroups(e.target.value === '' ? '' : Number(e.target.value))
+                              }
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="teamsAdvancingPerGroup">Hold videre pr. pulje *</Label>
+                            <Input
+                              id="teamsAdvancingPerGroup"
+                              type="number"
+                              min="1"
+                              max={smallestGroupSize}
+                              value={teamsAdvancingPerGroup}
+                              onChange={e =>
+                                setTeamsAdvancingPerGroup(
+                                  e.target.value === '' ? '' : Number(e.target.value)
+                                )
+                              }
+                            />
+                          </div>
+                        </div>
+
+                        <div className="p-3 bg-muted rounded-md">
+                          <p className="text-sm font-medium">
+                            Puljestørrelse:{' '}
+                            <span className="text-primary font-bold">
+                              {smallestGroupSize === largestGroupSize
+                                ? smallestGroupSize
+                                : `${smallestGroupSize}-${largestGroupSize}`}{' '}
+                              hold
+                            </span>
+                          </p>
+                          {knockoutSize >= 2 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Slutspil med {knockoutSize} hold
+                              {knockoutSize < qualifiers &&
+                                ` (kun ${knockoutSize} af ${qualifiers} går videre, efter placering og derefter puljerækkefølge)`}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Swiss rounds are generated from results one at a time, which the
+                  shared-pitch interleaving of divisions cannot follow */}
+              {!divisionName && (
+                <div
+                  className={`border-2 rounded-lg p-4 cursor-pointer transition-all ${
+                    mode === 'swiss'
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border hover:border-primary/50'
+                  }`}
+                  onClick={() => setMode('swiss')}
+                >
+                  <div className="flex items-start gap-3">
+                    <RadioGroupItem value="swiss" id="swiss" className="mt-1" />
+                    <div className="flex-1">
+                      <Label htmlFor="swiss" className="text-base font-semibold cursor-pointer">
+                        Schweizersystem
+                      </Label>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Kun første runde planlægges. Hver ny runde parres ud fra stillingen, så hold
+                        med samme point mødes og ingen møder samme modstander to gange
+                      </p>
+
+                      {mode === 'swiss' && (
+                        <div className="mt-4 space-y-4 animate-fadeIn">
+                          <div className="space-y-2">
+                            <Label htmlFor="swissRounds">Antal runder *</Label>
+                            <Input
+                              id="swissRounds"
+                              type="number"
+                              min="1"
+                              max={maxSwissRounds}
+                              value={swissRounds}
+                              onChange={e =>
+                                setSwissRounds(e.target.value === '' ? '' : Number(e.target.value))
+                              }
+                            />
+                          </div>
+
+                          <div className="p-3 bg-muted rounded-md">
+                            <p className="text-sm font-medium">
+                              Kampe pr. runde:{' '}
+                              <span className="text-primary font-bold">{swissMatchesPerRound}</span>
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Indtast resultaterne og generér næste runde fra skemaet
+                              {teamCount % 2 !== 0 && ' (1 hold sidder over i hver runde)'}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </RadioGroup>
 
+          {capacity && (
+            <p className="text-sm text-muted-foreground">
+              Inden sluttidspunktet kl. {endTime} er der plads til {capacity.matches} kampe
+            </p>
+          )}
+          {divisionName && endTimeCapacity && (
+            <p className="text-sm text-muted-foreground">
+              Rækkerne deler banerne, så antallet af kampe tilpasses ikke automatisk til
+              sluttidspunktet kl. {endTime}. Kampe der slutter for sent vises som advarsler i
+              skemaet
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="minRestSlots">Minimum hvile mellem kampe (runder)</Label>
+            <Input
+              id="minRestSlots"
+              type="number"
+              min="0"
+              value={minRestSlots}
+              onChange={e => setMinRestSlots(e.target.value === '' ? '' : Number(e.target.value))}
+              className="sm:w-48"
+            />
+            <p className="text-xs text-muted-foreground">
+              Antal runder et hold mindst sidder over mellem to kampe. 1 betyder ingen kampe i træk;
+              banerne står hellere tomme end at give et hold for lidt hvile
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pitchStrategy">Banefordeling</Label>
+            <Select
+              value={pitchStrategy}
+              onValueChange={value => setPitchStrategy(value as PitchStrategy)}
+            >
+              <SelectTrigger id="pitchStrategy" className="min-h-11 sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="in-order">Fyld banerne i rækkefølge</SelectItem>
+                <SelectItem value="rotate">Skift bane, så alle hold prøver alle baner</SelectItem>
+                <SelectItem value="stay">Bliv på samme bane mellem kampene</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Skift bane giver alle hold en tur på de gode og dårlige baner. Bliv på samme bane
+              giver mindre gåtur mellem kampene
+            </p>
+          </div>
+
+          {canRoll && (
+            <div className="space-y-2">
+              <Label htmlFor="timeAllocation">Starttider</Label>
+              <Select
+                value={timeAllocation}
+                onValueChange={value => setTimeAllocation(value as TimeAllocation)}
+              >
+                <SelectTrigger id="timeAllocation" className="min-h-11 sm:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="synchronized">Alle baner starter samtidig</SelectItem>
+                  <SelectItem value="rolling">Rullende start på hver bane</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Med rullende start venter en bane ikke på de andre; næste kamp går i gang, så snart
+                banen er fri og begge hold har hvilet. Det giver lidt skæve starttider, men
+                turneringen bliver hurtigere færdig
+              </p>
+            </div>
+          )}
+
+          {mode !== 'swiss' && (
+            <div className="space-y-2">
+              <Label htmlFor="optimizationRuns">Optimér skemaet (antal forsøg)</Label>
+              <Input
+                id="optimizationRuns"
+                type="number"
+                min="1"
+                max={MAX_OPTIMIZATION_RUNS}
+                value={optimizationRuns}
+                onChange={e =>
+                  setOptimizationRuns(e.target.value === '' ? '' : Number(e.target.value))
+                }
+                className="sm:w-48"
+              />
+              <p className="text-xs text-muted-foreground">
+                Generér flere varianter af skemaet og behold den med den bedste kvalitetsscore. 1
+                betyder kun én variant
+              </p>
+            </div>
+          )}
+
+          {canPin && (
+            <div className="space-y-3 border-t pt-4">
+              <Label className="text-base font-medium">Fastlåste kampe (valgfri)</Label>
+              <p className="text-xs text-muted-foreground">
+                Bestem at et opgør skal spilles i en bestemt runde og/eller på en bestemt bane.
+                Resten af skemaet bygges rundt om de fastlåste kampe
+              </p>
+
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={pinHome} onValueChange={setPinHome}>
+                  <SelectTrigger
+                    className="min-h-11 flex-1"
+                    aria-label="Hjemmehold for fastlåst kamp"
+                  >
+                    <SelectValue placeholder="Hjemmehold" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={pinAway} onValueChange={setPinAway}>
+                  <SelectTrigger className="min-h-11 flex-1" aria-label="Udehold for fastlåst kamp">
+                    <SelectValue placeholder="Udehold" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams
+                      .filter(t => t.id !== pinHome)
+                      .map(team => (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Runde"
+                  aria-label="Runde for fastlåst kamp"
+                  value={pinRound}
+                  onChange={e => setPinRound(e.target.value === '' ? '' : Number(e.target.value))}
+                  className="min-h-11 sm:w-24"
+                />
+
+                <Select value={pinPitch} onValueChange={setPinPitch}>
+                  <SelectTrigger className="min-h-11 sm:w-40" aria-label="Bane for fastlåst kamp">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Vilkårlig bane</SelectItem>
+                    {pitchNames.map((name, idx) => (
+                      <SelectItem key={idx} value={String(idx + 1)}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Button
+                  onClick={addPinnedMatch}
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="gap-1 min-h-11"
+                  disabled={!pinHome || !pinAway}
+                >
+                  <Plus size={16} /> Fastlås
+                </Button>
+              </div>
+
+              {pinnedMatches.length > 0 && (
+                <div className="space-y-2">
+                  {pinnedMatches.map((pin, idx) => {
+                    const matchup = `${getTeamName(pin.homeTeamId)} mod ${getTeamName(pin.awayTeamId)}`
+                    return (
+                      <div
+                        key={`${pin.homeTeamId}-${pin.awayTeamId}`}
+                        className="flex items-center justify-between p-2 bg-muted rounded-md"
+                      >
+                        <span className="text-sm font-medium">
+                          {matchup}
+                          <span className="text-muted-foreground font-normal">
+                            {pin.slot !== undefined && ` · Runde ${pin.slot + 1}`}
+                            {pin.pitch !== undefined &&
+                              ` · ${pitchNames[pin.pitch - 1] || `Bane ${pin.pitch}`}`}
+                          </span>
+                        </span>
+                        <Button
+                          onClick={() => removePinnedMatch(idx)}
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Fjern fastlåst kamp ${matchup}`}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
+                        >
+                          <Trash size={16} />
+                        </Button>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="p-4 bg-destructive/10 border border-destructive rounded-lg text-sm text-destructive animate-shake">
               {error}
@@ -316,7 +996,7 @@ export function Step3SchedulingMode({
               size="lg"
               className="gap-2 w-full sm:w-auto order-1 sm:order-2 min-h-12"
             >
-              Generer Skema <ArrowRight size={20} />
+              {hasNextDivision ? 'Næste række' : 'Generer Skema'} <ArrowRight size={20} />
             </Button>
           </div>
         </div>
@@ -1,6 +1,7 @@
-import { useState, useMemo, useRef } from 'react'
+import { useState, useMemo, useRef, type DragEvent } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
@@ -12,7 +13,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import type { GeneratedSchedule, Match, Team, TournamentSettings, ByeInfo } from '@/lib/types'
+import type {
+  GeneratedSchedule,
+  Match,
+  Referee,
+  Team,
+  TournamentSettings,
+  ByeInfo,
+  BreakPeriod,
+} from '@/lib/types'
 import {
   ArrowLeft,
   Printer,
@@ -23,11 +32,33 @@ import {
   Check,
   Image,
   ShareNetwork,
+  Trophy,
+  ArrowsClockwise,
+  Shuffle,
+  Lightbulb,
+  UserMinus,
+  Clock,
 } from '@phosphor-icons/react'
-import { exportToCSV, exportToText, getPitchName, escapeHtml } from '@/lib/scheduler'
+import {
+  exportToCSV,
+  exportToText,
+  getPitchName,
+  getMatchLabel,
+  getCurrentSwissRound,
+  getBreakPeriods,
+  isMultiDaySchedule,
+  escapeHtml,
+} from '@/lib/scheduler'
 import { toast } from 'sonner'
 import html2canvas from 'html2canvas'
 import { SAFE_COLORS } from '@/lib/color-utils'
+import { scoreSchedule } from '@/lib/quality'
+import { computeFairnessReport, exportFairnessToCSV, exportFairnessToText } from '@/lib/fairness'
+
+interface ScheduleSection {
+  title?: string
+  entries: [string, Match[]][]
+}
 
 interface Step4Props {
   schedule: GeneratedSchedule
@@ -37,6 +68,14 @@ interface Step4Props {
   onBack: () => void
   onSave: () => void
   onShare: () => void
+  onResults?: () => void
+  swissRounds?: number
+  onGenerateNextRound?: () => void
+  onMoveMatch?: (matchId: string, target: { startTime: Date; pitch: number }) => void
+  onWithdrawTeam?: (teamId: string, closeGaps: boolean) => void
+  onDelay?: (from: Date, minutes: number, minBreakMinutes: number) => void
+  seed?: number
+  onGenerateVariant?: () => void
 }
 
 export function Step4Schedule({
@@ -47,12 +86,28 @@ export function Step4Schedule({
   onBack,
   onSave,
   onShare,
+  onResults,
+  swissRounds,
+  onGenerateNextRound,
+  onMoveMatch,
+  onWithdrawTeam,
+  onDelay,
+  seed,
+  onGenerateVariant,
 }: Step4Props) {
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedPitch, setSelectedPitch] = useState<string>('all')
   const [selectedTeam, setSelectedTeam] = useState<string>('all')
+  const [selectedDivision, setSelectedDivision] = useState<string>('all')
+  const [selectedReferee, setSelectedReferee] = useState<string>('all')
   const [copied, setCopied] = useState(false)
   const [exportingImage, setExportingImage] = useState(false)
+  const [draggedMatchId, setDraggedMatchId] = useState<string | null>(null)
+  const [withdrawTeamId, setWithdrawTeamId] = useState('')
+  const [closeGaps, setCloseGaps] = useState(true)
+  const [delayFrom, setDelayFrom] = useState('')
+  const [delayMinutes, setDelayMinutes] = useState('')
+  const [minBreak, setMinBreak] = useState(String(settings.breakBetweenMatches))
   const scheduleRef = useRef<HTMLDivElement>(null)
 
   const pitches = useMemo(() => {
@@ -60,9 +115,79 @@ export function Step4Schedule({
     return Array.from(pitchSet).sort((a, b) => a - b)
   }, [schedule.matches])
 
+  const divisions = useMemo(
+    () => Array.from(new Set(schedule.matches.flatMap(m => (m.division ? [m.division] : [])))),
+    [schedule.matches]
+  )
+  const hasDivisions = divisions.length > 0
+
+  const referees = useMemo(() => {
+    const byId = new Map<string, Referee>()
+    for (const match of schedule.matches) {
+      if (match.referee) byId.set(match.referee.id, match.referee)
+    }
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }, [schedule.matches])
+  const hasReferees = referees.length > 0
+  const columnCount = 6 + (hasDivisions ? 1 : 0) + (hasReferees ? 1 : 0)
+  const filterColumns = ['sm:grid-cols-3', 'sm:grid-cols-4', 'sm:grid-cols-5'][columnCount - 6]
+  const isMultiDay = useMemo(() => isMultiDaySchedule(schedule.matches), [schedule.matches])
+  const quality = useMemo(() => scoreSchedule(schedule, teams), [schedule, teams])
+  const fairness = useMemo(() => computeFairnessReport(schedule, teams), [schedule, teams])
+  const longestRest = Math.max(0, ...fairness.map(row => row.longestRestMinutes ?? 0))
+
+  // Multi-day schedules get a date heading wherever a new day begins
+  const startsNewDay = (entries: [string, Match[]][], idx: number) =>
+    isMultiDay &&
+    (idx === 0 ||
+      new Date(entries[idx - 1][0]).toDateString() !== new Date(entries[idx][0]).toDateString())
+
+  const teamDivisions = useMemo(() => {
+    const map = new Map<string, string>()
+    for (const match of schedule.matches) {
+      if (!match.division) continue
+      map.set(match.homeTeam.id, match.division)
+      map.set(match.awayTeam.id, match.division)
+    }
+    return map
+  }, [schedule.matches])
+
+  // Active span of a pitch in this schedule, shown when pitches have opening hours
+  const getPitchSpan = (pitch: number) => {
+    if (!settings.pitchWindows?.some(w => w?.availableFrom || w?.availableUntil)) return null
+    const pitchMatches = schedule.matches.filter(m => m.pitch === pitch)
+    if (pitchMatches.length === 0) return null
+    const first = Math.min(...pitchMatches.map(m => m.startTime.getTime()))
+    const last = Math.max(...pitchMatches.map(m => m.endTime.getTime()))
+    return `${formatTime(new Date(first))}-${formatTime(new Date(last))}`
+  }
+
+  const withdrawals = schedule.withdrawals || []
+  const movedMatchIds = new Set(withdrawals.flatMap(w => w.movedMatchIds))
+  const activeTeams = teams.filter(
+    t => t.id !== 'BYE' && !withdrawals.some(w => w.team.id === t.id)
+  )
+
+  // Slots that can still run late: those with a match not yet played
+  const upcomingSlots = useMemo(
+    () =>
+      Array.from(
+        new Set(schedule.matches.filter(m => !m.played).map(m => m.startTime.toISOString()))
+      ).sort(),
+    [schedule.matches]
+  )
+  const isDelayed = schedule.matches.some(m => m.plannedStartTime)
+
+  const currentSwissRound = getCurrentSwissRound(schedule.matches)
+  const allResultsEntered = schedule.matches.every(m => m.played)
+  const anyResultsEntered = schedule.matches.some(m => m.played)
+  const swissFinished = swissRounds !== undefined && currentSwissRound >= swissRounds
+
   const filteredMatches = useMemo(() => {
     return schedule.matches.filter(match => {
       const matchesPitch = selectedPitch === 'all' || match.pitch === Number(selectedPitch)
+      const matchesDivision = selectedDivision === 'all' || match.division === selectedDivision
+      const matchesReferee = selectedReferee === 'all' || match.referee?.id === selectedReferee
       const matchesTeam =
         selectedTeam === 'all' ||
         match.homeTeam.id === selectedTeam ||
@@ -72,9 +197,16 @@ export function Step4Schedule({
         match.homeTeam.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         match.awayTeam.name.toLowerCase().includes(searchQuery.toLowerCase())
 
-      return matchesPitch && matchesTeam && matchesSearch
+      return matchesPitch && matchesDivision && matchesReferee && matchesTeam && matchesSearch
     })
-  }, [schedule.matches, selectedPitch, selectedTeam, searchQuery])
+  }, [
+    schedule.matches,
+    selectedPitch,
+    selectedDivision,
+    selectedReferee,
+    selectedTeam,
+    searchQuery,
+  ])
 
   const matchesByTime = useMemo(() => {
     const grouped = new Map<string, Match[]>()
@@ -90,10 +222,31 @@ export function Step4Schedule({
     )
   }, [filteredMatches])
 
+  // Group-stage tournaments show the groups and the knockout bracket as
+  // separate tables; knockout slots never mix with group matches
+  const scheduleSections = useMemo(() => {
+    const allEntries: ScheduleSection[] = [{ entries: matchesByTime }]
+    if (!schedule.matches.some(m => m.stage === 'knockout')) return allEntries
+
+    const sections: ScheduleSection[] = [
+      {
+        title: 'Puljespil',
+        entries: matchesByTime.filter(([, matches]) => matches.every(m => m.stage !== 'knockout')),
+      },
+      {
+        title: 'Slutspil',
+        entries: matchesByTime.filter(([, matches]) => matches.some(m => m.stage === 'knockout')),
+      },
+    ].filter(section => section.entries.length > 0)
+    return sections.length > 0 ? sections : allEntries
+  }, [schedule.matches, matchesByTime])
+
   const byesByTimeKey = useMemo(() => {
     const map = new Map<string, ByeInfo[]>()
     for (const bye of schedule.byes || []) {
-      if (bye.startTime) {
+      const inDivision =
+        selectedDivision === 'all' || teamDivisions.get(bye.team.id) === selectedDivision
+      if (bye.startTime && inDivision) {
         const date = new Date(bye.startTime)
         const key = date.toISOString()
         if (!map.has(key)) {
@@ -103,7 +256,26 @@ export function Step4Schedule({
       }
     }
     return map
-  }, [schedule.byes])
+  }, [schedule.byes, selectedDivision, teamDivisions])
+
+  // Each scheduled break is listed just before the first time slot after it;
+  // breaks after the last slot close the program
+  const { breaksByTimeKey, trailingBreaks } = useMemo(() => {
+    const map = new Map<string, BreakPeriod[]>()
+    const trailing: BreakPeriod[] = []
+    for (const period of getBreakPeriods(schedule.matches, settings)) {
+      const entry = matchesByTime.find(([timeKey]) => new Date(timeKey) >= period.startTime)
+      if (!entry) {
+        trailing.push(period)
+        continue
+      }
+      if (!map.has(entry[0])) {
+        map.set(entry[0], [])
+      }
+      map.get(entry[0])!.push(period)
+    }
+    return { breaksByTimeKey: map, trailingBreaks: trailing }
+  }, [schedule.matches, settings, matchesByTime])
 
   const teamMatches = useMemo(() => {
     if (selectedTeam === 'all') return []
@@ -112,11 +284,35 @@ export function Step4Schedule({
       .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
   }, [schedule.matches, selectedTeam])
 
+  const teamHomeCount = teamMatches.filter(m => m.homeTeam.id === selectedTeam).length
+
   const teamByes = useMemo(() => {
     if (selectedTeam === 'all') return []
     return (schedule.byes || []).filter(b => b.team.id === selectedTeam)
   }, [schedule.byes, selectedTeam])
 
+  // While a match is dragged, every slot offers its free pitches as drop targets
+  const getFreePitches = (timeKey: string) => {
+    if (!draggedMatchId) return []
+    const used = new Set(
+      schedule.matches.filter(m => m.startTime.toISOString() === timeKey).map(m => m.pitch)
+    )
+    return Array.from({ length: settings.numPitches }, (_, i) => i + 1).filter(
+      pitch => !used.has(pitch)
+    )
+  }
+
+  const dropTargetProps = (target: { startTime: Date; pitch: number }) => ({
+    onDragOver: (e: DragEvent) => {
+      if (draggedMatchId) e.preventDefault()
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault()
+      if (draggedMatchId) onMoveMatch?.(draggedMatchId, target)
+      setDraggedMatchId(null)
+    },
+  })
+
   const isConflict = (match: Match) => {
     return schedule.conflicts.some(conflict => conflict.matches.some(m => m.id === match.id))
   }
@@ -125,21 +321,31 @@ export function Step4Schedule({
     window.print()
   }
 
-  const handleDownloadCSV = () => {
-    const csv = exportToCSV(schedule.matches, settings)
+  const downloadCSV = (csv: string, suffix: string) => {
     // UTF-8 BOM so Excel detects the encoding (Danish team names: æøå).
     const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `${tournamentName || 'turnering'}-skema.csv`
+    a.download = `${tournamentName || 'turnering'}-${suffix}.csv`
     a.click()
     URL.revokeObjectURL(url)
     toast.success('CSV downloadet')
   }
 
+  const handleDownloadCSV = () => {
+    downloadCSV(exportToCSV(schedule.matches, settings), 'skema')
+  }
+
+  // A file of its own, so the schedule CSV stays a single table
+  const handleDownloadFairnessCSV = () => {
+    downloadCSV(exportFairnessToCSV(fairness, settings), 'fordeling')
+  }
+
   const handleCopyText = async () => {
-    const text = exportToText(schedule.matches, settings, schedule.byes || [])
+    const text =
+      exportToText(schedule.matches, settings, schedule.byes || []) +
+      exportFairnessToText(fairness, settings)
     await navigator.clipboard.writeText(text)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
@@ -165,57 +371,104 @@ export function Step4Schedule({
       // keep the exported PNG deterministic.
       const headingFont = "system-ui, 'Segoe UI', sans-serif"
 
-      const tableRows = matchesByTime
-        .map(([timeKey, matches]) => {
-          const byesAtTime = byesByTimeKey.get(timeKey) || []
-          const rowCount = matches.length + (byesAtTime.length > 0 ? 1 : 0)
-          const matchRows = matches
-            .map((match, idx) => {
-              const conflict = isConflict(match)
-              const rowBg = conflict
-                ? SAFE_COLORS.tableConflict
-                : idx % 2 === 0
-                  ? SAFE_COLORS.tableBg
-                  : SAFE_COLORS.tableAlt
-
-              const timeCell =
-                idx === 0
-                  ? `
-            <td rowspan="${rowCount}" style="padding: 12px 16px; font-weight: 600; vertical-align: top; border-right: 1px solid ${SAFE_COLORS.border}; color: ${SAFE_COLORS.text};">
-              ${formatTime(match.startTime)}
-            </td>
-          `
-                  : ''
+      const breakRowsHtml = (periods: BreakPeriod[]) =>
+        periods
+          .map(
+            period => `
+                <tr style="background-color: ${SAFE_COLORS.secondary};">
+                  <td style="padding: 10px 16px; font-weight: 600; border-right: 1px solid ${SAFE_COLORS.border}; color: ${SAFE_COLORS.text};">${formatTime(period.startTime)}</td>
+                  <td colspan="${columnCount - 2}" style="padding: 10px 16px; font-weight: 600; color: ${SAFE_COLORS.text};">${escapeHtml(period.label)}</td>
+                  <td style="padding: 10px 16px; color: ${SAFE_COLORS.mutedForeground};">${formatTime(period.endTime)}</td>
+                </tr>
+              `
+          )
+          .join('')
 
-              return `
-            <tr style="background-color: ${rowBg};">
-              ${timeCell}
-              <td style="padding: 12px 16px; color: ${SAFE_COLORS.text};">
-                <span style="display: inline-block; padding: 4px 10px; background-color: ${SAFE_COLORS.muted}; border: 1px solid ${SAFE_COLORS.border}; border-radius: 6px; font-size: 13px; font-weight: 500; color: ${SAFE_COLORS.text};">
-                  ${escapeHtml(getPitchName(match.pitch, settings))}
-                </span>
+      const tableRows = scheduleSections
+        .map((section, sectionIdx) => {
+          const sectionHeader = section.title
+            ? `
+            <tr style="background-color: ${SAFE_COLORS.secondary};">
+              <td colspan="${columnCount}" style="padding: 10px 16px; font-size: 15px; font-weight: 700; color: ${SAFE_COLORS.text};">
+                ${escapeHtml(section.title)}
               </td>
-              <td style="padding: 12px 16px; font-weight: 500; color: ${SAFE_COLORS.text};">${escapeHtml(match.homeTeam.name)}</td>
-              <td style="padding: 12px 16px; text-align: center; color: ${SAFE_COLORS.mutedForeground};">mod</td>
-              <td style="padding: 12px 16px; font-weight: 500; color: ${SAFE_COLORS.text};">${escapeHtml(match.awayTeam.name)}</td>
-              <td style="padding: 12px 16px; color: ${SAFE_COLORS.mutedForeground};">${formatTime(match.endTime)}</td>
             </tr>
           `
+            : ''
+
+          const sectionRows = section.entries
+            .map(([timeKey, matches], entryIdx) => {
+              const dayHeader = startsNewDay(section.entries, entryIdx)
+                ? `
+                <tr style="background-color: ${SAFE_COLORS.muted};">
+                  <td colspan="${columnCount}" style="padding: 8px 16px; font-size: 14px; font-weight: 700; color: ${SAFE_COLORS.text};">
+                    ${formatDate(new Date(timeKey))}
+                  </td>
+                </tr>
+              `
+                : ''
+              const byesAtTime = byesByTimeKey.get(timeKey) || []
+              const rowCount = matches.length + (byesAtTime.length > 0 ? 1 : 0)
+              const matchRows = matches
+                .map((match, idx) => {
+                  const conflict = isConflict(match)
+                  const label = getMatchLabel(match)
+                  const rowBg = conflict
+                    ? SAFE_COLORS.tableConflict
+                    : idx % 2 === 0
+                      ? SAFE_COLORS.tableBg
+                      : SAFE_COLORS.tableAlt
+
+                  const timeCell =
+                    idx === 0
+                      ? `
+                <td rowspan="${rowCount}" style="padding: 12px 16px; font-weight: 600; vertical-align: top; border-right: 1px solid ${SAFE_COLORS.border}; color: ${SAFE_COLORS.text};">
+                  ${formatTime(match.startTime)}
+                </td>
+              `
+                      : ''
+
+                  return `
+                <tr style="background-color: ${rowBg};">
+                  ${timeCell}
+                  <td style="padding: 12px 16px; color: ${SAFE_COLORS.text};">
+                    <span style="display: inline-block; padding: 4px 10px; background-color: ${SAFE_COLORS.muted}; border: 1px solid ${SAFE_COLORS.border}; border-radius: 6px; font-size: 13px; font-weight: 500; color: ${SAFE_COLORS.text};">
+                      ${escapeHtml(getPitchName(match.pitch, settings))}
+                    </span>
+                    ${label ? `<div style="margin-top: 4px; font-size: 12px; color: ${SAFE_COLORS.mutedForeground};">${escapeHtml(label)}</div>` : ''}
+                  </td>
+                  ${hasDivisions ? `<td style="padding: 12px 16px; font-weight: 600; color: ${SAFE_COLORS.text};">${escapeHtml(match.division || '')}</td>` : ''}
+                  <td style="padding: 12px 16px; font-weight: 500; color: ${SAFE_COLORS.text};">${escapeHtml(match.homeTeam.name)}</td>
+                  <td style="padding: 12px 16px; text-align: center; color: ${SAFE_COLORS.mutedForeground};">mod</td>
+                  <td style="padding: 12px 16px; font-weight: 500; color: ${SAFE_COLORS.text};">${escapeHtml(match.awayTeam.name)}</td>
+                  <td style="padding: 12px 16px; color: ${SAFE_COLORS.mutedForeground};">${formatTime(match.endTime)}</td>
+                  ${hasReferees ? `<td style="padding: 12px 16px; color: ${SAFE_COLORS.text};">${escapeHtml(match.referee?.name || '')}</td>` : ''}
+                </tr>
+              `
+                })
+                .join('')
+
+              const byeRow =
+                byesAtTime.length > 0
+                  ? `
+                <tr style="background-color: ${SAFE_COLORS.tableAlt};">
+                  <td colspan="${columnCount - 1}" style="padding: 8px 16px; font-size: 13px; font-style: italic; color: ${SAFE_COLORS.mutedForeground};">
+                    Oversidder: ${byesAtTime.map(b => escapeHtml(b.team.name)).join(', ')}
+                  </td>
+                </tr>
+              `
+                  : ''
+
+              return (
+                dayHeader + breakRowsHtml(breaksByTimeKey.get(timeKey) || []) + matchRows + byeRow
+              )
             })
             .join('')
 
-          const byeRow =
-            byesAtTime.length > 0
-              ? `
-            <tr style="background-color: ${SAFE_COLORS.tableAlt};">
-              <td colspan="5" style="padding: 8px 16px; font-size: 13px; font-style: italic; color: ${SAFE_COLORS.mutedForeground};">
-                Oversidder: ${byesAtTime.map(b => escapeHtml(b.team.name)).join(', ')}
-              </td>
-            </tr>
-          `
-              : ''
+          const closingBreaks =
+            sectionIdx === scheduleSections.length - 1 ? breakRowsHtml(trailingBreaks) : ''
 
-          return matchRows + byeRow
+          return sectionHeader + sectionRows + closingBreaks
         })
         .join('')
 
@@ -263,10 +516,12 @@ export function Step4Schedule({
                   <tr style="background-color: ${SAFE_COLORS.headerBg};">
                     <th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Tidspunkt</th>
                     <th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Bane</th>
+                    ${hasDivisions ? `<th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Række</th>` : ''}
                     <th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Hjemme</th>
                     <th style="padding: 12px 16px; text-align: center; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">mod</th>
                     <th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Ude</th>
                     <th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Sluttid</th>
+                    ${hasReferees ? `<th style="padding: 12px 16px; text-align: left; font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: ${SAFE_COLORS.headerText}; border-bottom: 1px solid ${SAFE_COLORS.border};">Dommer</th>` : ''}
                   </tr>
                 </thead>
                 <tbody>
@@ -338,6 +593,16 @@ export function Step4Schedule({
     return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
   }
 
+  const renderBreakRow = (period: BreakPeriod) => (
+    <tr key={`break-${period.startTime.toISOString()}`} className="bg-secondary/60">
+      <td className="px-4 py-3 font-semibold border-r">{formatTime(period.startTime)}</td>
+      <td colSpan={columnCount - 2} className="px-4 py-3 font-semibold">
+        {period.label}
+      </td>
+      <td className="px-4 py-3 text-muted-foreground">{formatTime(period.endTime)}</td>
+    </tr>
+  )
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-GB', {
       weekday: 'long',
@@ -358,7 +623,27 @@ export function Step4Schedule({
             <CardDescription>
               {schedule.matches.length} kampe planlagt på tværs af {pitches.length} ban
               {pitches.length !== 1 ? 'er' : 'e'}
+              {schedule.manuallyEdited && (
+                <Badge variant="secondary" className="ml-2">
+                  Manuelt redigeret
+                </Badge>
+              )}
+              {isDelayed && (
+                <Badge variant="secondary" className="ml-2">
+                  Forsinket
+                </Badge>
+              )}
+              {seed !== undefined && seed > 0 && (
+                <Badge variant="outline" className="ml-2">
+                  Variant {seed + 1}
+                </Badge>
+              )}
             </CardDescription>
+            {onMoveMatch && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Træk en kamp til en ledig bane eller over på en anden kamp for at bytte dem
+              </p>
+            )}
           </div>
           {/* Mobile-friendly export buttons grid */}
           <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
@@ -404,6 +689,22 @@ export function Step4Schedule({
               {copied ? <Check size={18} /> : <Copy size={18} />}
               {copied ? 'Kopieret!' : 'Kopiér'}
             </Button>
+            {onGenerateVariant && (
+              <Button
+                onClick={onGenerateVariant}
+                variant="outline"
+                size="sm"
+                className="gap-2 min-h-11 text-xs sm:text-sm"
+                disabled={anyResultsEntered}
+                title={
+                  anyResultsEntered
+                    ? 'Der er indtastet resultater, så skemaet kan ikke laves om'
+                    : 'Samme hold og indstillinger, en anden gyldig rækkefølge'
+                }
+              >
+                <Shuffle size={18} /> Ny variant
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -437,18 +738,237 @@ export function Step4Schedule({
             </div>
           )}
 
+          {withdrawals.length > 0 && (
+            <Alert className="no-print" aria-label="Trukne hold">
+              <UserMinus size={20} />
+              <AlertDescription>
+                <ul>
+                  {withdrawals.map(withdrawal => (
+                    <li key={withdrawal.team.id}>
+                      <span className="font-semibold">{withdrawal.team.name}</span> er trukket:{' '}
+                      {withdrawal.walkovers.length} kamp
+                      {withdrawal.walkovers.length !== 1 ? 'e' : ''} registreret som walkover (3-0)
+                      {withdrawal.movedMatchIds.length > 0 &&
+                        `, ${withdrawal.movedMatchIds.length} kamp${
+                          withdrawal.movedMatchIds.length !== 1 ? 'e' : ''
+                        } rykket frem`}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {schedule.suggestions && schedule.suggestions.length > 0 && (
+            <Alert className="no-print">
+              <Lightbulb size={20} />
+              <AlertDescription>
+                <p className="font-semibold">Forslag til at nå sluttidspunktet</p>
+                <ul className="list-disc pl-4">
+                  {schedule.suggestions.map(suggestion => (
+                    <li key={suggestion}>{suggestion}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="rounded-lg border p-4 no-print">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-semibold">Skemakvalitet</p>
+                <p className="text-sm text-muted-foreground">
+                  100 er et skema uden kampe i træk, lange pauser eller skæv fordeling
+                </p>
+              </div>
+              <Badge
+                variant={quality.score >= 80 ? 'default' : 'secondary'}
+                className="text-base"
+                aria-label="Kvalitetsscore"
+              >
+                {quality.score}/100
+              </Badge>
+            </div>
+            <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              {quality.components.map(component => (
+                <li key={component.key} className="flex justify-between gap-2">
+                  <span>
+                    {component.label}{' '}
+                    <span className="text-muted-foreground">({component.detail})</span>
+                  </span>
+                  <span
+                    className={
+                      component.penalty >= 0.5
+                        ? 'font-medium text-destructive'
+                        : 'text-muted-foreground'
+                    }
+                  >
+                    -{Math.round(component.penalty)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {swissRounds !== undefined && onGenerateNextRound && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border p-4 no-print">
+              <div>
+                <p className="font-semibold">
+                  Runde {currentSwissRound} af {swissRounds}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {swissFinished
+                    ? 'Alle runder er genereret'
+                    : allResultsEntered
+                      ? 'Næste runde parres ud fra stillingen'
+                      : 'Indtast alle resultater for at generere næste runde'}
+                </p>
+              </div>
+              <Button
+                onClick={onGenerateNextRound}
+                disabled={swissFinished || !allResultsEntered}
+                className="gap-2 min-h-11"
+              >
+                <ArrowsClockwise size={18} /> Generér næste runde
+              </Button>
+            </div>
+          )}
+
+          {onWithdrawTeam && (
+            <div className="rounded-lg border p-4 no-print space-y-3">
+              <div>
+                <p className="font-semibold">Træk et hold</p>
+                <p className="text-sm text-muted-foreground">
+                  Holdets kampe, der ikke er gået i gang, fjernes og tæller som 3-0 til modstanderen
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <Select value={withdrawTeamId} onValueChange={setWithdrawTeamId}>
+                  <SelectTrigger className="min-h-11 sm:w-64" aria-label="Hold der trækkes">
+                    <SelectValue placeholder="Vælg hold" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeTeams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="closeGaps"
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={closeGaps}
+                    onChange={e => setCloseGaps(e.target.checked)}
+                  />
+                  <Label htmlFor="closeGaps" className="cursor-pointer">
+                    Ryk senere kampe frem i de ledige tider
+                  </Label>
+                </div>
+                <Button
+                  variant="outline"
+                  className="gap-2 min-h-11"
+                  disabled={!withdrawTeamId}
+                  onClick={() => {
+                    onWithdrawTeam(withdrawTeamId, closeGaps)
+                    setWithdrawTeamId('')
+                  }}
+                >
+                  <UserMinus size={18} /> Træk hold
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {onDelay && upcomingSlots.length > 0 && (
+            <div className="rounded-lg border p-4 no-print space-y-3">
+              <div>
+                <p className="font-semibold">Forsinkelse</p>
+                <p className="text-sm text-muted-foreground">
+                  Ryk alle senere kampe, når programmet er bagud. De planlagte tider vises
+                  overstreget
+                </p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:items-end">
+                <div className="space-y-1">
+                  <Label>Fra kampstart</Label>
+                  <Select value={delayFrom} onValueChange={setDelayFrom}>
+                    <SelectTrigger className="min-h-11" aria-label="Fra kampstart">
+                      <SelectValue placeholder="Vælg tidspunkt" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {upcomingSlots.map(timeKey => (
+                        <SelectItem key={timeKey} value={timeKey}>
+                          {isMultiDay && `${formatDate(new Date(timeKey))} `}
+                          {formatTime(new Date(timeKey))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="delayMinutes">Minutter bagud</Label>
+                  <Input
+                    id="delayMinutes"
+                    type="number"
+                    min="1"
+                    value={delayMinutes}
+                    onChange={e => setDelayMinutes(e.target.value)}
+                    className="min-h-11"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="minBreak">Korteste pause mellem kampe (min)</Label>
+                  <Input
+                    id="minBreak"
+                    type="number"
+                    min="0"
+                    max={settings.breakBetweenMatches}
+                    value={minBreak}
+                    onChange={e => setMinBreak(e.target.value)}
+                    className="min-h-11"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  className="gap-2 min-h-11"
+                  disabled={!delayFrom || !(Number(delayMinutes) > 0)}
+                  onClick={() => {
+                    onDelay(
+                      new Date(delayFrom),
+                      Math.floor(Number(delayMinutes)),
+                      Math.max(0, Math.floor(Number(minBreak) || 0))
+                    )
+                    setDelayMinutes('')
+                  }}
+                >
+                  <Clock size={18} /> Ryk programmet
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Med en kortere pause end de planlagte {settings.breakBetweenMatches} min indhentes
+                forsinkelsen gradvist
+              </p>
+            </div>
+          )}
+
           <Tabs defaultValue="program" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 no-print h-12">
+            <TabsList className="grid w-full grid-cols-3 no-print h-12">
               <TabsTrigger value="program" className="text-sm sm:text-base">
                 Programvisning
               </TabsTrigger>
               <TabsTrigger value="team" className="text-sm sm:text-base">
                 Holdvisning
               </TabsTrigger>
+              <TabsTrigger value="fairness" className="text-sm sm:text-base">
+                Fordeling
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="program" className="space-y-4">
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 no-print">
+              <div className={`grid grid-cols-1 gap-3 no-print ${filterColumns}`}>
                 <div className="relative">
                   <MagnifyingGlass
                     size={18}
@@ -471,11 +991,52 @@ export function Step4Schedule({
                     {pitches.map(pitch => (
                       <SelectItem key={pitch} value={pitch.toString()}>
                         {getPitchName(pitch, settings)}
+                        {getPitchSpan(pitch) && (
+                          <span className="text-muted-foreground"> ({getPitchSpan(pitch)})</span>
+                        )}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
 
+                {hasDivisions && (
+                  <Select
+                    value={selectedDivision}
+                    onValueChange={value => {
+                      setSelectedDivision(value)
+                      setSelectedTeam('all')
+                    }}
+                  >
+                    <SelectTrigger className="min-h-12" aria-label="Række">
+                      <SelectValue placeholder="Alle rækker" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Alle rækker</SelectItem>
+                      {divisions.map(division => (
+                        <SelectItem key={division} value={division}>
+                          {division}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {hasReferees && (
+                  <Select value={selectedReferee} onValueChange={setSelectedReferee}>
+                    <SelectTrigger className="min-h-12" aria-label="Dommer">
+                      <SelectValue placeholder="Alle dommere" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Alle dommere</SelectItem>
+                      {referees.map(referee => (
+                        <SelectItem key={referee.id} value={referee.id}>
+                          {referee.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <Select value={selectedTeam} onValueChange={setSelectedTeam}>
                   <SelectTrigger className="min-h-12">
                     <SelectValue placeholder="Alle hold" />
@@ -483,7 +1044,12 @@ export function Step4Schedule({
                   <SelectContent>
                     <SelectItem value="all">Alle hold</SelectItem>
                     {teams
-                      .filter(t => t.id !== 'BYE')
+                      .filter(
+                        t =>
+                          t.id !== 'BYE' &&
+                          (selectedDivision === 'all' ||
+                            teamDivisions.get(t.id) === selectedDivision)
+                      )
                       .map(team => (
                         <SelectItem key={team.id} value={team.id}>
                           {team.name}
@@ -493,91 +1059,182 @@ export function Step4Schedule({
                 </Select>
               </div>
 
-              <div className="rounded-lg border overflow-hidden">
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead className="bg-muted">
-                      <tr>
-                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
-                          Tidspunkt
-                        </th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
-                          Bane
-                        </th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
-                          Hjemme
-                        </th>
-                        <th className="px-4 py-3 text-center text-xs font-semibold uppercase tracking-wider">
-                          mod
-                        </th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
-                          Ude
-                        </th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
-                          Sluttid
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-border">
-                      {matchesByTime.map(([timeKey, matches]) => {
-                        const byesAtTime = byesByTimeKey.get(timeKey) || []
-                        const rowCount = matches.length + (byesAtTime.length > 0 ? 1 : 0)
-                        return matches
-                          .map((match, idx) => (
-                            <tr
-                              key={match.id}
-                              className={`transition-colors ${
-                                isConflict(match)
-                                  ? 'bg-destructive/10 hover:bg-destructive/20'
-                                  : 'hover:bg-muted/50'
-                              }`}
-                            >
-                              {idx === 0 ? (
-                                <td
-                                  rowSpan={rowCount}
-                                  className="px-4 py-3 font-semibold align-top border-r"
-                                >
-                                  {formatTime(match.startTime)}
-                                </td>
-                              ) : null}
-                              <td className="px-4 py-3">
-                                <Badge variant="outline">
-                                  {getPitchName(match.pitch, settings)}
-                                </Badge>
-                              </td>
-                              <td className="px-4 py-3 font-medium">{match.homeTeam.name}</td>
-                              <td className="px-4 py-3 text-center text-muted-foreground">mod</td>
-                              <td className="px-4 py-3 font-medium">{match.awayTeam.name}</td>
-                              <td className="px-4 py-3 text-muted-foreground">
-                                {formatTime(match.endTime)}
-                              </td>
-                            </tr>
-                          ))
-                          .concat(
-                            byesAtTime.length > 0
+              {scheduleSections.map((section, sectionIdx) => (
+                <div key={section.title || 'all'} className="space-y-2">
+                  {section.title && (
+                    <h3
+                      className="text-lg font-semibold"
+                      style={{ fontFamily: 'var(--font-heading)' }}
+                    >
+                      {section.title}
+                    </h3>
+                  )}
+                  <div className="rounded-lg border overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-muted">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                              Tidspunkt
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                              Bane
+                            </th>
+                            {hasDivisions && (
+                              <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                                Række
+                              </th>
+                            )}
+                            <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                              Hjemme
+                            </th>
+                            <th className="px-4 py-3 text-center text-xs font-semibold uppercase tracking-wider">
+                              mod
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                              Ude
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                              Sluttid
+                            </th>
+                            {hasReferees && (
+                              <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                                Dommer
+                              </th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                          {section.entries.map(([timeKey, matches], entryIdx) => {
+                            const byesAtTime = byesByTimeKey.get(timeKey) || []
+                            const freePitches = getFreePitches(timeKey)
+                            const rowCount =
+                              matches.length + freePitches.length + (byesAtTime.length > 0 ? 1 : 0)
+                            const dayHeader = startsNewDay(section.entries, entryIdx)
                               ? [
-                                  <tr key={`bye-${timeKey}`} className="bg-muted/30">
-                                    <td
-                                      colSpan={5}
-                                      className="px-4 py-2 text-sm text-muted-foreground italic"
-                                    >
-                                      Oversidder: {byesAtTime.map(b => b.team.name).join(', ')}
+                                  <tr key={`day-${timeKey}`} className="bg-muted">
+                                    <td colSpan={columnCount} className="px-4 py-2 font-semibold">
+                                      {formatDate(new Date(timeKey))}
                                     </td>
                                   </tr>,
                                 ]
                               : []
-                          )
-                      })}
-                    </tbody>
-                  </table>
-                </div>
+                            return dayHeader
+                              .concat((breaksByTimeKey.get(timeKey) || []).map(renderBreakRow))
+                              .concat(
+                                matches.map((match, idx) => (
+                                  <tr
+                                    key={match.id}
+                                    className={`transition-colors ${
+                                      isConflict(match)
+                                        ? 'bg-destructive/10 hover:bg-destructive/20'
+                                        : 'hover:bg-muted/50'
+                                    } ${onMoveMatch ? 'cursor-move' : ''} ${
+                                      draggedMatchId === match.id ? 'opacity-50' : ''
+                                    }`}
+                                    draggable={!!onMoveMatch}
+                                    onDragStart={() => setDraggedMatchId(match.id)}
+                                    onDragEnd={() => setDraggedMatchId(null)}
+                                    {...dropTargetProps({
+                                      startTime: match.startTime,
+                                      pitch: match.pitch,
+                                    })}
+                                  >
+                                    {idx === 0 ? (
+                                      <td
+                                        rowSpan={rowCount}
+                                        className="px-4 py-3 font-semibold align-top border-r"
+                                      >
+                                        {formatTime(match.startTime)}
+                                        {match.plannedStartTime && (
+                                          <div
+                                            className="text-xs font-normal text-muted-foreground line-through"
+                                            title="Planlagt tidspunkt"
+                                          >
+                                            {formatTime(match.plannedStartTime)}
+                                          </div>
+                                        )}
+                                      </td>
+                                    ) : null}
+                                    <td className="px-4 py-3">
+                                      <Badge variant="outline">
+                                        {getPitchName(match.pitch, settings)}
+                                      </Badge>
+                                      {getMatchLabel(match) && (
+                                        <div className="text-xs text-muted-foreground mt-1">
+                                          {getMatchLabel(match)}
+                                        </div>
+                                      )}
+                                      {movedMatchIds.has(match.id) && (
+                                        <Badge variant="secondary" className="ml-1">
+                                          Rykket frem
+                                        </Badge>
+                                      )}
+                                    </td>
+                                    {hasDivisions && (
+                                      <td className="px-4 py-3">
+                                        <Badge variant="secondary">{match.division}</Badge>
+                                      </td>
+                                    )}
+                                    <td className="px-4 py-3 font-medium">{match.homeTeam.name}</td>
+                                    <td className="px-4 py-3 text-center text-muted-foreground">
+                                      mod
+                                    </td>
+                                    <td className="px-4 py-3 font-medium">{match.awayTeam.name}</td>
+                                    <td className="px-4 py-3 text-muted-foreground">
+                                      {formatTime(match.endTime)}
+                                    </td>
+                                    {hasReferees && (
+                                      <td className="px-4 py-3">{match.referee?.name}</td>
+                                    )}
+                                  </tr>
+                                ))
+                              )
+                              .concat(
+                                freePitches.map(pitch => (
+                                  <tr
+                                    key={`free-${timeKey}-${pitch}`}
+                                    className="bg-primary/5"
+                                    {...dropTargetProps({ startTime: new Date(timeKey), pitch })}
+                                  >
+                                    <td
+                                      colSpan={columnCount - 1}
+                                      className="px-4 py-2 text-sm text-primary border-2 border-dashed border-primary/40"
+                                    >
+                                      Flyt hertil: {getPitchName(pitch, settings)}
+                                    </td>
+                                  </tr>
+                                ))
+                              )
+                              .concat(
+                                byesAtTime.length > 0
+                                  ? [
+                                      <tr key={`bye-${timeKey}`} className="bg-muted/30">
+                                        <td
+                                          colSpan={columnCount - 1}
+                                          className="px-4 py-2 text-sm text-muted-foreground italic"
+                                        >
+                                          Oversidder: {byesAtTime.map(b => b.team.name).join(', ')}
+                                        </td>
+                                      </tr>,
+                                    ]
+                                  : []
+                              )
+                          })}
+                          {sectionIdx === scheduleSections.length - 1 &&
+                            trailingBreaks.map(renderBreakRow)}
+                        </tbody>
+                      </table>
+                    </div>
 
-                {filteredMatches.length === 0 && (
-                  <div className="p-8 text-center text-muted-foreground">
-                    Ingen kampe fundet der matcher dine filtre
+                    {filteredMatches.length === 0 && (
+                      <div className="p-8 text-center text-muted-foreground">
+                        Ingen kampe fundet der matcher dine filtre
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
+                </div>
+              ))}
             </TabsContent>
 
             <TabsContent value="team" className="space-y-4">
@@ -610,6 +1267,7 @@ export function Step4Schedule({
                     </h3>
                     <p className="text-sm opacity-90 mt-1">
                       {teamMatches.length} kamp{teamMatches.length !== 1 ? 'e' : ''} planlagt
+                      {` • ${teamHomeCount} hjemme / ${teamMatches.length - teamHomeCount} ude`}
                       {teamByes.length > 0 &&
                         ` • ${teamByes.length} runde${teamByes.length !== 1 ? 'r' : ''} som oversidder`}
                     </p>
@@ -634,6 +1292,11 @@ export function Step4Schedule({
                                 <div className="text-sm text-muted-foreground">
                                   {formatDate(match.startTime)}
                                 </div>
+                                {match.referee && (
+                                  <div className="text-sm text-muted-foreground">
+                                    Dommer: {match.referee.name}
+                                  </div>
+                                )}
                               </div>
                             </div>
                             <div className="text-right">
@@ -650,6 +1313,91 @@ export function Step4Schedule({
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="fairness" className="space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Pause er tiden fra en kamp slutter til holdets næste kamp starter. Den længste
+                  pause i turneringen er markeret
+                </p>
+                <Button
+                  onClick={handleDownloadFairnessCSV}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2 min-h-11 text-xs sm:text-sm shrink-0"
+                >
+                  <Download size={18} /> Fordeling som CSV
+                </Button>
+              </div>
+              <div className="rounded-lg border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm" aria-label="Fordeling pr. hold">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-semibold uppercase">
+                          Hold
+                        </th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">Kampe</th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">Hjemme/ude</th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">Oversidder</th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">
+                          Korteste pause
+                        </th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">
+                          Længste pause
+                        </th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">Første kamp</th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold">Sidste kamp</th>
+                        {pitches.map(pitch => (
+                          <th key={pitch} className="px-3 py-2 text-center text-xs font-semibold">
+                            {getPitchName(pitch, settings)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {fairness.map(row => (
+                        <tr key={row.team.id}>
+                          <td className="px-3 py-2 font-medium">{row.team.name}</td>
+                          <td className="px-3 py-2 text-center">{row.matches}</td>
+                          <td className="px-3 py-2 text-center">
+                            {row.home}/{row.away}
+                          </td>
+                          <td className="px-3 py-2 text-center">{row.byes}</td>
+                          <td className="px-3 py-2 text-center">
+                            {row.shortestRestMinutes !== undefined
+                              ? `${row.shortestRestMinutes} min`
+                              : '–'}
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-center ${
+                              longestRest > 0 && row.longestRestMinutes === longestRest
+                                ? 'font-semibold text-destructive'
+                                : ''
+                            }`}
+                          >
+                            {row.longestRestMinutes !== undefined
+                              ? `${row.longestRestMinutes} min`
+                              : '–'}
+                          </td>
+                          <td className="px-3 py-2 text-center">
+                            {row.firstMatch ? formatTime(row.firstMatch) : '–'}
+                          </td>
+                          <td className="px-3 py-2 text-center">
+                            {row.lastMatch ? formatTime(row.lastMatch) : '–'}
+                          </td>
+                          {pitches.map(pitch => (
+                            <td key={pitch} className="px-3 py-2 text-center">
+                              {row.pitchCounts[pitch - 1] ?? 0}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </TabsContent>
           </Tabs>
 
           {/* Mobile-friendly sticky bottom navigation */}
@@ -662,13 +1410,21 @@ export function Step4Schedule({
             >
               <ArrowLeft size={20} /> Tilbage
             </Button>
-            <Button
-              onClick={onSave}
-              size="lg"
-              className="gap-2 w-full sm:w-auto order-1 sm:order-2 min-h-12"
-            >
-              <Check size={20} /> Gem Turnering
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-3 order-1 sm:order-2">
+              {onResults && (
+                <Button
+                  onClick={onResults}
+                  variant="secondary"
+                  size="lg"
+                  className="gap-2 w-full sm:w-auto min-h-12"
+                >
+                  <Trophy size={20} /> Resultater
+                </Button>
+              )}
+              <Button onClick={onSave} size="lg" className="gap-2 w-full sm:w-auto min-h-12">
+                <Check size={20} /> Gem Turnering
+              </Button>
+            </div>
           </div>
         </div>
       </CardContent>
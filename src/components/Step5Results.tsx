@@ -0,0 +1,246 @@
+import { useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { GeneratedSchedule, Match, Team, TournamentSettings } from '@/lib/types'
+import { ArrowLeft, Check } from '@phosphor-icons/react'
+import { getGroupName, getMatchLabel, getPitchName } from '@/lib/scheduler'
+import { computeStandings, getResultMatches, type StandingRow } from '@/lib/standings'
+
+interface Step5Props {
+  schedule: GeneratedSchedule
+  teams: Team[]
+  settings: TournamentSettings
+  onResultChange: (
+    matchId: string,
+    homeScore: number | undefined,
+    awayScore: number | undefined
+  ) => void
+  onBack: () => void
+  onSave: () => void
+}
+
+interface StandingsTable {
+  title?: string
+  rows: StandingRow[]
+}
+
+export function Step5Results({
+  schedule,
+  teams,
+  settings,
+  onResultChange,
+  onBack,
+  onSave,
+}: Step5Props) {
+  const sortedMatches = useMemo(
+    () => [...schedule.matches].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()),
+    [schedule.matches]
+  )
+
+  const playedCount = schedule.matches.filter(m => m.played).length
+  const withdrawnIds = new Set((schedule.withdrawals || []).map(w => w.team.id))
+
+  // Group-stage tournaments get one table per group; the knockout bracket has
+  // no table since its participants are placeholders until the groups finish.
+  // Divisions never share a table
+  const standingsTables = useMemo((): StandingsTable[] => {
+    const resultMatches = getResultMatches(schedule)
+    const divisions = Array.from(new Set(resultMatches.map(m => m.division)))
+    if (divisions.length === 0) divisions.push(undefined)
+    return divisions.flatMap(division => {
+      const divisionMatches = resultMatches.filter(m => m.division === division)
+      const divisionTeamIds = new Set(divisionMatches.flatMap(m => [m.homeTeam.id, m.awayTeam.id]))
+      const divisionTeams = division ? teams.filter(t => divisionTeamIds.has(t.id)) : teams
+      const groupMatches = divisionMatches.filter(m => m.stage === 'group')
+      if (groupMatches.length === 0) {
+        return [{ title: division, rows: computeStandings(divisionMatches, divisionTeams) }]
+      }
+
+      const groups = Array.from(new Set(groupMatches.map(m => m.group ?? 0))).sort((a, b) => a - b)
+      return groups.map(group => {
+        const matchesInGroup = groupMatches.filter(m => (m.group ?? 0) === group)
+        const teamIds = new Set(matchesInGroup.flatMap(m => [m.homeTeam.id, m.awayTeam.id]))
+        return {
+          title: division ? `${division} · ${getGroupName(group)}` : getGroupName(group),
+          rows: computeStandings(
+            matchesInGroup,
+            teams.filter(t => teamIds.has(t.id))
+          ),
+        }
+      })
+    })
+  }, [schedule, teams])
+
+  const handleScoreChange = (match: Match, side: 'home' | 'away', value: string) => {
+    const score = value === '' ? undefined : Math.max(0, Math.floor(Number(value)))
+    if (side === 'home') {
+      onResultChange(match.id, score, match.awayScore)
+    } else {
+      onResultChange(match.id, match.homeScore, score)
+    }
+  }
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl" style={{ fontFamily: 'var(--font-heading)' }}>
+          Resultater
+        </CardTitle>
+        <CardDescription>
+          {playedCount} af {schedule.matches.length} kampe spillet
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="rounded-lg border divide-y divide-border">
+            {sortedMatches.map(match => {
+              const label = getMatchLabel(match)
+              return (
+                <div
+                  key={match.id}
+                  className={`flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 p-3 ${
+                    match.played ? 'bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2 sm:w-48 shrink-0">
+                    <span className="font-semibold">{formatTime(match.startTime)}</span>
+                    <Badge variant="outline">{getPitchName(match.pitch, settings)}</Badge>
+                    {match.division && <Badge variant="secondary">{match.division}</Badge>}
+                    {label && <span className="text-xs text-muted-foreground">{label}</span>}
+                  </div>
+                  <div className="flex flex-1 items-center gap-2">
+                    <span className="flex-1 text-right font-medium">{match.homeTeam.name}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      aria-label={`Mål til ${match.homeTeam.name} mod ${match.awayTeam.name}`}
+                      value={match.homeScore ?? ''}
+                      onChange={e => handleScoreChange(match, 'home', e.target.value)}
+                      className="w-16 text-center"
+                    />
+                    <span className="text-muted-foreground">-</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      aria-label={`Mål til ${match.awayTeam.name} mod ${match.homeTeam.name}`}
+                      value={match.awayScore ?? ''}
+                      onChange={e => handleScoreChange(match, 'away', e.target.value)}
+                      className="w-16 text-center"
+                    />
+                    <span className="flex-1 font-medium">{match.awayTeam.name}</span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold" style={{ fontFamily: 'var(--font-heading)' }}>
+              Stilling
+            </h3>
+            {standingsTables.map(table => (
+              <div key={table.title || 'all'} className="space-y-2">
+                {table.title && <h4 className="font-semibold">{table.title}</h4>}
+                <div className="rounded-lg border overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-semibold uppercase">#</th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold uppercase">
+                            Hold
+                          </th>
+                          <th className="px-3 py-2 text-center text-xs font-semibold" title="Kampe">
+                            K
+                          </th>
+                          <th
+                            className="px-3 py-2 text-center text-xs font-semibold"
+                            title="Vundet"
+                          >
+                            V
+                          </th>
+                          <th
+                            className="px-3 py-2 text-center text-xs font-semibold"
+                            title="Uafgjort"
+                          >
+                            U
+                          </th>
+                          <th className="px-3 py-2 text-center text-xs font-semibold" title="Tabt">
+                            T
+                          </th>
+                          <th className="px-3 py-2 text-center text-xs font-semibold">Mål</th>
+                          <th
+                            className="px-3 py-2 text-center text-xs font-semibold"
+                            title="Målforskel"
+                          >
+                            +/-
+                          </th>
+                          <th className="px-3 py-2 text-center text-xs font-semibold" title="Point">
+                            P
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {table.rows.map((row, idx) => (
+                          <tr key={row.team.id}>
+                            <td className="px-3 py-2 text-muted-foreground">{idx + 1}</td>
+                            <td className="px-3 py-2 font-medium">
+                              {row.team.name}
+                              {withdrawnIds.has(row.team.id) && (
+                                <span className="ml-1 text-xs font-normal text-muted-foreground">
+                                  (trukket)
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-center">{row.played}</td>
+                            <td className="px-3 py-2 text-center">{row.won}</td>
+                            <td className="px-3 py-2 text-center">{row.drawn}</td>
+                            <td className="px-3 py-2 text-center">{row.lost}</td>
+                            <td className="px-3 py-2 text-center">
+                              {row.goalsFor}-{row.goalsAgainst}
+                            </td>
+                            <td className="px-3 py-2 text-center">
+                              {row.goalDifference > 0
+                                ? `+${row.goalDifference}`
+                                : row.goalDifference}
+                            </td>
+                            <td className="px-3 py-2 text-center font-bold">{row.points}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Mobile-friendly sticky bottom navigation */}
+          <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-4 sticky bottom-0 bg-card pb-2 -mx-6 px-6 border-t sm:border-t-0 sm:static sm:bg-transparent sm:pb-0">
+            <Button
+              onClick={onBack}
+              variant="outline"
+              size="lg"
+              className="gap-2 w-full sm:w-auto order-2 sm:order-1 min-h-12"
+            >
+              <ArrowLeft size={20} /> Tilbage
+            </Button>
+            <Button
+              onClick={onSave}
+              size="lg"
+              className="gap-2 w-full sm:w-auto order-1 sm:order-2 min-h-12"
+            >
+              <Check size={20} /> Gem Turnering
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
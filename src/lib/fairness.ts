@@ -0,0 +1,112 @@
+import { escapeCsvField, getPitchName } from './scheduler'
+import type { GeneratedSchedule, Team, TournamentSettings } from './types'
+
+export interface TeamFairness {
+  team: Team
+  matches: number
+  byes: number
+  shortestRestMinutes?: number
+  longestRestMinutes?: number
+  firstMatch?: Date
+  lastMatch?: Date
+  /** Matches per pitch, indexed by pitch number - 1. */
+  pitchCounts: number[]
+  home: number
+  away: number
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Per-team numbers parents ask about: how often and where a team plays, how
+ * long it waits between matches, and how early and late its day is. Rest is
+ * the time from the end of one match to the kick-off of the next. Matches of
+ * teams outside the list (knockout placeholders) are ignored.
+ */
+export function computeFairnessReport(schedule: GeneratedSchedule, teams: Team[]): TeamFairness[] {
+  const numPitches = Math.max(0, ...schedule.matches.map(m => m.pitch))
+
+  return teams
+    .filter(team => team.id !== 'BYE')
+    .map(team => {
+      const matches = schedule.matches
+        .filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      const rests = matches
+        .slice(1)
+        .map((m, i) => (m.startTime.getTime() - matches[i].endTime.getTime()) / 60000)
+      const pitchCounts = Array.from(
+        { length: numPitches },
+        (_, i) => matches.filter(m => m.pitch === i + 1).length
+      )
+
+      return {
+        team,
+        matches: matches.length,
+        byes: (schedule.byes || []).filter(bye => bye.team.id === team.id).length,
+        shortestRestMinutes: rests.length > 0 ? Math.min(...rests) : undefined,
+        longestRestMinutes: rests.length > 0 ? Math.max(...rests) : undefined,
+        firstMatch: matches[0]?.startTime,
+        lastMatch: matches[matches.length - 1]?.startTime,
+        pitchCounts,
+        home: matches.filter(m => m.homeTeam.id === team.id).length,
+        away: matches.filter(m => m.awayTeam.id === team.id).length,
+      }
+    })
+}
+
+export function exportFairnessToCSV(report: TeamFairness[], settings: TournamentSettings): string {
+  const numPitches = Math.max(0, ...report.map(row => row.pitchCounts.length))
+  const headers = [
+    'Team',
+    'Matches',
+    'Byes',
+    'Shortest Rest (min)',
+    'Longest Rest (min)',
+    'First Match',
+    'Last Match',
+    'Home',
+    'Away',
+    ...Array.from({ length: numPitches }, (_, i) => getPitchName(i + 1, settings)),
+  ]
+  const rows = report.map(row => [
+    row.team.name,
+    String(row.matches),
+    String(row.byes),
+    row.shortestRestMinutes?.toString() ?? '',
+    row.longestRestMinutes?.toString() ?? '',
+    row.firstMatch ? formatTime(row.firstMatch) : '',
+    row.lastMatch ? formatTime(row.lastMatch) : '',
+    String(row.home),
+    String(row.away),
+    ...Array.from({ length: numPitches }, (_, i) => String(row.pitchCounts[i] ?? 0)),
+  ])
+
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+}
+
+export function exportFairnessToText(report: TeamFairness[], settings: TournamentSettings): string {
+  let text = 'TEAM OVERVIEW\n'
+  text += '='.repeat(60) + '\n\n'
+
+  for (const row of report) {
+    text += `${row.team.name}\n`
+    text += `  Matches: ${row.matches} (home ${row.home}, away ${row.away})\n`
+    if (row.byes > 0) text += `  Byes: ${row.byes}\n`
+    if (row.shortestRestMinutes !== undefined && row.longestRestMinutes !== undefined) {
+      text += `  Rest: ${row.shortestRestMinutes}-${row.longestRestMinutes} min\n`
+    }
+    if (row.firstMatch && row.lastMatch) {
+      text += `  First/last match: ${formatTime(row.firstMatch)} / ${formatTime(row.lastMatch)}\n`
+    }
+    const pitches = row.pitchCounts
+      .map((count, i) => (count > 0 ? `${getPitchName(i + 1, settings)}: ${count}` : ''))
+      .filter(Boolean)
+    if (pitches.length > 0) text += `  Pitches: ${pitches.join(', ')}\n`
+    text += '\n'
+  }
+
+  return text
+}
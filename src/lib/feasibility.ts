@@ -0,0 +1,119 @@
+import type { SchedulingConfig, Team } from './types'
+
+export type FeasibilityIssueKey =
+  'no-opponents' | 'few-opponents' | 'shared-opponents' | 'required-cap' | 'total-cap' | 'odd-total'
+
+export interface FeasibilityIssue {
+  key: FeasibilityIssueKey
+  message: string
+  /** Teams the issue is about; empty when it concerns the whole tournament. */
+  teamIds: string[]
+}
+
+function listNames(teams: Team[]): string {
+  const names = teams.map(team => team.name)
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} og ${names[names.length - 1]}`
+    : names[0]
+}
+
+/**
+ * Checks a limited-matches config against the team list before generating,
+ * explaining why teams cannot reach the target number of matches:
+ *
+ * - a team with every opponent excluded gets no matches at all
+ * - a team whose exclusions leave fewer allowed opponents than the target
+ *   has to meet some of them more than once
+ * - teams that may only play a smaller set of shared opponents (typically
+ *   teams from the same club excluded from each other) need more matches
+ *   than those opponents can play
+ * - a team with more required matchups than matches cannot play them all
+ * - a total cap below what the teams need leaves some teams short
+ * - an odd number of team matches leaves one team a match short
+ */
+export function analyzeFeasibility(teams: Team[], config: SchedulingConfig): FeasibilityIssue[] {
+  if (config.mode !== 'limited-matches' || teams.length < 2) return []
+
+  const target = config.maxMatchesPerTeam || 3
+  const excluded = new Set((config.excludedMatchups || []).map(([a, b]) => [a, b].sort().join('-')))
+  const allowed = new Map(
+    teams.map(team => [
+      team.id,
+      teams.filter(t => t.id !== team.id && !excluded.has([team.id, t.id].sort().join('-'))),
+    ])
+  )
+  const issues: FeasibilityIssue[] = []
+
+  for (const team of teams) {
+    const opponents = allowed.get(team.id)!
+    if (opponents.length === 0) {
+      issues.push({
+        key: 'no-opponents',
+        message: `${team.name} har ingen tilladte modstandere og får ingen kampe`,
+        teamIds: [team.id],
+      })
+    } else if (opponents.length < target && opponents.length < teams.length - 1) {
+      issues.push({
+        key: 'few-opponents',
+        message: `${team.name} har kun ${opponents.length} tilladte ${opponents.length === 1 ? 'modstander' : 'modstandere'} (${listNames(opponents)}) og må møde ${opponents.length === 1 ? 'den' : 'nogle af dem'} flere gange for at nå ${target} kampe`,
+        teamIds: [team.id],
+      })
+    }
+  }
+
+  // Teams outside an opponent set whose allowed opponents all lie inside it
+  // can only play each other's opponents; they need more matches than the
+  // set can give when they outnumber it
+  const checkedSets = new Set<string>()
+  for (const team of teams) {
+    const opponents = allowed.get(team.id)!
+    const key = opponents.map(t => t.id).join(',')
+    if (opponents.length === 0 || checkedSets.has(key)) continue
+    checkedSets.add(key)
+
+    const inSet = new Set(opponents.map(t => t.id))
+    const sharing = teams.filter(
+      t =>
+        !inSet.has(t.id) &&
+        allowed.get(t.id)!.length > 0 &&
+        allowed.get(t.id)!.every(opponent => inSet.has(opponent.id))
+    )
+    if (sharing.length > opponents.length) {
+      issues.push({
+        key: 'shared-opponents',
+        message: `${listNames(sharing)} må kun spille mod ${listNames(opponents)}, så de kan ikke alle nå ${target} kampe`,
+        teamIds: sharing.map(t => t.id),
+      })
+    }
+  }
+
+  for (const team of teams) {
+    const required = (config.requiredMatchups || []).filter(pair => pair.includes(team.id))
+    if (required.length <= target) continue
+    const opponents = teams.filter(t =>
+      required.some(pair => t.id !== team.id && pair.includes(t.id))
+    )
+    issues.push({
+      key: 'required-cap',
+      message: `${team.name} skal møde ${listNames(opponents)}, men spiller kun ${target} ${target === 1 ? 'kamp' : 'kampe'}`,
+      teamIds: [team.id],
+    })
+  }
+
+  const needed = Math.ceil((teams.length * target) / 2)
+  if (config.maxTotalMatches && config.maxTotalMatches < needed) {
+    issues.push({
+      key: 'total-cap',
+      message: `Maks ${config.maxTotalMatches} kampe i alt er for få til at alle ${teams.length} hold kan spille ${target} kampe; det kræver ${needed} kampe`,
+      teamIds: [],
+    })
+  } else if ((teams.length * target) % 2 === 1) {
+    issues.push({
+      key: 'odd-total',
+      message: `${teams.length} hold med ${target} kampe hver giver et ulige antal holdkampe, så ét hold får en kamp mindre`,
+      teamIds: [],
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,127 @@
+import type { GeneratedSchedule, Match, Team } from './types'
+
+export type QualityComponentKey =
+  'consecutive-matches' | 'consecutive-byes' | 'rest-variance' | 'first-last-slot' | 'pitch-balance'
+
+export interface QualityComponent {
+  key: QualityComponentKey
+  label: string
+  detail: string
+  penalty: number
+}
+
+export interface ScheduleQuality {
+  score: number
+  components: QualityComponent[]
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)
+}
+
+function playsIn(match: Match, team: Team): boolean {
+  return match.homeTeam.id === team.id || match.awayTeam.id === team.id
+}
+
+/**
+ * Scores a schedule from 100 down, one penalty per component. Slots are the
+ * distinct kick-off times of each division, so divisions sharing pitches are
+ * judged on their own rounds. Penalties for things that happen to single
+ * teams are scaled by the number of teams, so small and large tournaments
+ * land on the same scale:
+ *
+ * - consecutive matches: 10 points per occurrence per team
+ * - consecutive byes: 10 points per extra idle slot between two matches per team
+ * - rest variance: half a point per minute of average rest spread
+ * - first/last slot: 5 points per difference between the teams playing the
+ *   opening and closing slots the most and the least
+ * - pitch balance: 20 points times the share of teams playing one pitch at
+ *   least two matches more than another
+ *
+ * Matches of teams outside the list (knockout placeholders) are ignored.
+ */
+export function scoreSchedule(schedule: GeneratedSchedule, teams: Team[]): ScheduleQuality {
+  let scoredTeams = 0
+  let consecutiveMatches = 0
+  let consecutiveByes = 0
+  let skewedTeams = 0
+  const restSpreads: number[] = []
+  const edgeSlots: number[] = []
+
+  const divisions = Array.from(new Set(schedule.matches.map(m => m.division)))
+  for (const division of divisions) {
+    const matches = schedule.matches.filter(m => m.division === division)
+    const slotTimes = Array.from(new Set(matches.map(m => m.startTime.getTime()))).sort(
+      (a, b) => a - b
+    )
+    const pitches = Array.from(new Set(matches.map(m => m.pitch)))
+
+    for (const team of teams) {
+      const teamMatches = matches
+        .filter(m => playsIn(m, team))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      if (teamMatches.length === 0) continue
+      scoredTeams++
+
+      const slots = teamMatches.map(m => slotTimes.indexOf(m.startTime.getTime()))
+      for (let i = 1; i < slots.length; i++) {
+        const gap = slots[i] - slots[i - 1]
+        if (gap === 1) consecutiveMatches++
+        if (gap > 2) consecutiveByes += gap - 2
+      }
+      edgeSlots.push(
+        Number(slots[0] === 0) + Number(slots[slots.length - 1] === slotTimes.length - 1)
+      )
+
+      const rests = teamMatches
+        .slice(1)
+        .map((m, i) => (m.startTime.getTime() - teamMatches[i].endTime.getTime()) / 60000)
+      if (rests.length > 1) restSpreads.push(standardDeviation(rests))
+
+      const perPitch = pitches.map(pitch => teamMatches.filter(m => m.pitch === pitch).length)
+      if (Math.max(...perPitch) - Math.min(...perPitch) > 1) skewedTeams++
+    }
+  }
+
+  const perTeam = (count: number) => (scoredTeams > 0 ? count / scoredTeams : 0)
+  const restSpread =
+    restSpreads.length > 0 ? restSpreads.reduce((sum, v) => sum + v, 0) / restSpreads.length : 0
+  const edgeSpread = edgeSlots.length > 0 ? Math.max(...edgeSlots) - Math.min(...edgeSlots) : 0
+
+  const components: QualityComponent[] = [
+    {
+      key: 'consecutive-matches',
+      label: 'Kampe i træk',
+      detail: `${consecutiveMatches} gange`,
+      penalty: 10 * perTeam(consecutiveMatches),
+    },
+    {
+      key: 'consecutive-byes',
+      label: 'Flere runder over i træk',
+      detail: `${consecutiveByes} gange`,
+      penalty: 10 * perTeam(consecutiveByes),
+    },
+    {
+      key: 'rest-variance',
+      label: 'Ujævn hviletid',
+      detail: `±${Math.round(restSpread)} min`,
+      penalty: restSpread / 2,
+    },
+    {
+      key: 'first-last-slot',
+      label: 'Første og sidste runde',
+      detail: `forskel på ${edgeSpread}`,
+      penalty: 5 * edgeSpread,
+    },
+    {
+      key: 'pitch-balance',
+      label: 'Skæv banefordeling',
+      detail: `${skewedTeams} hold`,
+      penalty: 20 * perTeam(skewedTeams),
+    },
+  ]
+
+  const totalPenalty = components.reduce((sum, c) => sum + c.penalty, 0)
+  return { score: Math.max(0, Math.round(100 - totalPenalty)), components }
+}
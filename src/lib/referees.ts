@@ -0,0 +1,134 @@
+import { getActiveTeams, getGroupName } from './scheduler'
+import type { GeneratedSchedule, Match, Referee, RefereePool, Team } from './types'
+
+function overlaps(a: Match, b: Match): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * The teams each knockout placeholder could still turn out to be, keyed by
+ * placeholder id: a group placing such as "1. Pulje A" is any team of that
+ * group, and "Vinder Semifinale 1" or "Taber Semifinale 1" any team that could
+ * play in that match. Placeholders are resolved within their division.
+ */
+function getPossibleTeams(matches: Match[]): Map<string, Set<string>> {
+  const possible = new Map<string, Set<string>>()
+
+  const resolve = (team: Team, division: string | undefined): Set<string> => {
+    if (!team.id.includes('placeholder-')) return new Set([team.id])
+    const known = possible.get(team.id)
+    if (known) return known
+
+    const resolved = new Set<string>()
+    possible.set(team.id, resolved)
+    const inDivision = matches.filter(m => m.division === division)
+    const placing = team.name.match(/^\d+\. (.+)$/)
+    const decider = team.name.match(/^(?:Vinder|Taber) (.+)$/)
+    if (placing) {
+      for (const m of inDivision) {
+        if (m.stage === 'group' && m.group !== undefined && getGroupName(m.group) === placing[1]) {
+          resolved.add(m.homeTeam.id).add(m.awayTeam.id)
+        }
+      }
+    } else if (decider) {
+      const deciding = inDivision.find(m => m.stage === 'knockout' && m.label === decider[1])
+      for (const side of deciding ? [deciding.homeTeam, deciding.awayTeam] : []) {
+        resolve(side, division).forEach(id => resolved.add(id))
+      }
+    }
+    return resolved
+  }
+
+  for (const match of matches) {
+    resolve(match.homeTeam, match.division)
+    resolve(match.awayTeam, match.division)
+  }
+  return possible
+}
+
+/**
+ * Everyone who can referee: the named referees followed by the teams when
+ * teams referee each other.
+ */
+export function getRefereeCandidates(pool: RefereePool | undefined, teams: Team[]): Referee[] {
+  if (!pool) return []
+  const teamReferees = pool.teamsReferee
+    ? teams.map(team => ({ id: team.id, name: team.name, teamId: team.id }))
+    : []
+  return [...pool.referees, ...teamReferees]
+}
+
+/**
+ * Assigns a referee to every match that has none yet, in kick-off order. A
+ * referee is never booked for two overlapping matches, and a team never
+ * referees its own match or one played while it is on the pitch, counting
+ * knockout matches whose placeholders could still turn out to be it. Among the
+ * eligible referees the one with the fewest matches so far is picked, so the
+ * workload stays even. Matches nobody can take keep no referee and are
+ * reported as warnings.
+ */
+export function assignReferees(
+  schedule: GeneratedSchedule,
+  teams: Team[],
+  pool: RefereePool | undefined
+): GeneratedSchedule {
+  // Withdrawn teams no longer referee
+  const candidates = getRefereeCandidates(pool, getActiveTeams(schedule, teams))
+  if (candidates.length === 0) return schedule
+
+  const load = new Map<string, number>(candidates.map(c => [c.id, 0]))
+  const assigned = new Map<string, Match[]>(candidates.map(c => [c.id, []]))
+  for (const match of schedule.matches) {
+    if (!match.referee) continue
+    load.set(match.referee.id, (load.get(match.referee.id) || 0) + 1)
+    assigned.get(match.referee.id)?.push(match)
+  }
+
+  const possibleTeams = getPossibleTeams(schedule.matches)
+  const mayPlay = (teamId: string, match: Match) =>
+    [match.homeTeam, match.awayTeam].some(
+      team => team.id === teamId || possibleTeams.get(team.id)?.has(teamId)
+    )
+
+  const isFree = (referee: Referee, match: Match) => {
+    if (assigned.get(referee.id)?.some(other => overlaps(other, match))) return false
+    if (!referee.teamId) return true
+    return !schedule.matches.some(
+      other => mayPlay(referee.teamId!, other) && (other.id === match.id || overlaps(other, match))
+    )
+  }
+
+  const warnings: string[] = []
+  const refereeById = new Map<string, Referee>()
+  const ordered = [...schedule.matches]
+    .filter(m => !m.referee)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.pitch - b.pitch)
+  for (const match of ordered) {
+    let best: Referee | undefined
+    for (const candidate of candidates) {
+      if (!isFree(candidate, match)) continue
+      if (!best || load.get(candidate.id)! < load.get(best.id)!) best = candidate
+    }
+    if (!best) {
+      warnings.push(
+        `Ingen ledig dommer til ${match.homeTeam.name} mod ${match.awayTeam.name} kl. ${formatTime(match.startTime)}`
+      )
+      continue
+    }
+    load.set(best.id, load.get(best.id)! + 1)
+    assigned.get(best.id)!.push(match)
+    refereeById.set(match.id, best)
+  }
+
+  return {
+    ...schedule,
+    matches: schedule.matches.map(match =>
+      refereeById.has(match.id) ? { ...match, referee: refereeById.get(match.id) } : match
+    ),
+    warnings: [...schedule.warnings, ...warnings.filter(w => !schedule.warnings.includes(w))],
+  }
+}
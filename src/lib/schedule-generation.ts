@@ -0,0 +1,89 @@
+import { generateRequestedSchedule, getOptimizationRuns } from './scheduler'
+import type { GeneratedSchedule, ScheduleRequest } from './types'
+
+export interface ScheduleProgress {
+  done: number
+  total: number
+}
+
+export interface ScheduleGeneration {
+  /** The generated schedule, or null once cancelled. Rejects if generation fails. */
+  result: Promise<GeneratedSchedule | null>
+  cancel: () => void
+}
+
+/** Messages from the schedule worker to the page. */
+export type ScheduleWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; schedule: GeneratedSchedule }
+  | { type: 'error'; message: string }
+
+/** Number of variants a request generates, for the initial progress. */
+export function getRequestRuns(request: ScheduleRequest): number {
+  return request.divisions?.length
+    ? request.divisions.reduce(
+        (sum, division) => sum + getOptimizationRuns(division.schedulingConfig),
+        0
+      )
+    : getOptimizationRuns(request.schedulingConfig)
+}
+
+/**
+ * Generates a schedule in a Web Worker so the page stays responsive while
+ * the scheduler searches, reporting progress per generated variant.
+ * Cancelling terminates the worker outright, which is the only way to stop a
+ * long search. Without Worker support (tests, very old browsers) the request
+ * runs on the main thread instead.
+ */
+export function startScheduleGeneration(
+  request: ScheduleRequest,
+  onProgress?: (progress: ScheduleProgress) => void
+): ScheduleGeneration {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false
+    return {
+      result: Promise.resolve().then(() => {
+        if (cancelled) return null
+        const schedule = generateRequestedSchedule(request, (done, total) =>
+          onProgress?.({ done, total })
+        )
+        return cancelled ? null : schedule
+      }),
+      cancel: () => {
+        cancelled = true
+      },
+    }
+  }
+
+  const worker = new Worker(new URL('./schedule.worker.ts', import.meta.url), { type: 'module' })
+  let settle: (schedule: GeneratedSchedule | null) => void = () => {}
+  const result = new Promise<GeneratedSchedule | null>((resolve, reject) => {
+    settle = resolve
+    worker.onmessage = (event: MessageEvent<ScheduleWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.({ done: message.done, total: message.total })
+        return
+      }
+      worker.terminate()
+      if (message.type === 'result') {
+        resolve(message.schedule)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = () => {
+      worker.terminate()
+      reject(new Error('Kunne ikke generere skema'))
+    }
+  })
+  worker.postMessage(request)
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate()
+      settle(null)
+    },
+  }
+}
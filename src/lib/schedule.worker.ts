@@ -0,0 +1,19 @@
+import { generateRequestedSchedule } from './scheduler'
+import type { ScheduleWorkerMessage } from './schedule-generation'
+import type { ScheduleRequest } from './types'
+
+const post = (message: ScheduleWorkerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<ScheduleRequest>) => {
+  try {
+    const schedule = generateRequestedSchedule(event.data, (done, total) =>
+      post({ type: 'progress', done, total })
+    )
+    post({ type: 'result', schedule })
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Kunne ikke generere skema',
+    })
+  }
+}
@@ -6,7 +6,18 @@ import type {
   GeneratedSchedule,
   ScheduleConflict,
   ByeInfo,
+  ScheduleViolation,
+  AvailabilityWindow,
+  BreakPeriod,
+  Division,
+  PinnedMatch,
+  PitchStrategy,
+  EndTimeCapacity,
+  ScheduleRequest,
+  Withdrawal,
 } from './types'
+import { computeStandings, getResultMatches, recordWalkover } from './standings'
+import { scoreSchedule } from './quality'
 
 const BYE_TEAM: Team = { id: 'BYE', name: 'BYE' }
 
@@ -22,6 +33,8 @@ export function rehydrateSchedule(schedule: GeneratedSchedule): GeneratedSchedul
       ...match,
       startTime: new Date(match.startTime),
       endTime: new Date(match.endTime),
+      plannedStartTime: match.plannedStartTime ? new Date(match.plannedStartTime) : undefined,
+      plannedEndTime: match.plannedEndTime ? new Date(match.plannedEndTime) : undefined,
     })),
     conflicts: schedule.conflicts.map(conflict => ({
       ...conflict,
@@ -35,6 +48,14 @@ export function rehydrateSchedule(schedule: GeneratedSchedule): GeneratedSchedul
       ...bye,
       startTime: bye.startTime ? new Date(bye.startTime) : undefined,
     })),
+    withdrawals: schedule.withdrawals?.map(withdrawal => ({
+      ...withdrawal,
+      walkovers: withdrawal.walkovers.map(match => ({
+        ...match,
+        startTime: new Date(match.startTime),
+        endTime: new Date(match.endTime),
+      })),
+    })),
   }
 }
 
@@ -88,16 +109,90 @@ export function getPitchName(pitchNumber: number, settings: TournamentSettings):
   return `Bane ${pitchNumber}`
 }
 
+/**
+ * Generates the schedule. With `optimizationRuns` above 1, that many seeded
+ * variants are generated from the configured seed onwards and the best one is
+ * kept: fewest conflicts and violations first, then the highest quality
+ * score. Ties keep the earliest variant, so a share link always lands on the
+ * same schedule. onProgress is called after each variant. Limited matches are
+ * capped to what fits before the hard end time unless capToEndTime is off.
+ */
 export function generateSchedule(
   settings: TournamentSettings,
   teams: Team[],
-  config: SchedulingConfig
+  config: SchedulingConfig,
+  onProgress?: (done: number, total: number) => void,
+  capToEndTime = true
+): GeneratedSchedule {
+  const runs = getOptimizationRuns(config)
+  const rank = (schedule: GeneratedSchedule) => ({
+    problems: schedule.conflicts.length + (schedule.violations?.length ?? 0),
+    score: runs > 1 ? scoreSchedule(schedule, teams).score : 0,
+  })
+
+  let best = generateScheduleVariant(settings, teams, config, capToEndTime)
+  let bestRank = rank(best)
+  onProgress?.(1, runs)
+  for (let run = 1; run < runs; run++) {
+    const candidate = generateScheduleVariant(
+      settings,
+      teams,
+      { ...config, seed: (config.seed ?? 0) + run },
+      capToEndTime
+    )
+    const candidateRank = rank(candidate)
+    if (
+      candidateRank.problems < bestRank.problems ||
+      (candidateRank.problems === bestRank.problems && candidateRank.score > bestRank.score)
+    ) {
+      best = candidate
+      bestRank = candidateRank
+    }
+    onProgress?.(run + 1, runs)
+  }
+  return best
+}
+
+/** Generates the schedule for a request, split into divisions or not. */
+export function generateRequestedSchedule(
+  request: ScheduleRequest,
+  onProgress?: (done: number, total: number) => void
+): GeneratedSchedule {
+  return request.divisions?.length
+    ? generateDivisionSchedule(request.settings, request.teams, request.divisions, onProgress)
+    : generateSchedule(request.settings, request.teams, request.schedulingConfig, onProgress)
+}
+
+/** Most variants a config may ask generateSchedule to try. */
+export const MAX_OPTIMIZATION_RUNS = 100
+
+/** Number of variants generateSchedule tries for the config. */
+export function getOptimizationRuns(config: SchedulingConfig): number {
+  return config.mode === 'swiss' ? 1 : Math.max(1, config.optimizationRuns ?? 1)
+}
+
+/**
+ * Seed of the next variant. An optimised config has already tried the seeds
+ * its runs cover, so the next variant starts past them.
+ */
+export function getNextSeed(config: SchedulingConfig): number {
+  return (config.seed ?? 0) + getOptimizationRuns(config)
+}
+
+function generateScheduleVariant(
+  settings: TournamentSettings,
+  teams: Team[],
+  config: SchedulingConfig,
+  capToEndTime: boolean
 ): GeneratedSchedule {
   const warnings: string[] = []
   let matches: Match[]
   let byes: ByeInfo[]
 
-  const workingTeams = [...teams]
+  // A seed deals the teams in a different order, which is all it takes to get
+  // another valid schedule; the same seed always gives the same schedule
+  const orderedTeams = config.seed ? shuffleWithSeed(teams, config.seed) : teams
+  const workingTeams = [...orderedTeams]
 
   if (config.mode === 'round-robin' && teams.length % 2 !== 0) {
     workingTeams.push(BYE_TEAM)
@@ -105,22 +200,53 @@ export function generateSchedule(
   }
 
   if (config.mode === 'round-robin') {
-    const result = generateRoundRobinMatches(workingTeams, settings)
+    const result = generateRoundRobinMatches(workingTeams, settings, config)
+    matches = result.matches
+    byes = result.byes
+  } else if (config.mode === 'swiss') {
+    const result = generateSwissFirstRound(orderedTeams, settings, config.pitchStrategy)
+    matches = result.matches
+    byes = result.byes
+    warnings.push(...result.warnings)
+  } else if (config.mode === 'groups-knockout') {
+    const result = generateGroupsKnockout(workingTeams, settings, config)
     matches = result.matches
     byes = result.byes
+    warnings.push(...result.warnings)
   } else {
-    const result = generateLimitedMatches(workingTeams, settings, config)
+    const result = generateLimitedMatches(workingTeams, settings, config, capToEndTime)
     matches = result.matches
     byes = result.byes
     warnings.push(...result.warnings)
   }
 
+  // Swiss rounds wait for results, so they keep their synchronized slots
+  if (config.timeAllocation === 'rolling' && config.mode !== 'swiss') {
+    matches = rollMatches(getPlannedMatches(matches, settings, config), settings)
+    byes = byes.map(bye => ({
+      ...bye,
+      startTime: matches.find(m => (m.round ?? 0) === bye.round)?.startTime,
+    }))
+  }
+
+  matches = balanceHomeAway(matches, config.pinnedMatches || [])
   const conflicts = detectConflicts(matches)
+  const violations = [
+    ...findAvailabilityViolations(matches, settings),
+    ...findPitchViolations(matches, settings),
+    ...findDayViolations(matches, settings),
+    ...findRestViolations(matches, settings, config.minRestSlots ?? 0),
+    ...findPinViolations(matches, settings, config.pinnedMatches || [], teams),
+  ]
+  warnings.push(...violations.map(v => v.message))
+  const suggestions = getEndTimeSuggestions(
+    matches,
+    settings,
+    new Set(matches.map(m => m.startTime.getTime())).size
+  )
 
   if (conflicts.length > 0) {
-    warnings.push(
-      `${conflicts.length} scheduling conflict(s) detected - same team playing multiple matches simultaneously`
-    )
+    warnings.push(getConflictWarning(conflicts))
   }
 
   if (matches.length > 100) {
@@ -129,8 +255,9 @@ export function generateSchedule(
     )
   }
 
-  // Check for consecutive byes
-  if (byes.length > 1) {
+  // Check for consecutive byes. A Swiss round spread over several slots, or
+  // a minimum rest, idles teams in consecutive slots by design
+  if (config.mode !== 'swiss' && !config.minRestSlots && byes.length > 1) {
     const byesByTeam = new Map<string, number[]>()
     for (const bye of byes) {
       if (!byesByTeam.has(bye.team.id)) {
@@ -152,17 +279,324 @@ export function generateSchedule(
     }
   }
 
-  return { matches, conflicts, warnings, byes }
+  return { matches, conflicts, warnings, byes, violations, suggestions }
+}
+
+/**
+ * Schedules several divisions on the shared pitches. Each division is planned
+ * on its own with its own config and match duration; the planned matches are
+ * then interleaved in order, each taking the pitch that frees up first once
+ * both teams are ready, so no pitch is ever double-booked. onProgress counts
+ * the variants of all divisions together.
+ */
+export function generateDivisionSchedule(
+  settings: TournamentSettings,
+  teams: Team[],
+  divisions: Division[],
+  onProgress?: (done: number, total: number) => void
+): GeneratedSchedule {
+  const warnings: string[] = []
+  const plannedMatches: PlannedMatch[] = []
+  const plannedByes: ByeInfo[] = []
+  const totalRuns = divisions.reduce(
+    (sum, division) => sum + getOptimizationRuns(division.schedulingConfig),
+    0
+  )
+  let finishedRuns = 0
+
+  divisions.forEach((division, divisionIndex) => {
+    if (division.schedulingConfig.mode === 'swiss') {
+      throw new Error(
+        `${division.name}: Schweizersystem kan ikke bruges i turneringer med flere rækker`
+      )
+    }
+
+    const divisionSettings = getDivisionSettings(settings, division)
+    const config = division.schedulingConfig
+    // The venue's capacity is shared, so no division is capped to all of it;
+    // matches that overrun the end time are reported once interleaved
+    const planned = generateSchedule(
+      divisionSettings,
+      teams.filter(team => team.divisionId === division.id),
+      config,
+      done => onProgress?.(finishedRuns + done, totalRuns),
+      false
+    )
+    finishedRuns += getOptimizationRuns(config)
+
+    // Conflicts and violations are re-detected once the divisions share pitches
+    const timingWarnings = new Set((planned.violations || []).map(v => v.message))
+    warnings.push(
+      ...planned.warnings
+        .filter(warning => !timingWarnings.has(warning) && !warning.includes('conflict'))
+        .map(warning => `${division.name}: ${warning}`)
+    )
+
+    const restMinutes =
+      (config.minRestSlots ?? 0) *
+      (calculateMatchDuration(divisionSettings) + settings.breakBetweenMatches)
+    for (const match of planned.matches) {
+      plannedMatches.push({
+        match: {
+          ...match,
+          id: `${division.id}-${match.id}`,
+          homeTeam: getDivisionTeam(match.homeTeam, division),
+          awayTeam: getDivisionTeam(match.awayTeam, division),
+          division: division.name,
+        },
+        sequence: divisionIndex,
+        restMinutes,
+        pitchStrategy: config.pitchStrategy,
+      })
+    }
+    plannedByes.push(...(planned.byes || []))
+  })
+
+  const matches = rollMatches(plannedMatches, settings)
+
+  // A bye shows alongside the first match of its division's round
+  const byes = plannedByes.map(bye => {
+    const divisionName = divisions.find(d => d.id === bye.team.divisionId)?.name
+    const roundStart = matches.find(
+      m => m.division === divisionName && (m.round ?? 0) === bye.round
+    )?.startTime
+    return { ...bye, startTime: roundStart }
+  })
+
+  const conflicts = detectConflicts(matches)
+  const violations = [
+    ...findAvailabilityViolations(matches, settings),
+    ...findPitchViolations(matches, settings),
+    ...findDayViolations(matches, settings),
+    ...findDivisionRestViolations(matches, settings, divisions),
+  ]
+  warnings.push(...violations.map(v => v.message))
+  // Divisions differ in match length, so no single shorter length is suggested
+  const suggestions = getEndTimeSuggestions(matches, settings)
+
+  if (conflicts.length > 0) {
+    warnings.push(getConflictWarning(conflicts))
+  }
+
+  return { matches, conflicts, warnings, byes, violations, suggestions }
+}
+
+/**
+ * A match planned in slots, waiting to be rolled onto the pitches. Matches
+ * sharing a sequence keep their planned order; a pitch is set for matches
+ * pinned to it.
+ */
+interface PlannedMatch {
+  match: Match
+  sequence: number
+  restMinutes: number
+  pitchStrategy?: PitchStrategy
+  pitch?: number
+}
+
+/** One schedule's slotted matches as a single sequence to roll onto the pitches. */
+function getPlannedMatches(
+  matches: Match[],
+  settings: TournamentSettings,
+  config: SchedulingConfig
+): PlannedMatch[] {
+  const restMinutes =
+    (config.minRestSlots ?? 0) * (calculateMatchDuration(settings) + settings.breakBetweenMatches)
+  const pinnedPitches = new Map<Match, number>()
+  for (const pin of config.pinnedMatches || []) {
+    const match = findPinnedMatch(matches, pin)
+    if (match && pin.pitch !== undefined && pin.pitch <= settings.numPitches) {
+      pinnedPitches.set(match, pin.pitch)
+    }
+  }
+  return matches.map(match => ({
+    match,
+    sequence: 0,
+    restMinutes,
+    pitchStrategy: config.pitchStrategy,
+    pitch: pinnedPitches.get(match),
+  }))
+}
+
+/** Fisher-Yates shuffle driven by a small seeded PRNG (mulberry32). */
+function shuffleWithSeed<T>(items: T[], seed: number): T[] {
+  let state = seed >>> 0
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/** Tournament settings as seen by one division, with its own match duration. */
+function getDivisionSettings(settings: TournamentSettings, division: Division): TournamentSettings {
+  if (!division.matchDurationMinutes) return settings
+  return {
+    ...settings,
+    matchMode: 'full-time',
+    matchDurationMinutes: division.matchDurationMinutes,
+  }
+}
+
+/** Knockout placeholders are shared by name, so scope them to their division. */
+function getDivisionTeam(team: Team, division: Division): Team {
+  return team.id.startsWith('placeholder-')
+    ? { ...team, id: `${division.id}-${team.id}`, divisionId: division.id }
+    : team
+}
+
+/**
+ * Retimes planned matches so every pitch runs its own sequence instead of
+ * waiting for the slowest match of each slot; used to interleave divisions on
+ * the shared pitches and for rolling start times. Matches are taken in planned
+ * start order (divisions alternate within a slot) and each starts on the
+ * pitch that allows the earliest start: after the pitch's previous match and
+ * break, after both teams' previous match plus break and rest, never before
+ * the previous match of its sequence, outside scheduled breaks and within the
+ * pitch's opening hours when possible. Knockout matches also wait for the
+ * earlier rounds of their sequence to end. Pitches allowing the same start are
+ * told apart by the pitch strategy.
+ */
+function rollMatches(plannedMatches: PlannedMatch[], settings: TournamentSettings): Match[] {
+  const start = getTournamentStart(settings)
+  const changeover = settings.breakBetweenMatches * 60000
+  const pitchFree = Array.from({ length: settings.numPitches }, () => start)
+  const teamReady = new Map<string, Date>()
+  const sequenceReady = new Map<number, Date>()
+  const placed: { sequence: number; match: Match }[] = []
+  const history = createPitchHistory()
+  const latest = (...dates: Date[]) => new Date(Math.max(...dates.map(d => d.getTime())))
+
+  const ordered = [...plannedMatches].sort(
+    (a, b) =>
+      a.match.startTime.getTime() - b.match.startTime.getTime() ||
+      a.match.pitch - b.match.pitch ||
+      a.sequence - b.sequence
+  )
+
+  const matches = ordered.map(({ match, sequence, restMinutes, pitchStrategy, pitch: pinned }) => {
+    const duration = (match.endTime.getTime() - match.startTime.getTime()) / 60000
+    const teams = [match.homeTeam, match.awayTeam]
+    // Knockout placeholders are only known once the earlier rounds are over
+    const decidingMatches =
+      match.stage === 'knockout'
+        ? placed.filter(p => p.sequence === sequence && (p.match.round ?? 0) < (match.round ?? 0))
+        : []
+    const earliest = latest(
+      sequenceReady.get(sequence) ?? start,
+      ...teams.map(team => teamReady.get(team.id) ?? start),
+      ...teams.filter(team => team.availableFrom).map(t => getTimeOnDay(start, t.availableFrom!)),
+      ...decidingMatches.map(p => new Date(p.match.endTime.getTime() + changeover))
+    )
+
+    type Choice = { pitch: number; start: Date; cost: number }
+    const isBetter = (choice: Choice, other: Choice | null) =>
+      !other ||
+      choice.start < other.start ||
+      (choice.start.getTime() === other.start.getTime() && choice.cost < other.cost)
+    let best: Choice | null = null
+    let fallback: Choice | null = null
+    for (let pitch = 1; pitch <= settings.numPitches; pitch++) {
+      if (pinned !== undefined && pitch !== pinned) continue
+      const window = settings.pitchWindows?.[pitch - 1]
+      let candidate = latest(earliest, pitchFree[pitch - 1])
+      if (window?.availableFrom) {
+        candidate = latest(candidate, getTimeOnDay(candidate, window.availableFrom))
+      }
+      candidate = getPlayableStart(settings, candidate, duration)
+
+      const candidateEnd = new Date(candidate.getTime() + duration * 60000)
+      const choice = {
+        pitch,
+        start: candidate,
+        cost: pitchCost(pitchStrategy ?? 'in-order', history, match, pitch),
+      }
+      if (isWithinWindow(window, candidate, candidateEnd) && isBetter(choice, best)) {
+        best = choice
+      }
+      if (isBetter(choice, fallback)) {
+        fallback = choice
+      }
+    }
+
+    // With every pitch closed, findPitchViolations reports the overflow
+    const chosen = (best ?? fallback)!
+    const endTime = new Date(chosen.start.getTime() + duration * 60000)
+    pitchFree[chosen.pitch - 1] = new Date(endTime.getTime() + changeover)
+    for (const team of teams) {
+      teamReady.set(team.id, new Date(endTime.getTime() + changeover + restMinutes * 60000))
+    }
+    sequenceReady.set(sequence, chosen.start)
+
+    const retimed = { ...match, pitch: chosen.pitch, startTime: chosen.start, endTime }
+    recordPitch(history, retimed)
+    placed.push({ sequence, match: retimed })
+    return retimed
+  })
+
+  return matches.sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.pitch - b.pitch)
 }
 
 function generateRoundRobinMatches(
   teams: Team[],
-  settings: TournamentSettings
+  settings: TournamentSettings,
+  config: SchedulingConfig
 ): { matches: Match[]; byes: ByeInfo[] } {
-  const n = teams.length
+  if (teams.length < 2) return { matches: [], byes: [] }
+
+  const candidates = createRoundRobinCandidates(teams)
+  const realTeams = teams.filter(t => t.id !== 'BYE')
+  const minRestSlots = config.minRestSlots ?? 0
+  const pins = config.pinnedMatches || []
+  if (!config.doubleRoundRobin) {
+    return buildScheduleFromCandidates(
+      candidates,
+      realTeams,
+      settings,
+      minRestSlots,
+      pins,
+      config.pitchStrategy
+    )
+  }
 
-  if (n < 2) return { matches: [], byes: [] }
+  // The second leg mirrors the first slot for slot with home and away
+  // swapped, so every rematch lies exactly one full leg after the first game
+  const firstLeg = orderCandidatesIntoSlots(
+    candidates,
+    realTeams,
+    settings.numPitches,
+    minRestSlots
+  )
+  const secondLeg = firstLeg.map(slot => slot.map(c => ({ ...c, home: c.away, away: c.home })))
+  const slots = applySlotPins(
+    fitSlotsToAvailability([...firstLeg, ...secondLeg], settings, minRestSlots),
+    pins,
+    settings.numPitches
+  )
+  const matches = applyPitchPins(
+    assignTimeSlots(slotsToMatches(slots), settings, undefined, config.pitchStrategy),
+    pins,
+    settings
+  )
+  return { matches, byes: computeIdleTeams(matches, realTeams) }
+}
 
+/**
+ * Circle-method pairings where every team meets every other team once. The
+ * team list must have even length (pad with BYE_TEAM); BYE pairings are
+ * dropped, leaving the paired team idle that round.
+ */
+function createRoundRobinCandidates(teams: Team[]): ScheduledCandidate[] {
+  const n = teams.length
   const rounds = n - 1
   const matchesPerRound = n / 2
 
@@ -173,9 +607,11 @@ function generateRoundRobinMatches(
     for (let match = 0; match < matchesPerRound; match++) {
       let home: number, away: number
 
+      // The fixed team alternates between home and away. The rotating teams
+      // are at home in the first half of the circle, so rotating evens them out
       if (match === 0) {
-        home = teamIndexes[0]
-        away = teamIndexes[n - 1]
+        home = round % 2 === 0 ? teamIndexes[0] : teamIndexes[n - 1]
+        away = round % 2 === 0 ? teamIndexes[n - 1] : teamIndexes[0]
       } else {
         home = teamIndexes[match]
         away = teamIndexes[n - 1 - match]
@@ -193,13 +629,13 @@ function generateRoundRobinMatches(
     teamIndexes.splice(1, 0, last)
   }
 
-  const realTeams = teams.filter(t => t.id !== 'BYE')
-  return buildScheduleFromCandidates(candidates, realTeams, settings)
+  return candidates
 }
 
 interface RoundCandidate {
   home: Team
   away: Team
+  group?: number
 }
 
 interface ScheduledCandidate extends RoundCandidate {
@@ -247,20 +683,260 @@ function packIntoTimeSlots(candidates: RoundCandidate[], numPitches: number): Ro
 /**
  * Shared scheduling tail: pack candidates into pitch-sized time slots,
  * reorder slots to minimize consecutive byes (with under-filled slots pushed
- * toward the end), assign synchronized slot times, and compute idle teams.
+ * toward the end), move matches into their teams' availability windows,
+ * place pinned matches, assign synchronized slot times, and compute idle
+ * teams.
  */
 function buildScheduleFromCandidates(
   candidates: ScheduledCandidate[],
   teams: Team[],
-  settings: TournamentSettings
+  settings: TournamentSettings,
+  minRestSlots = 0,
+  pins: PinnedMatch[] = [],
+  pitchStrategy?: PitchStrategy
 ): { matches: Match[]; byes: ByeInfo[] } {
+  const orderedSlots = applySlotPins(
+    fitSlotsToAvailability(
+      orderCandidatesIntoSlots(candidates, teams, settings.numPitches, minRestSlots),
+      settings,
+      minRestSlots
+    ),
+    pins,
+    settings.numPitches
+  )
+  const matches = slotsToMatches(orderedSlots)
+
+  const assignedMatches = applyPitchPins(
+    assignTimeSlots(matches, settings, undefined, pitchStrategy),
+    pins,
+    settings
+  )
+  const byes = computeIdleTeams(assignedMatches, teams)
+
+  return { matches: assignedMatches, byes }
+}
+
+/**
+ * Sorts candidates by round robin round, packs them into slots and orders
+ * the slots. With a minimum rest the plain first-fit packing often leaves no
+ * rest-respecting order (e.g. 5 teams on 2 pitches: every slot shares three
+ * teams with the next), so rest-aware packings that leave pitches idle are
+ * tried as well and the order with the fewest rest violations wins, the
+ * shorter schedule breaking ties.
+ */
+function orderCandidatesIntoSlots(
+  candidates: ScheduledCandidate[],
+  teams: Team[],
+  numPitches: number,
+  minRestSlots = 0
+): RoundCandidate[][] {
   const sorted = [...candidates].sort((a, b) => a.rrRound - b.rrRound)
-  const timeSlotGroups = packIntoTimeSlots(sorted, settings.numPitches)
-  const orderedSlots = reorderRoundsToMinimizeConsecutiveByes(timeSlotGroups, teams)
+  const timeSlotGroups = packIntoTimeSlots(sorted, numPitches)
+  const ordered = reorderRoundsToMinimizeConsecutiveByes(timeSlotGroups, teams, minRestSlots)
+  if (minRestSlots <= 0 || countRestViolations(ordered, minRestSlots) === 0) return ordered
+
+  // A team can play at most every (minRestSlots + 1) slots, which bounds how
+  // many matches per slot the schedule can sustain without violations
+  const sustainablePerSlot = Math.max(1, Math.floor(teams.length / (2 * (minRestSlots + 1))))
+  const slotCaps = Array.from(new Set([numPitches, Math.min(numPitches, sustainablePerSlot)]))
+
+  let best = ordered
+  let bestViolations = countRestViolations(ordered, minRestSlots)
+  for (const cap of slotCaps) {
+    const packed = packWithRest(sorted, cap, minRestSlots)
+    for (const attempt of [
+      packed,
+      reorderRoundsToMinimizeConsecutiveByes(packed, teams, minRestSlots),
+    ]) {
+      const violations = countRestViolations(attempt, minRestSlots)
+      if (
+        violations < bestViolations ||
+        (violations === bestViolations && attempt.length < best.length)
+      ) {
+        best = attempt
+        bestViolations = violations
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Slot-by-slot packing that only picks matches whose teams have sat out at
+ * least minRestSlots slots, at most maxPerSlot per slot. When no rested
+ * match exists the slot takes the match whose teams rested longest, so
+ * pitches never stand completely idle.
+ */
+function packWithRest(
+  candidates: RoundCandidate[],
+  maxPerSlot: number,
+  minRestSlots: number
+): RoundCandidate[][] {
+  const slots: RoundCandidate[][] = []
+  const remaining = [...candidates]
+  const lastSlot = new Map<string, number>()
+  const restOf = (teamId: string, k: number) => k - (lastSlot.get(teamId) ?? -Infinity) - 1
+
+  for (let k = 0; remaining.length > 0; k++) {
+    const rested = (c: RoundCandidate) =>
+      restOf(c.home.id, k) >= minRestSlots && restOf(c.away.id, k) >= minRestSlots
+    let eligible = remaining.filter(rested)
+    if (eligible.length === 0) {
+      const leastTired = (c: RoundCandidate) => Math.min(restOf(c.home.id, k), restOf(c.away.id, k))
+      eligible = [[...remaining].sort((a, b) => leastTired(b) - leastTired(a))[0]]
+    }
+
+    const slotTeams = new Set<string>()
+    const slot: RoundCandidate[] = []
+    for (const c of eligible) {
+      if (slot.length >= maxPerSlot) break
+      if (slotTeams.has(c.home.id) || slotTeams.has(c.away.id)) continue
+      slotTeams.add(c.home.id)
+      slotTeams.add(c.away.id)
+      slot.push(c)
+      remaining.splice(remaining.indexOf(c), 1)
+    }
+    for (const id of slotTeams) lastSlot.set(id, k)
+    slots.push(slot)
+  }
+
+  return slots
+}
+
+/** Number of times a team plays again with fewer than minRestSlots slots off. */
+function countRestViolations(slots: RoundCandidate[][], minRestSlots: number): number {
+  const lastSlot = new Map<string, number>()
+  let violations = 0
+  slots.forEach((slot, k) => {
+    for (const c of slot) {
+      for (const id of [c.home.id, c.away.id]) {
+        const last = lastSlot.get(id)
+        if (last !== undefined && k - last - 1 < minRestSlots) violations++
+        lastSlot.set(id, k)
+      }
+    }
+  })
+  return violations
+}
+
+/**
+ * Re-packs ordered slots so every match lands in a slot inside both teams'
+ * availability windows and no slot holds more matches than it has open
+ * pitches. Slot k starts k slot lengths after startAt (pushed past any
+ * scheduled break), the same grid assignTimeSlots uses. Each slot takes
+ * matches first-fit, most urgent window first and otherwise in the incoming
+ * order; when nothing may play yet the slot stays empty so the schedule waits.
+ * Matches that fit no slot fill leftover capacity and are reported by
+ * findAvailabilityViolations. Among equally urgent matches, those whose teams
+ * have had minRestSlots off go first. A no-op when neither teams nor pitches
+ * have windows.
+ */
+function fitSlotsToAvailability(
+  slots: RoundCandidate[][],
+  settings: TournamentSettings,
+  minRestSlots = 0,
+  startAt?: Date
+): RoundCandidate[][] {
+  const queue = slots.flat()
+  if (
+    !hasPitchWindows(settings) &&
+    !queue.some(c => hasAvailabilityWindow(c.home) || hasAvailabilityWindow(c.away))
+  ) {
+    return slots
+  }
 
+  const start = startAt ?? getTournamentStart(settings)
+  const matchDuration = calculateMatchDuration(settings)
+  const slotLength = matchDuration + settings.breakBetweenMatches
+
+  // Start of slot k, stepping over breaks and nights like assignTimeSlots
+  const slotStarts: Date[] = []
+  const slotStartAt = (k: number) => {
+    while (slotStarts.length <= k) {
+      const previous = slotStarts[slotStarts.length - 1]
+      const next = previous ? new Date(previous.getTime() + slotLength * 60000) : start
+      slotStarts.push(getPlayableStart(settings, next, matchDuration))
+    }
+    return slotStarts[k]
+  }
+  const slotEndAt = (k: number) => new Date(slotStartAt(k).getTime() + matchDuration * 60000)
+
+  // Range of slot indexes in which a team is available for the whole match
+  const teamSlotRange = (team: Team): [number, number] => {
+    let first = 0
+    if (team.availableFrom) {
+      const from = getTimeOnDay(start, team.availableFrom)
+      while (slotStartAt(first) < from) first++
+    }
+    if (!team.availableUntil) return [first, Infinity]
+
+    const until = getTimeOnDay(start, team.availableUntil)
+    let last = -1
+    while (slotEndAt(last + 1) <= until) last++
+    return [first, last]
+  }
+
+  const ranges = new Map(
+    queue.map(c => {
+      const [homeFirst, homeLast] = teamSlotRange(c.home)
+      const [awayFirst, awayLast] = teamSlotRange(c.away)
+      return [c, [Math.max(homeFirst, awayFirst), Math.min(homeLast, awayLast)]] as const
+    })
+  )
+
+  // Matches that fit in slot k: its open pitches, nothing while every pitch
+  // is closed but one opens later (or another day follows), and every pitch
+  // once all have closed for good
+  const capacityAt = (k: number) => {
+    const open = getOpenPitches(settings, slotStartAt(k), slotEndAt(k)).length
+    return open > 0 ||
+      pitchOpensLater(settings, slotStartAt(k)) ||
+      hasLaterDay(settings, slotStartAt(k))
+      ? open
+      : settings.numPitches
+  }
+
+  const lastSlot = new Map<string, number>()
+  const isRested = (c: RoundCandidate, k: number) =>
+    [c.home.id, c.away.id].every(id => k - (lastSlot.get(id) ?? -Infinity) - 1 >= minRestSlots)
+
+  const result: RoundCandidate[][] = []
+  for (let k = 0; queue.length > 0; k++) {
+    const fitsNow = (c: RoundCandidate) => {
+      const [first, last] = ranges.get(c)!
+      return first <= k && k <= last
+    }
+    const cannotFit = (c: RoundCandidate) => {
+      const [first, last] = ranges.get(c)!
+      return first > last || last < k
+    }
+    const byUrgency = (a: RoundCandidate, b: RoundCandidate) =>
+      ranges.get(a)![1] - ranges.get(b)![1] || Number(isRested(b, k)) - Number(isRested(a, k))
+    const eligible = [...queue.filter(fitsNow).sort(byUrgency), ...queue.filter(cannotFit)]
+
+    const capacity = capacityAt(k)
+    const slotTeams = new Set<string>()
+    const slot: RoundCandidate[] = []
+    for (const c of eligible) {
+      if (slot.length >= capacity) break
+      if (slotTeams.has(c.home.id) || slotTeams.has(c.away.id)) continue
+      slotTeams.add(c.home.id)
+      slotTeams.add(c.away.id)
+      slot.push(c)
+      queue.splice(queue.indexOf(c), 1)
+    }
+    for (const id of slotTeams) lastSlot.set(id, k)
+    result.push(slot)
+  }
+
+  return result
+}
+
+/** Turns ordered slots into unscheduled matches whose round is the slot index. */
+function slotsToMatches(slots: RoundCandidate[][]): Match[] {
   const matches: Match[] = []
-  for (let r = 0; r < orderedSlots.length; r++) {
-    for (const c of orderedSlots[r]) {
+  for (let r = 0; r < slots.length; r++) {
+    for (const c of slots[r]) {
       matches.push({
         id: `match-${matches.length}`,
         homeTeam: c.home,
@@ -269,24 +945,600 @@ function buildScheduleFromCandidates(
         endTime: new Date(),
         pitch: 0,
         round: r,
+        ...(c.group !== undefined && { stage: 'group' as const, group: c.group }),
       })
     }
   }
+  return matches
+}
 
-  const assignedMatches = assignTimeSlots(matches, settings)
-  const byes = computeIdleTeams(assignedMatches, teams)
+/**
+ * Evens out how often each team is listed at home by flipping single
+ * meetings, as long as a flip brings the two teams' home/away difference
+ * closer together. Pairs meeting more than once keep their alternating
+ * legs, pinned matchups keep their pinned orientation and knockout matches
+ * keep their bracket order.
+ */
+function balanceHomeAway(matches: Match[], pins: PinnedMatch[]): Match[] {
+  const meetings = new Map<string, number>()
+  for (const match of matches) {
+    const key = [match.homeTeam.id, match.awayTeam.id].sort().join('-')
+    meetings.set(key, (meetings.get(key) || 0) + 1)
+  }
+  const canFlip = (match: Match) =>
+    match.stage !== 'knockout' &&
+    meetings.get([match.homeTeam.id, match.awayTeam.id].sort().join('-')) === 1 &&
+    !pins.some(pin => isPinnedPair(match.homeTeam, match.awayTeam, pin))
+
+  // Home matches minus away matches per team
+  const balance = new Map<string, number>()
+  const shift = (teamId: string, by: number) => balance.set(teamId, (balance.get(teamId) || 0) + by)
+  for (const match of matches) {
+    shift(match.homeTeam.id, 1)
+    shift(match.awayTeam.id, -1)
+  }
 
-  return { matches: assignedMatches, byes }
+  const result = [...matches]
+  let improved = true
+  while (improved) {
+    improved = false
+    result.forEach((match, i) => {
+      const homeBalance = balance.get(match.homeTeam.id) || 0
+      const awayBalance = balance.get(match.awayTeam.id) || 0
+      if (homeBalance - awayBalance <= 2 || !canFlip(match)) return
+      result[i] = { ...match, homeTeam: match.awayTeam, awayTeam: match.homeTeam }
+      shift(match.homeTeam.id, -2)
+      shift(match.awayTeam.id, 2)
+      improved = true
+    })
+  }
+  return result
 }
 
-function generateLimitedMatches(
+function isPinnedPair(home: Team, away: Team, pin: PinnedMatch): boolean {
+  return (
+    (home.id === pin.homeTeamId && away.id === pin.awayTeamId) ||
+    (home.id === pin.awayTeamId && away.id === pin.homeTeamId)
+  )
+}
+
+/**
+ * Moves each pinned matchup into its pinned slot, home and away as pinned.
+ * Matches in that slot sharing a team with it, or beyond its pitches, are
+ * displaced to the slot the pinned match left if they fit there, otherwise
+ * to the first slot with room. Pins are honoured in order and never displace
+ * an earlier pin. Pins that cannot be placed are left to findPinViolations.
+ */
+function applySlotPins(
+  slots: RoundCandidate[][],
+  pins: PinnedMatch[],
+  numPitches: number
+): RoundCandidate[][] {
+  if (pins.length === 0) return slots
+
+  const result = slots.map(slot => [...slot])
+  const pinned = new Set<RoundCandidate>()
+  const fits = (c: RoundCandidate, slot: RoundCandidate[]) =>
+    slot.length < numPitches &&
+    !slot.some(o => [o.home.id, o.away.id].some(id => id === c.home.id || id === c.away.id))
+
+  for (const pin of pins) {
+    // A meeting already played the pinned way round wins, so a double round
+    // robin keeps one home match for each team
+    const free = result.flat().filter(c => !pinned.has(c) && isPinnedPair(c.home, c.away, pin))
+    const match = free.find(c => c.home.id === pin.homeTeamId) ?? free[0]
+    if (!match) continue
+    const from = result.find(slot => slot.includes(match))!
+    if (match.home.id !== pin.homeTeamId) {
+      ;[match.home, match.away] = [match.away, match.home]
+    }
+    pinned.add(match)
+
+    const targetIndex = pin.slot
+    if (targetIndex === undefined || result[targetIndex] === from) continue
+    while (result.length <= targetIndex) result.push([])
+    const target = result[targetIndex]
+    const targetPins = target.filter(c => pinned.has(c))
+    if (!fits(match, targetPins)) continue
+
+    from.splice(from.indexOf(match), 1)
+    const kept = [match, ...targetPins]
+    const displaced: RoundCandidate[] = []
+    for (const c of target.filter(c => !pinned.has(c))) {
+      if (fits(c, kept)) kept.push(c)
+      else displaced.push(c)
+    }
+    result[targetIndex] = kept
+
+    for (const c of displaced) {
+      const slot = [from, ...result].find(slot => slot !== kept && fits(c, slot))
+      if (slot) slot.push(c)
+      else result.push([c])
+    }
+  }
+
+  // Slots the pins emptied out go, unless dropping them would shift a pin
+  const lastPinnedSlot = Math.max(-1, ...pins.map(pin => pin.slot ?? -1))
+  return result.filter(
+    (slot, k) => slot.length > 0 || k <= lastPinnedSlot || slots[k]?.length === 0
+  )
+}
+
+/**
+ * Puts each pinned match on its pinned pitch, swapping pitches with the match
+ * already there at the same time. Pins are matched to the earliest meeting of
+ * the pair (in the pinned slot when one is given).
+ */
+function applyPitchPins(
+  matches: Match[],
+  pins: PinnedMatch[],
+  settings: TournamentSettings
+): Match[] {
+  for (const pin of pins) {
+    if (pin.pitch === undefined || pin.pitch > settings.numPitches) continue
+    const match = findPinnedMatch(matches, pin)
+    if (!match) continue
+    const occupant = matches.find(
+      m =>
+        m !== match && m.pitch === pin.pitch && m.startTime.getTime() === match.startTime.getTime()
+    )
+    if (occupant) occupant.pitch = match.pitch
+    match.pitch = pin.pitch
+  }
+  return matches
+}
+
+function findPinnedMatch(matches: Match[], pin: PinnedMatch): Match | undefined {
+  const meetings = matches.filter(m => isPinnedPair(m.homeTeam, m.awayTeam, pin))
+  return (
+    meetings.find(m =>
+      pin.slot === undefined ? m.homeTeam.id === pin.homeTeamId : m.round === pin.slot
+    ) ?? meetings[0]
+  )
+}
+
+export function getGroupName(group: number): string {
+  return `Pulje ${String.fromCharCode(65 + group)}`
+}
+
+/** Short description of where a match belongs: its group or knockout round. */
+export function getMatchLabel(match: Match): string | undefined {
+  if (match.label) return match.label
+  if (match.group !== undefined) return getGroupName(match.group)
+  return undefined
+}
+
+/**
+ * Group stage followed by a knockout bracket. Teams are dealt into groups in
+ * team order (1st to group A, 2nd to group B, ...), each group plays a round
+ * robin on the shared pitches, and the knockout rounds are appended as their
+ * own slots once every group match is done. Knockout participants are not
+ * known until the groups finish, so they are placeholder teams such as
+ * "1. Pulje A" or "Vinder Semifinale 1".
+ */
+function generateGroupsKnockout(
+  teams: Team[],
+  settings: TournamentSettings,
+  config: SchedulingConfig
+): { matches: Match[]; byes: ByeInfo[]; warnings: string[] } {
+  const warnings: string[] = []
+  if (teams.length < 2) return { matches: [], byes: [], warnings }
+
+  const maxGroups = Math.floor(teams.length / 2)
+  const requestedGroups = config.numGroups || 2
+  const numGroups = Math.min(Math.max(requestedGroups, 1), maxGroups)
+  if (numGroups !== requestedGroups) {
+    warnings.push(
+      `Der er kun hold nok til ${numGroups} pulje${numGroups !== 1 ? 'r' : ''} med mindst to hold`
+    )
+  }
+
+  const groups: Team[][] = Array.from({ length: numGroups }, () => [])
+  teams.forEach((team, i) => groups[i % numGroups].push(team))
+
+  const candidates: ScheduledCandidate[] = []
+  groups.forEach((groupTeams, group) => {
+    const paddedTeams = groupTeams.length % 2 === 0 ? groupTeams : [...groupTeams, BYE_TEAM]
+    for (const candidate of createRoundRobinCandidates(paddedTeams)) {
+      candidates.push({ ...candidate, group })
+    }
+  })
+
+  if (groups.some(group => group.length % 2 !== 0)) {
+    warnings.push('Ulige antal hold i en pulje: Et hold sidder over i hver runde')
+  }
+
+  const groupSlots = fitSlotsToAvailability(
+    orderCandidatesIntoSlots(candidates, teams, settings.numPitches, config.minRestSlots),
+    settings,
+    config.minRestSlots
+  )
+  const matches = slotsToMatches(groupSlots)
+
+  const smallestGroup = Math.min(...groups.map(group => group.length))
+  const requestedAdvancing = config.teamsAdvancingPerGroup || 2
+  const advancing = Math.min(Math.max(requestedAdvancing, 1), smallestGroup)
+  if (advancing !== requestedAdvancing) {
+    warnings.push(
+      `Kun ${advancing} hold pr. pulje kan gå videre, da den mindste pulje har ${smallestGroup} hold`
+    )
+  }
+
+  const knockoutRounds = createKnockoutRounds(numGroups, advancing, warnings)
+  knockoutRounds.forEach((knockoutRound, index) => {
+    for (const candidate of knockoutRound) {
+      matches.push({
+        id: `match-${matches.length}`,
+        homeTeam: candidate.home,
+        awayTeam: candidate.away,
+        startTime: new Date(),
+        endTime: new Date(),
+        pitch: 0,
+        round: groupSlots.length + index,
+        stage: 'knockout',
+        label: candidate.label,
+      })
+    }
+  })
+
+  const assignedMatches = assignTimeSlots(matches, settings, undefined, config.pitchStrategy)
+  const byes = computeIdleTeams(
+    assignedMatches.filter(match => match.stage === 'group'),
+    teams
+  )
+
+  return { matches: assignedMatches, byes, warnings }
+}
+
+interface KnockoutCandidate extends RoundCandidate {
+  label: string
+}
+
+/**
+ * Builds the knockout bracket as one candidate list per round. The bracket is
+ * the largest power of two that fits the qualifiers; seeds are ordered by
+ * group placing and spread with the standard bracket order, so group winners
+ * only meet each other late. Placings are not known yet, so when the bracket
+ * is too small the extra places go by group order (2. Pulje A before
+ * 2. Pulje B). Teams from the same group are kept apart in the first round
+ * where possible. A bronze match for the semifinal losers is played alongside
+ * the final.
+ */
+function createKnockoutRounds(
+  numGroups: number,
+  advancing: number,
+  warnings: string[]
+): KnockoutCandidate[][] {
+  const qualifiers = numGroups * advancing
+  let bracketSize = 1
+  while (bracketSize * 2 <= qualifiers) bracketSize *= 2
+
+  if (bracketSize < 2) {
+    warnings.push('For få hold går videre fra puljerne til at spille slutspil')
+    return []
+  }
+  const seeds: { team: Team; group: number }[] = []
+  for (let place = 1; place <= advancing; place++) {
+    for (let group = 0; group < numGroups; group++) {
+      seeds.push({ team: createPlaceholderTeam(`${place}. ${getGroupName(group)}`), group })
+    }
+  }
+
+  if (bracketSize < qualifiers) {
+    const names = seeds.slice(0, bracketSize).map(seed => seed.team.name)
+    warnings.push(
+      `Slutspillet har plads til ${bracketSize} af ${qualifiers} hold, så kun ${names.slice(0, -1).join(', ')} og ${names[names.length - 1]} går videre`
+    )
+  }
+
+  const bracket = getBracketOrder(bracketSize).map(seed => seeds[seed])
+  // Swap away sides between first-round matches so group rivals do not meet again
+  for (let i = 0; i < bracket.length; i += 2) {
+    if (bracket[i].group !== bracket[i + 1].group) continue
+    for (let j = 0; j < bracket.length; j += 2) {
+      if (
+        j !== i &&
+        bracket[j + 1].group !== bracket[i].group &&
+        bracket[i + 1].group !== bracket[j].group
+      ) {
+        ;[bracket[i + 1], bracket[j + 1]] = [bracket[j + 1], bracket[i + 1]]
+        break
+      }
+    }
+  }
+
+  let entrants = bracket.map(seed => seed.team)
+  const rounds: KnockoutCandidate[][] = []
+  const semifinalLosers: Team[] = []
+
+  while (entrants.length >= 2) {
+    const roundName = getKnockoutRoundName(entrants.length)
+    const matchCount = entrants.length / 2
+    const knockoutRound: KnockoutCandidate[] = []
+    const winners: Team[] = []
+
+    for (let i = 0; i < matchCount; i++) {
+      const label = matchCount === 1 ? roundName : `${roundName} ${i + 1}`
+      knockoutRound.push({ home: entrants[2 * i], away: entrants[2 * i + 1], label })
+      winners.push(createPlaceholderTeam(`Vinder ${label}`))
+      if (entrants.length === 4) {
+        semifinalLosers.push(createPlaceholderTeam(`Taber ${label}`))
+      }
+    }
+
+    if (entrants.length === 2 && semifinalLosers.length === 2) {
+      knockoutRound.push({
+        home: semifinalLosers[0],
+        away: semifinalLosers[1],
+        label: 'Bronzekamp',
+      })
+    }
+
+    rounds.push(knockoutRound)
+    entrants = winners
+  }
+
+  return rounds
+}
+
+/** Swiss rounds played so far, i.e. the highest swissRound among the matches. */
+export function getCurrentSwissRound(matches: Match[]): number {
+  return matches.reduce((max, m) => Math.max(max, m.swissRound ?? 0), 0)
+}
+
+/** True when every match has a result and planned Swiss rounds remain. */
+export function canGenerateNextSwissRound(
+  schedule: GeneratedSchedule,
+  config: SchedulingConfig
+): boolean {
+  return (
+    config.mode === 'swiss' &&
+    getCurrentSwissRound(schedule.matches) < (config.swissRounds ?? 0) &&
+    schedule.matches.every(m => m.played)
+  )
+}
+
+/**
+ * Round 1 of a Swiss tournament: the top half of the team list meets the
+ * bottom half (1 v n/2+1, 2 v n/2+2, ...). With an odd team count the last
+ * team sits out. Later rounds come from generateNextSwissRound.
+ */
+function generateSwissFirstRound(
+  teams: Team[],
+  settings: TournamentSettings,
+  pitchStrategy?: PitchStrategy
+): { matches: Match[]; byes: ByeInfo[]; warnings: string[] } {
+  const warnings: string[] = []
+  if (teams.length < 2) return { matches: [], byes: [], warnings }
+
+  if (teams.length % 2 !== 0) {
+    warnings.push('Ulige antal hold: Et hold sidder over i hver runde')
+  }
+
+  const half = Math.floor(teams.length / 2)
+  const pairs: [Team, Team][] = []
+  for (let i = 0; i < half; i++) {
+    pairs.push([teams[i], teams[i + half]])
+  }
+
+  const matches = createSwissRoundMatches(pairs, 1, 0, 0, settings, undefined, pitchStrategy)
+  return { matches, byes: computeIdleTeams(matches, teams), warnings }
+}
+
+/**
+ * Pairs the next Swiss round from the current standings and appends it to
+ * the schedule, starting after the last scheduled slot. Teams with similar
+ * points meet and nobody faces the same opponent twice unless no rematch-free
+ * pairing exists. Throws if results are missing or all rounds are played.
+ */
+export function generateNextSwissRound(
+  schedule: GeneratedSchedule,
   teams: Team[],
   settings: TournamentSettings,
   config: SchedulingConfig
+): GeneratedSchedule {
+  if (!canGenerateNextSwissRound(schedule, config)) {
+    throw new Error('Alle resultater skal indtastes før næste runde kan genereres')
+  }
+
+  const roundNumber = getCurrentSwissRound(schedule.matches) + 1
+  const warnings = [...schedule.warnings]
+  // Withdrawn teams are no longer paired, but their walkovers and the results
+  // against them still count, so they are ranked first and left out after
+  const activeTeams = getActiveTeams(schedule, teams)
+  const activeIds = new Set(activeTeams.map(t => t.id))
+  const ranked = computeStandings(getResultMatches(schedule), teams)
+    .map(row => row.team)
+    .filter(team => activeIds.has(team.id))
+
+  const opponents = new Map<string, Set<string>>(teams.map(t => [t.id, new Set<string>()]))
+  const homeCounts = new Map<string, number>()
+  const matchCounts = new Map<string, number>()
+  for (const match of schedule.matches) {
+    opponents.get(match.homeTeam.id)?.add(match.awayTeam.id)
+    opponents.get(match.awayTeam.id)?.add(match.homeTeam.id)
+    homeCounts.set(match.homeTeam.id, (homeCounts.get(match.homeTeam.id) ?? 0) + 1)
+    for (const id of [match.homeTeam.id, match.awayTeam.id]) {
+      matchCounts.set(id, (matchCounts.get(id) ?? 0) + 1)
+    }
+  }
+
+  // The bye goes to the lowest-ranked team among those who have sat out the
+  // fewest rounds (i.e. played the most matches)
+  const toPair = [...ranked]
+  if (toPair.length % 2 !== 0) {
+    const mostPlayed = Math.max(...toPair.map(t => matchCounts.get(t.id) ?? 0))
+    const byeIndex = toPair.map(t => matchCounts.get(t.id) ?? 0).lastIndexOf(mostPlayed)
+    toPair.splice(byeIndex, 1)
+  }
+
+  let pairs = pairSwissTeams(toPair, (a, b) => !opponents.get(a.id)?.has(b.id))
+  if (!pairs) {
+    warnings.push(`Runde ${roundNumber}: Ingen parring uden genkampe var mulig`)
+    pairs = pairSwissTeams(toPair, () => true)!
+  }
+
+  // Whoever has had fewer home matches plays at home; ties favour the higher rank
+  const orientedPairs = pairs.map(([a, b]): [Team, Team] =>
+    (homeCounts.get(b.id) ?? 0) < (homeCounts.get(a.id) ?? 0) ? [b, a] : [a, b]
+  )
+
+  const lastSlot = schedule.matches.reduce((max, m) => Math.max(max, m.round ?? 0), -1)
+  const lastEnd = schedule.matches.reduce(
+    (latest, m) => (m.endTime > latest ? m.endTime : latest),
+    getTournamentStart(settings)
+  )
+  const nextStart = new Date(
+    lastEnd.getTime() + (schedule.matches.length > 0 ? settings.breakBetweenMatches * 60000 : 0)
+  )
+
+  const newMatches = createSwissRoundMatches(
+    orientedPairs,
+    roundNumber,
+    lastSlot + 1,
+    schedule.matches.length,
+    settings,
+    nextStart,
+    config.pitchStrategy,
+    schedule.matches
+  )
+  const matches = [...schedule.matches, ...newMatches]
+
+  const newMatchIds = new Set(newMatches.map(m => m.id))
+  const newViolations = [
+    ...findAvailabilityViolations(newMatches, settings),
+    ...findPitchViolations(newMatches, settings),
+    ...findRestViolations(matches, settings, config.minRestSlots ?? 0).filter(v =>
+      newMatchIds.has(v.matchId!)
+    ),
+  ]
+  warnings.push(...newViolations.map(v => v.message))
+
+  return {
+    ...schedule,
+    matches,
+    conflicts: detectConflicts(matches),
+    warnings,
+    byes: computeIdleTeams(matches, activeTeams),
+    violations: [...(schedule.violations || []), ...newViolations],
+  }
+}
+
+/**
+ * Pairs teams in ranking order: each team takes the highest-ranked remaining
+ * team it may meet, backtracking when the rest can no longer be paired.
+ * Returns null if no valid pairing exists within the search budget.
+ */
+function pairSwissTeams(
+  ranked: Team[],
+  canMeet: (a: Team, b: Team) => boolean
+): [Team, Team][] | null {
+  const NODE_BUDGET = 20000
+  let nodes = 0
+
+  function pair(remaining: Team[]): [Team, Team][] | null {
+    if (remaining.length === 0) return []
+    if (++nodes > NODE_BUDGET) return null
+
+    const [first, ...rest] = remaining
+    for (let i = 0; i < rest.length; i++) {
+      if (!canMeet(first, rest[i])) continue
+      const paired = pair([...rest.slice(0, i), ...rest.slice(i + 1)])
+      if (paired) return [[first, rest[i]], ...paired]
+    }
+    return null
+  }
+
+  return pair(ranked)
+}
+
+/**
+ * Packs one Swiss round into pitch-sized slots starting at startAt (default:
+ * tournament start) and numbers the slots from firstSlot.
+ */
+function createSwissRoundMatches(
+  pairs: [Team, Team][],
+  swissRound: number,
+  firstSlot: number,
+  firstMatchIndex: number,
+  settings: TournamentSettings,
+  startAt?: Date,
+  pitchStrategy?: PitchStrategy,
+  previousMatches: Match[] = []
+): Match[] {
+  const slots = fitSlotsToAvailability(
+    packIntoTimeSlots(
+      pairs.map(([home, away]) => ({ home, away })),
+      settings.numPitches
+    ),
+    settings,
+    0,
+    startAt
+  )
+
+  return assignTimeSlots(
+    slotsToMatches(slots),
+    settings,
+    startAt,
+    pitchStrategy,
+    createPitchHistory(previousMatches)
+  ).map((match, i) => ({
+    ...match,
+    id: `match-${firstMatchIndex + i}`,
+    round: firstSlot + (match.round ?? 0),
+    swissRound,
+    label: `Runde ${swissRound}`,
+  }))
+}
+
+function createPlaceholderTeam(name: string): Team {
+  return { id: `placeholder-${name}`, name }
+}
+
+/** Standard seeding order, e.g. [0, 3, 1, 2] for four teams (1v4, 2v3). */
+function getBracketOrder(size: number): number[] {
+  let order = [0]
+  while (order.length < size) {
+    const nextSize = order.length * 2
+    order = order.flatMap(seed => [seed, nextSize - 1 - seed])
+  }
+  return order
+}
+
+function getKnockoutRoundName(teamsInRound: number): string {
+  switch (teamsInRound) {
+    case 2:
+      return 'Finale'
+    case 4:
+      return 'Semifinale'
+    case 8:
+      return 'Kvartfinale'
+    case 16:
+      return 'Ottendedelsfinale'
+    default:
+      return `Runde med ${teamsInRound} hold`
+  }
+}
+
+function generateLimitedMatches(
+  teams: Team[],
+  settings: TournamentSettings,
+  config: SchedulingConfig,
+  capToEndTime: boolean
 ): { matches: Match[]; byes: ByeInfo[]; warnings: string[] } {
   const warnings: string[] = []
   const maxPerTeam = config.maxMatchesPerTeam || 3
-  const maxTotal = config.maxTotalMatches || Infinity
+  let maxTotal = config.maxTotalMatches || Infinity
+
+  // Never plan more matches than can finish before the hard end time
+  const capacity = capToEndTime ? getEndTimeCapacity(settings) : undefined
+  const wanted = Math.min(maxTotal, Math.ceil((teams.length * maxPerTeam) / 2))
+  if (capacity && capacity.matches > 0 && wanted > capacity.matches) {
+    maxTotal = capacity.matches
+    warnings.push(
+      `Maks totale kampe er sat til ${capacity.matches}, så alle kampe kan nå at blive spillet inden ${formatTime(capacity.end)}`
+    )
+  }
 
   const excludedPairings = new Set(
     (config.excludedMatchups || []).map(([a, b]) => [a, b].sort().join('-'))
@@ -316,8 +1568,11 @@ function generateLimitedMatches(
 
   for (let round = 0; round < N - 1; round++) {
     for (let match = 0; match < N / 2; match++) {
-      const homeIdx = match === 0 ? teamIndexes[0] : teamIndexes[match]
-      const awayIdx = match === 0 ? teamIndexes[N - 1] : teamIndexes[N - 1 - match]
+      // The fixed team alternates between home and away, as in
+      // createRoundRobinCandidates
+      const flipFixed = match === 0 && round % 2 === 1
+      const homeIdx = flipFixed ? teamIndexes[N - 1] : teamIndexes[match]
+      const awayIdx = flipFixed ? teamIndexes[0] : teamIndexes[N - 1 - match]
       const homeTeam = workingTeams[homeIdx]
       const awayTeam = workingTeams[awayIdx]
 
@@ -339,6 +1594,53 @@ function generateLimitedMatches(
   const teamCounts = new Map(teams.map(t => [t.id, 0]))
   const selectedMatches: CandidateMatch[] = []
 
+  // Pinned matchups are always played; the selection fills in around them
+  const pins = config.pinnedMatches || []
+  for (const pin of pins) {
+    const pinned = candidates.find(c => !c.selected && isPinnedPair(c.home, c.away, pin))
+    if (!pinned) continue
+    pinned.selected = true
+    selectedMatches.push(pinned)
+    teamCounts.set(pinned.home.id, (teamCounts.get(pinned.home.id) || 0) + 1)
+    teamCounts.set(pinned.away.id, (teamCounts.get(pinned.away.id) || 0) + 1)
+  }
+
+  // Required matchups (e.g. local derbies) come next, as far as the caps allow
+  const requiredPairings = new Set(
+    (config.requiredMatchups || []).map(([a, b]) => [a, b].sort().join('-'))
+  )
+  const isRequired = (m: RoundCandidate) => requiredPairings.has(getPairingKey(m))
+  for (const [a, b] of config.requiredMatchups || []) {
+    const key = [a, b].sort().join('-')
+    if (selectedMatches.some(m => getPairingKey(m) === key)) continue
+    const required = candidates.find(c => getPairingKey(c) === key)
+    if (!required) {
+      const [first, second] = [a, b].map(id => teams.find(t => t.id === id))
+      warnings.push(
+        first && second && excludedPairings.has(key)
+          ? `${first.name} og ${second.name} skulle mødes, men parret er også udelukket fra at spille mod hinanden`
+          : 'Et holdpar der skulle mødes, findes ikke blandt holdene'
+      )
+      continue
+    }
+    if (
+      selectedMatches.length >= maxTotal ||
+      (teamCounts.get(required.home.id) || 0) >= maxPerTeam ||
+      (teamCounts.get(required.away.id) || 0) >= maxPerTeam
+    ) {
+      const [first, second] =
+        required.home.id === a ? [required.home, required.away] : [required.away, required.home]
+      warnings.push(
+        `${first.name} og ${second.name} skulle mødes, men der er ikke plads til kampen inden for det maksimale antal kampe`
+      )
+      continue
+    }
+    required.selected = true
+    selectedMatches.push(required)
+    teamCounts.set(required.home.id, (teamCounts.get(required.home.id) || 0) + 1)
+    teamCounts.set(required.away.id, (teamCounts.get(required.away.id) || 0) + 1)
+  }
+
   let madeProgress = true
   while (madeProgress && selectedMatches.length < maxTotal) {
     madeProgress = false
@@ -482,6 +1784,8 @@ function generateLimitedMatches(
     let best: Augmentation | null = null
 
     for (const m of selectedMatches) {
+      if (pins.some(pin => isPinnedPair(m.home, m.away, pin))) continue
+      if (isRequired(m) && (pairUsage.get(getPairingKey(m)) || 0) === 1) continue
       for (const [u, v] of underPairs) {
         const inMatch = (t: Team) => t.id === m.home.id || t.id === m.away.id
         if (inMatch(u) || inMatch(v)) continue
@@ -536,24 +1840,42 @@ function generateLimitedMatches(
   if (excludedPairings.size > 0) {
     warnings.push(`${excludedPairings.size} holdpar er udelukket fra at spille mod hinanden`)
   }
+  // Only the required pairs that kept their match, after the caps and repairs
+  const placedRequired = [...requiredPairings].filter(key => (pairUsage.get(key) || 0) > 0).length
+  if (placedRequired > 0) {
+    warnings.push(`${placedRequired} holdpar er sikret en kamp mod hinanden`)
+  }
 
   if (selectedMatches.length === 0) {
     warnings.push('Ingen kampe kunne planlægges med de valgte begrænsninger')
     return { matches: [], byes: [], warnings }
   }
 
-  // Warn when constraints leave some teams with fewer matches than others
+  // Warn when constraints leave some teams with fewer matches than others or,
+  // unless the total cap is what stops them, than the target per team
   const finalCounts = teams.map(t => teamCounts.get(t.id) || 0)
-  const maxAchieved = Math.max(...finalCounts)
-  const shortedTeams = teams.filter(t => (teamCounts.get(t.id) || 0) < maxAchieved)
+  const capped = selectedMatches.length >= maxTotal
+  const expected = capped ? Math.max(...finalCounts) : maxPerTeam
+  const shortedTeams = teams.filter(t => (teamCounts.get(t.id) || 0) < expected)
   if (shortedTeams.length > 0) {
     const details = shortedTeams
-      .map(t => `${t.name} (${teamCounts.get(t.id) || 0} af ${maxAchieved})`)
+      .map(t => `${t.name} (${teamCounts.get(t.id) || 0} af ${expected})`)
       .join(', ')
-    warnings.push(`Følgende hold spiller færre kampe end de andre pga. begrænsninger: ${details}`)
+    warnings.push(
+      capped
+        ? `Følgende hold spiller færre kampe end de andre pga. begrænsninger: ${details}`
+        : `Følgende hold spiller færre kampe end de ${maxPerTeam} ønskede pga. begrænsninger: ${details}`
+    )
   }
 
-  const { matches, byes } = buildScheduleFromCandidates(selectedMatches, teams, settings)
+  const { matches, byes } = buildScheduleFromCandidates(
+    selectedMatches,
+    teams,
+    settings,
+    config.minRestSlots,
+    pins,
+    config.pitchStrategy
+  )
 
   return { matches, byes, warnings }
 }
@@ -567,7 +1889,8 @@ function generateLimitedMatches(
  */
 function reorderRoundsToMinimizeConsecutiveByes(
   roundGroups: RoundCandidate[][],
-  teams: Team[]
+  teams: Team[],
+  minRestSlots = 0
 ): RoundCandidate[][] {
   if (roundGroups.length <= 1) return roundGroups
 
@@ -587,6 +1910,20 @@ function reorderRoundsToMinimizeConsecutiveByes(
   const pairingSets: Set<string>[] = roundGroups.map(round => {
     return new Set(round.map(match => getPairingKey(match)))
   })
+  const playingSets: Set<string>[] = roundGroups.map(
+    round => new Set(round.flatMap(match => [match.home.id, match.away.id]))
+  )
+
+  // Slots within the rest window before position `length` that share a team with slot i
+  function restClashes(ordering: number[], length: number, i: number): number {
+    let clashes = 0
+    for (let back = 1; back <= minRestSlots && length - back >= 0; back++) {
+      for (const id of playingSets[i]) {
+        if (playingSets[ordering[length - back]].has(id)) clashes++
+      }
+    }
+    return clashes
+  }
 
   function hasOverlap(set1: Set<string>, set2: Set<string>): boolean {
     for (const id of set2) {
@@ -607,6 +1944,9 @@ function reorderRoundsToMinimizeConsecutiveByes(
   // Backtracking: find an ordering with no consecutive byes or immediate
   // rematches. Pass 1 (requireNonIncreasingSizes) also demands slot sizes
   // never grow along the schedule, forcing under-filled slots to the end.
+  // With a minimum rest, no team may play again within minRestSlots slots;
+  // resting teams are idle in consecutive slots by design, so consecutive
+  // byes are allowed then.
   function search(requireNonIncreasingSizes: boolean): number[] | null {
     let nodes = 0
     let aborted = false
@@ -628,8 +1968,9 @@ function reorderRoundsToMinimizeConsecutiveByes(
           if (requireNonIncreasingSizes && roundGroups[i].length > roundGroups[prev].length) {
             continue
           }
-          if (hasOverlap(idleSets[prev], idleSets[i])) continue
+          if (minRestSlots === 0 && hasOverlap(idleSets[prev], idleSets[i])) continue
           if (hasOverlap(pairingSets[prev], pairingSets[i])) continue
+          if (restClashes(ordering, ordering.length, i) > 0) continue
         }
 
         ordering.push(i)
@@ -651,7 +1992,8 @@ function reorderRoundsToMinimizeConsecutiveByes(
     return result.map(i => roundGroups[i])
   }
 
-  // Fallback: greedy ordering (minimize consecutive byes/rematches when perfect ordering impossible)
+  // Fallback: greedy ordering (minimize rest clashes, then consecutive
+  // byes/rematches when perfect ordering impossible)
   function consecutiveByeCount(idle1: Set<string>, idle2: Set<string>): number {
     let count = 0
     for (const id of idle2) {
@@ -679,6 +2021,7 @@ function reorderRoundsToMinimizeConsecutiveByes(
 
     for (let i = 0; i < available.length; i++) {
       const score =
+        restClashes(ordered, ordered.length, available[i]) * 1000000 +
         consecutiveByeCount(prevIdle, idleSets[available[i]]) * 10000 +
         consecutivePairingCount(prevPairings, pairingSets[available[i]]) * 100 +
         (maxSlotSize - roundGroups[available[i]].length)
@@ -745,12 +2088,23 @@ function computeIdleTeams(matches: Match[], teams: Team[]): ByeInfo[] {
  * start simultaneously, the next slot begins after the previous one plus the
  * configured break — so pitches stay in sync, teams always get at least the
  * break between matches, and the schedule never has overlapping odd start
- * times across pitches.
+ * times across pitches. A slot that would overlap a scheduled break starts
+ * when the break ends, and one that would run past the day's end time moves
+ * to the start of the next tournament day. Pass startAt to append slots after
+ * an existing schedule instead of starting at the tournament start time.
+ * Rolling start times are made from these slots afterwards by rollMatches,
+ * which lets each pitch run on without waiting for the rest of the slot.
  */
-function assignTimeSlots(matches: Match[], settings: TournamentSettings): Match[] {
+function assignTimeSlots(
+  matches: Match[],
+  settings: TournamentSettings,
+  startAt?: Date,
+  pitchStrategy: PitchStrategy = 'in-order',
+  history: PitchHistory = createPitchHistory()
+): Match[] {
   const matchDuration = calculateMatchDuration(settings)
 
-  const startDateTime = new Date(`${settings.startDate}T${settings.startTime}`)
+  const startDateTime = startAt ?? getTournamentStart(settings)
 
   // Bug fix: Validate that the constructed date is valid
   if (isNaN(startDateTime.getTime())) {
@@ -766,24 +2120,54 @@ function assignTimeSlots(matches: Match[], settings: TournamentSettings): Match[
     if (!slotMap.has(key)) slotMap.set(key, [])
     slotMap.get(key)!.push(match)
   }
-  const slots = Array.from(slotMap.entries())
-    .sort((a, b) => a[0] - b[0])
-    .map(([, slotMatches]) => slotMatches)
+  const slots = Array.from(slotMap.entries()).sort((a, b) => a[0] - b[0])
 
   let slotStart = new Date(startDateTime)
-  for (const slot of slots) {
-    // Slots are packed to numPitches upstream; chunk defensively in case a
-    // slot ever holds more matches than pitches
-    for (let offset = 0; offset < slot.length; offset += settings.numPitches) {
-      const chunk = slot.slice(offset, offset + settings.numPitches)
+  let previousRound = -1
+  for (const [round, slot] of slots) {
+    // Rounds missing from the sequence are empty slots the schedule waits out
+    for (let skipped = round - previousRound - 1; skipped > 0; skipped--) {
+      slotStart = new Date(
+        getPlayableStart(settings, slotStart, matchDuration).getTime() +
+          (matchDuration + settings.breakBetweenMatches) * 60000
+      )
+    }
+    previousRound = round
+
+    // Slots are packed to the open pitches upstream; chunk defensively in
+    // case a slot ever holds more matches than pitches
+    let offset = 0
+    while (offset < slot.length) {
+      slotStart = getPlayableStart(settings, slotStart, matchDuration)
       const slotEnd = new Date(slotStart.getTime() + matchDuration * 60000)
+      const openPitches = getOpenPitches(settings, slotStart, slotEnd)
+
+      if (
+        openPitches.length === 0 &&
+        (pitchOpensLater(settings, slotStart) || hasLaterDay(settings, slotStart))
+      ) {
+        // Every pitch is closed right now; wait for the next one to open
+        slotStart = new Date(slotEnd.getTime() + settings.breakBetweenMatches * 60000)
+        continue
+      }
+
+      // Once all pitches have closed for good, overflow onto every pitch and
+      // let findPitchViolations report it
+      const pitches =
+        openPitches.length > 0
+          ? openPitches
+          : Array.from({ length: settings.numPitches }, (_, i) => i + 1)
+      const chunk = slot.slice(offset, offset + pitches.length)
+      const chunkPitches = choosePitches(chunk, pitches, pitchStrategy, history)
 
       chunk.forEach((match, i) => {
-        match.pitch = i + 1
+        match.pitch = chunkPitches[i]
         match.startTime = new Date(slotStart)
         match.endTime = new Date(slotEnd)
+        recordPitch(history, match)
       })
 
+      offset += chunk.length
       slotStart = new Date(slotEnd.getTime() + settings.breakBetweenMatches * 60000)
     }
   }
@@ -791,6 +2175,462 @@ function assignTimeSlots(matches: Match[], settings: TournamentSettings): Match[
   return matches.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
 }
 
+/** Where each team has played so far, for the pitch strategies. */
+interface PitchHistory {
+  counts: Map<string, number[]>
+  last: Map<string, number>
+}
+
+function createPitchHistory(matches: Match[] = []): PitchHistory {
+  const history: PitchHistory = { counts: new Map(), last: new Map() }
+  const chronological = [...matches].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  for (const match of chronological) recordPitch(history, match)
+  return history
+}
+
+function recordPitch(history: PitchHistory, match: Match) {
+  for (const team of [match.homeTeam, match.awayTeam]) {
+    const counts = history.counts.get(team.id) ?? []
+    counts[match.pitch - 1] = (counts[match.pitch - 1] ?? 0) + 1
+    history.counts.set(team.id, counts)
+    history.last.set(team.id, match.pitch)
+  }
+}
+
+/**
+ * Cost of putting a match on a pitch: 'rotate' prefers the pitch both teams
+ * have played on the least, 'stay' the pitch they played their previous
+ * match on. 'in-order' has no preference, which keeps the lowest pitches.
+ */
+function pitchCost(
+  strategy: PitchStrategy,
+  history: PitchHistory,
+  match: Match,
+  pitch: number
+): number {
+  const teams = [match.homeTeam, match.awayTeam]
+  if (strategy === 'rotate') {
+    return teams.reduce((sum, team) => sum + (history.counts.get(team.id)?.[pitch - 1] ?? 0), 0)
+  }
+  if (strategy === 'stay') {
+    return teams.filter(team => {
+      const last = history.last.get(team.id)
+      return last !== undefined && last !== pitch
+    }).length
+  }
+  return 0
+}
+
+/**
+ * Pitches for the matches of one slot. 'in-order' gives the i-th match the
+ * i-th pitch; the other strategies repeatedly take the cheapest remaining
+ * match and pitch pair, ties going to the earlier match and lower pitch.
+ */
+function choosePitches(
+  chunk: Match[],
+  pitches: number[],
+  strategy: PitchStrategy,
+  history: PitchHistory
+): number[] {
+  if (strategy === 'in-order') return chunk.map((_, i) => pitches[i])
+
+  const chosen: number[] = []
+  const pending = chunk.map((_, i) => i)
+  const free = [...pitches]
+  while (pending.length > 0) {
+    let best = { index: pending[0], pitch: free[0], cost: Infinity }
+    for (const index of pending) {
+      for (const pitch of free) {
+        const cost = pitchCost(strategy, history, chunk[index], pitch)
+        if (cost < best.cost) best = { index, pitch, cost }
+      }
+    }
+    chosen[best.index] = best.pitch
+    pending.splice(pending.indexOf(best.index), 1)
+    free.splice(free.indexOf(best.pitch), 1)
+  }
+  return chosen
+}
+
+function getTournamentStart(settings: TournamentSettings): Date {
+  return new Date(`${settings.startDate}T${settings.startTime}`)
+}
+
+/** The given "HH:MM" on the same calendar day as day. */
+function getTimeOnDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = new Date(day)
+  result.setHours(hours, minutes, 0, 0)
+  return result
+}
+
+/**
+ * Scheduled breaks on the days the matches are played, in chronological
+ * order. Without matches, breaks on the tournament start date are returned.
+ */
+export function getBreakPeriods(matches: Match[], settings: TournamentSettings): BreakPeriod[] {
+  if (!settings.breaks?.length) return []
+
+  const days = new Map<string, Date>()
+  for (const match of matches) {
+    days.set(match.startTime.toDateString(), match.startTime)
+  }
+  if (days.size === 0) {
+    const start = getTournamentStart(settings)
+    days.set(start.toDateString(), start)
+  }
+
+  return Array.from(days.values())
+    .flatMap(day =>
+      settings.breaks!.map(scheduledBreak => {
+        const startTime = getTimeOnDay(day, scheduledBreak.startTime)
+        return {
+          label: scheduledBreak.label,
+          startTime,
+          endTime: new Date(startTime.getTime() + scheduledBreak.durationMinutes * 60000),
+        }
+      })
+    )
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+}
+
+/**
+ * Earliest start from the given time at which a match of the given length
+ * neither overlaps a scheduled break nor runs past its day's end time.
+ */
+function getPlayableStart(
+  settings: TournamentSettings,
+  start: Date,
+  durationMinutes: number
+): Date {
+  let slotStart = start
+  for (;;) {
+    const next = rollToTournamentDay(
+      settings,
+      skipBreaks(settings, slotStart, durationMinutes),
+      durationMinutes
+    )
+    if (next.getTime() === slotStart.getTime()) return slotStart
+    slotStart = next
+  }
+}
+
+/**
+ * Room before the hard end time, i.e. the end of the last tournament day: the
+ * slots that start and finish in time (with at least one open pitch) and the
+ * matches they hold across the open pitches. Undefined without tournament
+ * days, when the day is open-ended.
+ */
+export function getEndTimeCapacity(settings: TournamentSettings): EndTimeCapacity | undefined {
+  const days = getTournamentDays(settings)
+  const duration = calculateMatchDuration(settings)
+  if (days.length === 0 || duration <= 0) return undefined
+
+  const end = days[days.length - 1].end
+  let slots = 0
+  let matches = 0
+  let slotStart = getTournamentStart(settings)
+  for (;;) {
+    slotStart = getPlayableStart(settings, slotStart, duration)
+    const slotEnd = new Date(slotStart.getTime() + duration * 60000)
+    if (slotEnd > end) break
+
+    const openPitches = getOpenPitches(settings, slotStart, slotEnd).length
+    if (openPitches > 0) {
+      slots++
+      matches += openPitches
+    }
+    slotStart = new Date(slotEnd.getTime() + settings.breakBetweenMatches * 60000)
+  }
+  return { end, slots, matches }
+}
+
+/**
+ * Ways to finish before the hard end time when the matches overrun it: how
+ * many matches fit as it stands and, given the number of slots the schedule
+ * needs, the longest match (or half) that would let every slot finish.
+ */
+function getEndTimeSuggestions(
+  matches: Match[],
+  settings: TournamentSettings,
+  slotsNeeded?: number
+): string[] {
+  const capacity = getEndTimeCapacity(settings)
+  if (!capacity || !matches.some(match => match.endTime > capacity.end)) return []
+
+  const end = formatTime(capacity.end)
+  const lastEnd = new Date(Math.max(...matches.map(match => match.endTime.getTime())))
+  const overrun = Math.round((lastEnd.getTime() - capacity.end.getTime()) / 60000)
+  const inTime = matches.filter(match => match.endTime <= capacity.end).length
+  const suggestions = [
+    `Skemaet slutter kl. ${formatTime(lastEnd)}, ${overrun} min efter sluttidspunktet ${end}`,
+    `${inTime} af ${matches.length} kampe når at blive spillet inden ${end}. Spil færre kampe, f.eks. med begrænset antal kampe og maks ${capacity.matches} kampe i alt`,
+  ]
+
+  if (slotsNeeded !== undefined) {
+    const isFullTime = settings.matchMode === 'full-time'
+    const current = isFullTime
+      ? calculateMatchDuration(settings)
+      : settings.halfDurationMinutes || 15
+    for (let length = current - 1; length >= 1; length--) {
+      const shorter = isFullTime
+        ? { ...settings, matchDurationMinutes: length }
+        : { ...settings, halfDurationMinutes: length }
+      if ((getEndTimeCapacity(shorter)?.slots ?? 0) >= slotsNeeded) {
+        suggestions.push(
+          isFullTime
+            ? `Med kampe på ${length} min når alle kampe at slutte inden ${end}`
+            : `Med halvlege på ${length} min når alle kampe at slutte inden ${end}`
+        )
+        break
+      }
+    }
+  }
+
+  return suggestions
+}
+
+/** Start and end of each tournament day; empty for a single open-ended day. */
+function getTournamentDays(settings: TournamentSettings): { start: Date; end: Date }[] {
+  return (settings.days || []).map(day => ({
+    start: new Date(`${day.date}T${day.startTime}`),
+    end: new Date(`${day.date}T${day.endTime}`),
+  }))
+}
+
+/**
+ * Moves start into the first tournament day with room for the whole match.
+ * Past the last day the match stays where it is and findDayViolations
+ * reports it.
+ */
+function rollToTournamentDay(
+  settings: TournamentSettings,
+  start: Date,
+  durationMinutes: number
+): Date {
+  for (const day of getTournamentDays(settings)) {
+    const dayStart = start > day.start ? start : day.start
+    if (dayStart.getTime() + durationMinutes * 60000 <= day.end.getTime()) return dayStart
+  }
+  return start
+}
+
+/** True if another tournament day starts after the given time. */
+function hasLaterDay(settings: TournamentSettings, time: Date): boolean {
+  return getTournamentDays(settings).some(day => day.start > time)
+}
+
+/** Moves start past every scheduled break a match of the given length would overlap. */
+function skipBreaks(settings: TournamentSettings, start: Date, durationMinutes: number): Date {
+  let slotStart = start
+  let moved = true
+  while (moved) {
+    moved = false
+    for (const scheduledBreak of settings.breaks || []) {
+      const breakStart = getTimeOnDay(slotStart, scheduledBreak.startTime)
+      const breakEnd = new Date(breakStart.getTime() + scheduledBreak.durationMinutes * 60000)
+      const slotEnd = new Date(slotStart.getTime() + durationMinutes * 60000)
+      if (slotStart < breakEnd && slotEnd > breakStart) {
+        slotStart = breakEnd
+        moved = true
+      }
+    }
+  }
+  return slotStart
+}
+
+function hasAvailabilityWindow(window: AvailabilityWindow | undefined): boolean {
+  return Boolean(window?.availableFrom || window?.availableUntil)
+}
+
+function hasPitchWindows(settings: TournamentSettings): boolean {
+  return (settings.pitchWindows || []).slice(0, settings.numPitches).some(hasAvailabilityWindow)
+}
+
+/** True if the whole of [start, end] lies inside the window (on start's day). */
+function isWithinWindow(window: AvailabilityWindow | undefined, start: Date, end: Date): boolean {
+  return (
+    (!window?.availableFrom || start >= getTimeOnDay(start, window.availableFrom)) &&
+    (!window?.availableUntil || end <= getTimeOnDay(start, window.availableUntil))
+  )
+}
+
+/** Human-readable availability window, e.g. "11:00-14:00" or "fra 11:00". */
+export function formatAvailabilityWindow(window: AvailabilityWindow): string {
+  if (window.availableFrom && window.availableUntil) {
+    return `${window.availableFrom}-${window.availableUntil}`
+  }
+  return window.availableFrom ? `fra ${window.availableFrom}` : `til ${window.availableUntil}`
+}
+
+/** Pitch numbers open for a whole match from start to end. */
+function getOpenPitches(settings: TournamentSettings, start: Date, end: Date): number[] {
+  return Array.from({ length: settings.numPitches }, (_, i) => i + 1).filter(pitch =>
+    isWithinWindow(settings.pitchWindows?.[pitch - 1], start, end)
+  )
+}
+
+/** True if some pitch opens after the given time on the same day. */
+function pitchOpensLater(settings: TournamentSettings, time: Date): boolean {
+  return (settings.pitchWindows || [])
+    .slice(0, settings.numPitches)
+    .some(window => window?.availableFrom && getTimeOnDay(time, window.availableFrom) > time)
+}
+
+/** One violation per match that does not fit inside one of the tournament days. */
+function findDayViolations(matches: Match[], settings: TournamentSettings): ScheduleViolation[] {
+  const days = getTournamentDays(settings)
+  if (days.length === 0) return []
+
+  // The end of the last day is the hard end time, e.g. when the pitch rental ends
+  const end = days[days.length - 1].end
+  return matches
+    .filter(match => !days.some(day => match.startTime >= day.start && match.endTime <= day.end))
+    .map(match => ({
+      type: 'day-hours',
+      message:
+        match.endTime > end
+          ? `${match.homeTeam.name} mod ${match.awayTeam.name} kl. ${formatTime(match.startTime)}-${formatTime(match.endTime)} slutter efter sluttidspunktet ${formatTime(end)}`
+          : `${match.homeTeam.name} mod ${match.awayTeam.name} kl. ${formatTime(match.startTime)} ligger uden for turneringsdagenes spilletid`,
+      matchId: match.id,
+    }))
+}
+
+/** One violation per pin the generator could not honour. */
+function findPinViolations(
+  matches: Match[],
+  settings: TournamentSettings,
+  pins: PinnedMatch[],
+  teams: Team[]
+): ScheduleViolation[] {
+  const teamName = (id: string) => teams.find(t => t.id === id)?.name ?? id
+  return pins.flatMap((pin): ScheduleViolation[] => {
+    const description = `Fastlåst kamp ${teamName(pin.homeTeamId)} mod ${teamName(pin.awayTeamId)}`
+    const match = findPinnedMatch(matches, pin)
+    if (!match) {
+      return [{ type: 'pinned-match', message: `${description} er ikke med i skemaet` }]
+    }
+    const problems = [
+      ...(pin.slot !== undefined && match.round !== pin.slot ? [`i runde ${pin.slot + 1}`] : []),
+      ...(pin.pitch !== undefined && match.pitch !== pin.pitch
+        ? [`på ${getPitchName(pin.pitch, settings)}`]
+        : []),
+    ]
+    if (problems.length === 0) return []
+    return [
+      {
+        type: 'pinned-match',
+        message: `${description} kunne ikke placeres ${problems.join(' ')}`,
+        matchId: match.id,
+      },
+    ]
+  })
+}
+
+/** One violation per match placed on a pitch outside its opening hours. */
+function findPitchViolations(matches: Match[], settings: TournamentSettings): ScheduleViolation[] {
+  if (!hasPitchWindows(settings)) return []
+
+  return matches
+    .filter(
+      match =>
+        !isWithinWindow(settings.pitchWindows?.[match.pitch - 1], match.startTime, match.endTime)
+    )
+    .map(match => ({
+      type: 'pitch-availability',
+      message: `${match.homeTeam.name} mod ${match.awayTeam.name} kl. ${formatTime(match.startTime)} ligger uden for åbningstiden for ${getPitchName(match.pitch, settings)} (${formatAvailabilityWindow(settings.pitchWindows![match.pitch - 1])})`,
+      matchId: match.id,
+    }))
+}
+
+/**
+ * One violation per match a team starts with fewer than minRestSlots empty
+ * slots since its previous match. Measured in time, so it also holds once
+ * slots have been moved around.
+ */
+function findRestViolations(
+  matches: Match[],
+  settings: TournamentSettings,
+  minRestSlots: number
+): ScheduleViolation[] {
+  if (minRestSlots <= 0) return []
+
+  const slotLength = calculateMatchDuration(settings) + settings.breakBetweenMatches
+  const requiredGap = (minRestSlots * slotLength + settings.breakBetweenMatches) * 60000
+  const violations: ScheduleViolation[] = []
+  const lastMatch = new Map<string, Match>()
+
+  for (const match of [...matches].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())) {
+    for (const team of [match.homeTeam, match.awayTeam]) {
+      const previous = lastMatch.get(team.id)
+      if (previous && match.startTime.getTime() - previous.endTime.getTime() < requiredGap) {
+        violations.push({
+          type: 'min-rest',
+          message: `${team.name} spiller kl. ${formatTime(previous.startTime)} og igen kl. ${formatTime(match.startTime)} med mindre end ${minRestSlots} ${minRestSlots === 1 ? 'rundes' : 'runders'} pause`,
+          matchId: match.id,
+          teamId: team.id,
+        })
+      }
+      lastMatch.set(team.id, match)
+    }
+  }
+  return violations
+}
+
+/** Rest violations within each division, under the division's own minimum rest. */
+function findDivisionRestViolations(
+  matches: Match[],
+  settings: TournamentSettings,
+  divisions: Division[]
+): ScheduleViolation[] {
+  return divisions.flatMap(division =>
+    findRestViolations(
+      matches.filter(m => m.division === division.name),
+      getDivisionSettings(settings, division),
+      division.schedulingConfig.minRestSlots ?? 0
+    )
+  )
+}
+
+/**
+ * The shortest time a team needs between the end of a match and the start of
+ * its next one: the break plus the minimum rest of the match's config, or of
+ * its division's config.
+ */
+function getRestGap(
+  match: Match,
+  settings: TournamentSettings,
+  config?: SchedulingConfig,
+  divisions: Division[] = []
+): number {
+  const division = divisions.find(d => d.name === match.division)
+  const matchSettings = division ? getDivisionSettings(settings, division) : settings
+  const minRestSlots = (division?.schedulingConfig ?? config)?.minRestSlots ?? 0
+  const slotLength = calculateMatchDuration(matchSettings) + matchSettings.breakBetweenMatches
+  return (minRestSlots * slotLength + matchSettings.breakBetweenMatches) * 60000
+}
+
+/** One violation per team playing (partly) outside its availability window. */
+function findAvailabilityViolations(
+  matches: Match[],
+  settings: TournamentSettings
+): ScheduleViolation[] {
+  const violations: ScheduleViolation[] = []
+  for (const match of matches) {
+    for (const team of [match.homeTeam, match.awayTeam]) {
+      if (!isWithinWindow(team, match.startTime, match.endTime)) {
+        violations.push({
+          type: 'team-availability',
+          message: `${team.name} spiller kl. ${formatTime(match.startTime)} på ${getPitchName(match.pitch, settings)}, uden for holdets tidsvindue (${formatAvailabilityWindow(team)})`,
+          matchId: match.id,
+          teamId: team.id,
+        })
+      }
+    }
+  }
+  return violations
+}
+
 function calculateMatchDuration(settings: TournamentSettings): number {
   if (settings.matchMode === 'full-time') {
     return settings.matchDurationMinutes || 30
@@ -801,59 +2641,444 @@ function calculateMatchDuration(settings: TournamentSettings): number {
   }
 }
 
+/**
+ * One conflict per run of overlapping matches a team plays in. Matches clash
+ * when their times overlap, not only when they share a start time, since
+ * divisions and rolling start times put matches at odd times.
+ */
 function detectConflicts(matches: Match[]): ScheduleConflict[] {
   const conflicts: ScheduleConflict[] = []
-  const teamMatchesByTime = new Map<string, Map<string, Match[]>>()
+  const teamMatches = new Map<string, { team: Team; matches: Match[] }>()
 
   for (const match of matches) {
-    const timeKey = match.startTime.toISOString()
-
     for (const team of [match.homeTeam, match.awayTeam]) {
-      if (!teamMatchesByTime.has(team.id)) {
-        teamMatchesByTime.set(team.id, new Map())
+      if (!teamMatches.has(team.id)) {
+        teamMatches.set(team.id, { team, matches: [] })
       }
-      const teamTimes = teamMatchesByTime.get(team.id)!
-      if (!teamTimes.has(timeKey)) {
-        teamTimes.set(timeKey, [])
+      teamMatches.get(team.id)!.matches.push(match)
+    }
+  }
+
+  for (const { team, matches: own } of teamMatches.values()) {
+    const ordered = [...own].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    let run: Match[] = []
+    let runEnd = 0
+    for (const match of ordered) {
+      if (run.length > 0 && match.startTime.getTime() < runEnd) {
+        run.push(match)
+        runEnd = Math.max(runEnd, match.endTime.getTime())
+        continue
       }
-      teamTimes.get(timeKey)!.push(match)
+      if (run.length > 1) conflicts.push({ team, matches: run })
+      run = [match]
+      runEnd = match.endTime.getTime()
     }
+    if (run.length > 1) conflicts.push({ team, matches: run })
   }
 
-  const processedConflicts = new Set<string>()
+  return conflicts
+}
+
+function getConflictWarning(conflicts: ScheduleConflict[]): string {
+  return `${conflicts.length} scheduling conflict(s) detected - same team playing multiple matches simultaneously`
+}
+
+/**
+ * Moves a match by hand to another start time and/or pitch. If another match
+ * already occupies that slot the two swap places. Each match keeps its own
+ * duration and takes the round of the slot it lands in. Conflicts, byes and
+ * the violations that follow from the match times are recomputed straight
+ * away, and the schedule is marked as manually edited. Referee duties the move
+ * double-books are cleared for assignReferees to fill again.
+ */
+export function moveMatch(
+  schedule: GeneratedSchedule,
+  matchId: string,
+  target: { startTime: Date; pitch: number },
+  teams: Team[],
+  settings: TournamentSettings
+): GeneratedSchedule {
+  const moving = schedule.matches.find(m => m.id === matchId)
+  if (!moving) return schedule
+  const occupant = schedule.matches.find(
+    m =>
+      m.id !== matchId &&
+      m.pitch === target.pitch &&
+      m.startTime.getTime() === target.startTime.getTime()
+  )
+  const roundAt = (time: Date) =>
+    schedule.matches.find(m => m.startTime.getTime() === time.getTime())?.round
+
+  const place = (match: Match, startTime: Date, pitch: number): Match => ({
+    ...match,
+    startTime,
+    endTime: new Date(startTime.getTime() + match.endTime.getTime() - match.startTime.getTime()),
+    pitch,
+    round: roundAt(startTime) ?? match.round,
+  })
+
+  const placed = schedule.matches.map(match => {
+    if (match.id === moving.id) return place(match, target.startTime, target.pitch)
+    if (match.id === occupant?.id) return place(match, moving.startTime, moving.pitch)
+    return match
+  })
 
-  for (const [teamId, timeMap] of teamMatchesByTime) {
-    for (const [timeKey, matchesAtTime] of timeMap) {
-      if (matchesAtTime.length > 1) {
-        const conflictKey = `${teamId}-${timeKey}`
-        if (!processedConflicts.has(conflictKey)) {
-          const team =
-            matchesAtTime[0].homeTeam.id === teamId
-              ? matchesAtTime[0].homeTeam
-              : matchesAtTime[0].awayTeam
+  const movedIds = new Set([moving.id, occupant?.id])
+  const isDoubleBooked = (match: Match) =>
+    placed.some(
+      other =>
+        other.id !== match.id &&
+        (movedIds.has(match.id) || movedIds.has(other.id)) &&
+        other.startTime < match.endTime &&
+        match.startTime < other.endTime &&
+        (other.referee?.id === match.referee!.id ||
+          other.homeTeam.id === match.referee!.teamId ||
+          other.awayTeam.id === match.referee!.teamId)
+    )
+  const matches = placed.map(match =>
+    match.referee && !match.played && isDoubleBooked(match)
+      ? { ...match, referee: undefined }
+      : match
+  )
 
-          conflicts.push({
-            team,
-            matches: matchesAtTime,
-          })
-          processedConflicts.add(conflictKey)
-        }
-      }
+  return {
+    ...recheckViolations(refreshSchedule(schedule, matches, teams), settings),
+    manuallyEdited: true,
+  }
+}
+
+/**
+ * Withdraws a team during the tournament. Its matches that are neither
+ * played nor started by `now` are removed and scored as walkovers to the
+ * opponents; matches already under way are never touched. With closeGaps,
+ * each freed slot is taken by the latest unstarted match (outside the
+ * knockout stage) of the same length whose teams are free, rested and within
+ * their time windows then, on a pitch that is open, and the slot that match
+ * leaves is filled in turn, so the program ends sooner. The minimum rest comes
+ * from config, or each division's own config. Violations are re-detected
+ * afterwards. Referee duties of the withdrawn team and of moved matches are
+ * cleared for assignReferees to fill again.
+ */
+export function withdrawTeam(
+  schedule: GeneratedSchedule,
+  teamId: string,
+  teams: Team[],
+  settings: TournamentSettings,
+  now: Date,
+  closeGaps = false,
+  config?: SchedulingConfig,
+  divisions: Division[] = []
+): GeneratedSchedule {
+  const team = teams.find(t => t.id === teamId)
+  if (!team) return schedule
+
+  const changeover = settings.breakBetweenMatches * 60000
+  const isStarted = (match: Match) => match.played || match.startTime < now
+  const involves = (match: Match, id: string) =>
+    match.homeTeam.id === id || match.awayTeam.id === id || match.referee?.teamId === id
+  const removed = schedule.matches.filter(
+    m => !isStarted(m) && (m.homeTeam.id === teamId || m.awayTeam.id === teamId)
+  )
+  const removedIds = new Set(removed.map(m => m.id))
+
+  let matches = schedule.matches
+    .filter(m => !removedIds.has(m.id))
+    .map(m => (!isStarted(m) && m.referee?.teamId === teamId ? { ...m, referee: undefined } : m))
+
+  const movedMatchIds = new Set<string>()
+  if (closeGaps) {
+    const holes = removed.map(m => ({ ...m }))
+    while (holes.length > 0) {
+      holes.sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.pitch - b.pitch)
+      const hole = holes.shift()!
+      const duration = hole.endTime.getTime() - hole.startTime.getTime()
+      // Playing needs the minimum rest around the match, refereeing the break
+      const isFree = (id: string, candidate: Match) =>
+        !matches.some(other => {
+          if (other.id === candidate.id || !involves(other, id)) return false
+          const gap =
+            other.homeTeam.id === id || other.awayTeam.id === id
+              ? getRestGap(candidate, settings, config, divisions)
+              : changeover
+          return (
+            other.startTime.getTime() < hole.endTime.getTime() + gap &&
+            other.endTime.getTime() + gap > hole.startTime.getTime()
+          )
+        })
+      const fitsWindows = (candidate: Match) =>
+        [candidate.homeTeam, candidate.awayTeam, settings.pitchWindows?.[hole.pitch - 1]].every(
+          window => isWithinWindow(window, hole.startTime, hole.endTime)
+        )
+      const candidate = matches
+        .filter(
+          m =>
+            !isStarted(m) &&
+            m.stage !== 'knockout' &&
+            m.startTime > hole.startTime &&
+            m.endTime.getTime() - m.startTime.getTime() === duration &&
+            isFree(m.homeTeam.id, m) &&
+            isFree(m.awayTeam.id, m) &&
+            fitsWindows(m)
+        )
+        .sort((a, b) => b.startTime.getTime() - a.startTime.getTime() || b.pitch - a.pitch)[0]
+      if (!candidate) continue
+
+      holes.push({ ...candidate })
+      movedMatchIds.add(candidate.id)
+      matches = matches.map(m =>
+        m.id === candidate.id
+          ? {
+              ...m,
+              startTime: hole.startTime,
+              endTime: hole.endTime,
+              pitch: hole.pitch,
+              round: hole.round,
+              referee: undefined,
+            }
+          : m
+      )
     }
   }
 
-  return conflicts
+  const withdrawal: Withdrawal = {
+    team,
+    walkovers: removed.map(match => recordWalkover(match, teamId)),
+    movedMatchIds: Array.from(movedMatchIds),
+  }
+  const withdrawals = [...(schedule.withdrawals || []), withdrawal]
+  const rechecked = recheckViolations(
+    refreshSchedule({ ...schedule, withdrawals }, matches, teams),
+    settings,
+    config,
+    divisions
+  )
+
+  return {
+    ...rechecked,
+    violations: rechecked.violations?.filter(v => !v.matchId || !removedIds.has(v.matchId)),
+    manuallyEdited: true,
+  }
+}
+
+/**
+ * Shifts the program when the day runs late: the first slot from `from` on
+ * starts `minutes` later, and each later slot starts once its pitches and
+ * teams are ready again, with at least minBreakMinutes between matches (at
+ * most the planned break). A shifted slot that would overlap a scheduled
+ * break starts when the break ends, and one that no longer fits in its day
+ * moves to the next tournament day. Shortened breaks and planned buffers such
+ * as scheduled breaks or the night between days absorb the delay, so later
+ * slots may shift less or not at all. Played matches and those before `from`
+ * keep their times; shifted matches remember the planned time from before the
+ * first delay for comparison. Violations are re-detected for the new times,
+ * minimum rest included when config is given.
+ */
+export function delaySchedule(
+  schedule: GeneratedSchedule,
+  from: Date,
+  minutes: number,
+  teams: Team[],
+  settings: TournamentSettings,
+  minBreakMinutes = settings.breakBetweenMatches,
+  config?: SchedulingConfig,
+  divisions: Division[] = []
+): GeneratedSchedule {
+  if (minutes <= 0) return schedule
+
+  const minBreak = Math.min(minBreakMinutes, settings.breakBetweenMatches) * 60000
+  const pitchReady = new Map<number, number>()
+  const teamReady = new Map<string, number>()
+  const slots = new Map<number, Match[]>()
+  for (const match of schedule.matches) {
+    if (match.played || match.startTime < from) continue
+    const key = match.startTime.getTime()
+    slots.set(key, [...(slots.get(key) || []), match])
+  }
+
+  // Slots move as a whole, so synchronized pitches stay in sync
+  const shifted = new Map<string, Match>()
+  const ordered = Array.from(slots).sort((a, b) => a[0] - b[0])
+  for (const [index, [planned, slotMatches]] of ordered.entries()) {
+    const ready = Math.max(
+      index === 0 ? planned + minutes * 60000 : planned,
+      ...slotMatches.flatMap(m => [
+        pitchReady.get(m.pitch) ?? 0,
+        teamReady.get(m.homeTeam.id) ?? 0,
+        teamReady.get(m.awayTeam.id) ?? 0,
+      ])
+    )
+    const longest = Math.max(
+      ...slotMatches.map(m => (m.endTime.getTime() - m.startTime.getTime()) / 60000)
+    )
+    const start =
+      ready === planned ? planned : getPlayableStart(settings, new Date(ready), longest).getTime()
+    for (const match of slotMatches) {
+      const endTime = new Date(start + match.endTime.getTime() - match.startTime.getTime())
+      pitchReady.set(match.pitch, endTime.getTime() + minBreak)
+      teamReady.set(match.homeTeam.id, endTime.getTime() + minBreak)
+      teamReady.set(match.awayTeam.id, endTime.getTime() + minBreak)
+      if (start === planned) continue
+      shifted.set(match.id, {
+        ...match,
+        startTime: new Date(start),
+        endTime,
+        plannedStartTime: match.plannedStartTime ?? match.startTime,
+        plannedEndTime: match.plannedEndTime ?? match.endTime,
+      })
+    }
+  }
+  if (shifted.size === 0) return schedule
+
+  const matches = schedule.matches.map(match => shifted.get(match.id) ?? match)
+  const refreshed = recheckViolations(
+    refreshSchedule(schedule, matches, teams),
+    settings,
+    config,
+    divisions
+  )
+
+  const overruns = findDayViolations(matches, settings).filter(v => shifted.has(v.matchId!))
+  const warnings = refreshed.warnings.filter(w => !w.startsWith('Forsinkelsen får'))
+  if (overruns.length > 0) {
+    const days = getTournamentDays(settings)
+    warnings.push(
+      `Forsinkelsen får ${overruns.length} kamp${overruns.length !== 1 ? 'e' : ''} til at slutte efter sluttidspunktet ${formatTime(days[days.length - 1].end)}`
+    )
+  }
+
+  return { ...refreshed, warnings }
+}
+
+/**
+ * Re-detects the violations that follow from the match times alone (team and
+ * pitch opening hours, tournament days) after matches were retimed. Given the
+ * scheduling config, minimum rest is re-detected too, per division when there
+ * are divisions; pins are kept.
+ */
+function recheckViolations(
+  schedule: GeneratedSchedule,
+  settings: TournamentSettings,
+  config?: SchedulingConfig,
+  divisions: Division[] = []
+): GeneratedSchedule {
+  const rechecked = new Set(['team-availability', 'pitch-availability', 'day-hours'])
+  if (config) rechecked.add('min-rest')
+  const stale = new Set(
+    (schedule.violations || []).filter(v => rechecked.has(v.type)).map(v => v.message)
+  )
+  const found = [
+    ...findAvailabilityViolations(schedule.matches, settings),
+    ...findPitchViolations(schedule.matches, settings),
+    ...findDayViolations(schedule.matches, settings),
+    ...(config
+      ? divisions.length > 0
+        ? findDivisionRestViolations(schedule.matches, settings, divisions)
+        : findRestViolations(schedule.matches, settings, config.minRestSlots ?? 0)
+      : []),
+  ]
+
+  return {
+    ...schedule,
+    violations: [...(schedule.violations || []).filter(v => !rechecked.has(v.type)), ...found],
+    warnings: [...schedule.warnings.filter(w => !stale.has(w)), ...found.map(v => v.message)],
+  }
+}
+
+/** The teams still in the tournament, i.e. all but the schedule's withdrawn teams. */
+export function getActiveTeams(schedule: GeneratedSchedule, teams: Team[]): Team[] {
+  const withdrawnIds = new Set((schedule.withdrawals || []).map(w => w.team.id))
+  return teams.filter(t => !withdrawnIds.has(t.id))
+}
+
+/**
+ * Re-sorts edited matches and recomputes byes and conflicts for them. Withdrawn
+ * teams are left out of the byes and, as in the generator, so are the knockout
+ * slots.
+ */
+function refreshSchedule(
+  schedule: GeneratedSchedule,
+  editedMatches: Match[],
+  allTeams: Team[]
+): GeneratedSchedule {
+  const teams = getActiveTeams(schedule, allTeams)
+  const matches = [...editedMatches].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime() || a.pitch - b.pitch
+  )
+
+  // Divisions idle only against their own teams
+  const divisions = Array.from(new Set(matches.map(m => m.division)))
+  const byes = divisions.flatMap(division => {
+    const divisionMatches = matches.filter(m => m.division === division && m.stage !== 'knockout')
+    const teamIds = new Set(divisionMatches.flatMap(m => [m.homeTeam.id, m.awayTeam.id]))
+    return computeIdleTeams(
+      divisionMatches,
+      division ? teams.filter(t => teamIds.has(t.id)) : teams
+    )
+  })
+
+  const conflicts = detectConflicts(matches)
+  const warnings = schedule.warnings.filter(
+    w => schedule.conflicts.length === 0 || w !== getConflictWarning(schedule.conflicts)
+  )
+  if (conflicts.length > 0) {
+    warnings.push(getConflictWarning(conflicts))
+  }
+
+  return { ...schedule, matches, conflicts, warnings, byes }
 }
 
 export function exportToCSV(matches: Match[], settings: TournamentSettings): string {
-  const headers = ['Time', 'Pitch', 'Home Team', 'Away Team', 'End Time'].map(escapeCsvField)
-  const rows = matches.map(m => [
-    escapeCsvField(formatTime(m.startTime)),
-    escapeCsvField(getPitchName(m.pitch, settings)),
-    escapeCsvField(m.homeTeam.name),
-    escapeCsvField(m.awayTeam.name),
-    escapeCsvField(formatTime(m.endTime)),
-  ])
+  const hasLabels = matches.some(m => getMatchLabel(m))
+  const hasDivisions = matches.some(m => m.division)
+  const hasReferees = matches.some(m => m.referee)
+  const isMultiDay = isMultiDaySchedule(matches)
+  const breaks = getBreakPeriods(matches, settings)
+  const headers = [
+    ...(isMultiDay ? ['Date'] : []),
+    'Time',
+    'Pitch',
+    'Home Team',
+    'Away Team',
+    'End Time',
+    ...(hasDivisions ? ['Division'] : []),
+    ...(hasReferees ? ['Referee'] : []),
+    ...(hasLabels ? ['Stage'] : []),
+    ...(breaks.length > 0 ? ['Break'] : []),
+  ].map(escapeCsvField)
+  const matchRows = matches.map(m => ({
+    time: m.startTime,
+    cells: [
+      ...(isMultiDay ? [formatIsoDate(m.startTime)] : []),
+      formatTime(m.startTime),
+      getPitchName(m.pitch, settings),
+      m.homeTeam.name,
+      m.awayTeam.name,
+      formatTime(m.endTime),
+      ...(hasDivisions ? [m.division || ''] : []),
+      ...(hasReferees ? [m.referee?.name || ''] : []),
+      ...(hasLabels ? [getMatchLabel(m) || ''] : []),
+      ...(breaks.length > 0 ? [''] : []),
+    ],
+  }))
+  const breakRows = breaks.map(b => ({
+    time: b.startTime,
+    cells: [
+      ...(isMultiDay ? [formatIsoDate(b.startTime)] : []),
+      formatTime(b.startTime),
+      '',
+      '',
+      '',
+      formatTime(b.endTime),
+      ...(hasDivisions ? [''] : []),
+      ...(hasReferees ? [''] : []),
+      ...(hasLabels ? [''] : []),
+      b.label,
+    ],
+  }))
+  // Stable sort keeps matches in their original order; breaks slot in by time
+  const rows = [...matchRows, ...breakRows]
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .map(row => row.cells.map(escapeCsvField))
 
   // RFC 4180 prescribes CRLF record separators; Excel is happiest with them.
   return [headers, ...rows].map(row => row.join(',')).join('\r\n')
@@ -870,7 +3095,7 @@ export function exportToText(
   const matchesByTime = new Map<string, Match[]>()
 
   matches.forEach(match => {
-    const timeKey = formatTime(match.startTime)
+    const timeKey = match.startTime.toISOString()
     if (!matchesByTime.has(timeKey)) {
       matchesByTime.set(timeKey, [])
     }
@@ -881,7 +3106,7 @@ export function exportToText(
   const byesByTimeKey = new Map<string, string[]>()
   for (const bye of byes) {
     if (bye.startTime) {
-      const key = formatTime(new Date(bye.startTime))
+      const key = new Date(bye.startTime).toISOString()
       if (!byesByTimeKey.has(key)) {
         byesByTimeKey.set(key, [])
       }
@@ -889,10 +3114,30 @@ export function exportToText(
     }
   }
 
+  const breaks = getBreakPeriods(matches, settings)
+  const writeBreaksBefore = (time: Date | null) => {
+    while (breaks.length > 0 && (!time || breaks[0].startTime <= time)) {
+      const scheduledBreak = breaks.shift()!
+      text += `${formatTime(scheduledBreak.startTime)}-${formatTime(scheduledBreak.endTime)}  ${scheduledBreak.label}\n\n`
+    }
+  }
+
+  // Tournaments spanning several days get a heading per day
+  const isMultiDay = isMultiDaySchedule(matches)
+  let currentDay = ''
+
   for (const [time, matchesAtTime] of matchesByTime) {
-    text += `${time}\n`
+    const startTime = matchesAtTime[0].startTime
+    if (isMultiDay && startTime.toDateString() !== currentDay) {
+      currentDay = startTime.toDateString()
+      text += `${formatDate(startTime)}\n${'-'.repeat(60)}\n\n`
+    }
+    writeBreaksBefore(startTime)
+    text += `${formatTime(startTime)}\n`
     matchesAtTime.forEach(match => {
-      text += `  ${getPitchName(match.pitch, settings)}: ${match.homeTeam.name} vs ${match.awayTeam.name}\n`
+      const details = [match.division, getMatchLabel(match)].filter(Boolean).join(', ')
+      const referee = match.referee ? ` - Dommer: ${match.referee.name}` : ''
+      text += `  ${getPitchName(match.pitch, settings)}: ${match.homeTeam.name} vs ${match.awayTeam.name}${details ? ` (${details})` : ''}${referee}\n`
     })
     const byeTeamNames = byesByTimeKey.get(time)
     if (byeTeamNames && byeTeamNames.length > 0) {
@@ -900,6 +3145,7 @@ export function exportToText(
     }
     text += '\n'
   }
+  writeBreaksBefore(null)
 
   return text
 }
@@ -907,3 +3153,24 @@ export function exportToText(
 function formatTime(date: Date): string {
   return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
 }
+
+/** Local calendar date as YYYY-MM-DD, which spreadsheets sort and parse. */
+function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+}
+
+/** True if the matches are played on more than one calendar day. */
+export function isMultiDaySchedule(matches: Match[]): boolean {
+  return new Set(matches.map(m => m.startTime.toDateString())).size > 1
+}
@@ -1,9 +1,25 @@
-import type { SchedulingConfig, Team, TournamentSettings } from '@/lib/types'
+import type {
+  AvailabilityWindow,
+  Division,
+  PinnedMatch,
+  PitchStrategy,
+  TimeAllocation,
+  RefereePool,
+  ScheduledBreak,
+  SchedulingConfig,
+  SchedulingMode,
+  Team,
+  TournamentDay,
+  TournamentSettings,
+} from '@/lib/types'
+import { MAX_OPTIMIZATION_RUNS } from '@/lib/scheduler'
 
 export interface SharedTournamentData {
   settings: TournamentSettings
   teams: Team[]
   schedulingConfig: SchedulingConfig
+  divisions?: Division[]
+  refereePool?: RefereePool
 }
 
 type ParseResult =
@@ -40,6 +56,18 @@ const isValidTimeString = (value: string) => {
   return hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59
 }
 
+const isPitchStrategy = (value: string): value is PitchStrategy =>
+  value === 'in-order' || value === 'rotate' || value === 'stay'
+
+const isTimeAllocation = (value: string): value is TimeAllocation =>
+  value === 'synchronized' || value === 'rolling'
+
+const isSchedulingMode = (value: string | null): value is SchedulingMode =>
+  value === 'round-robin' ||
+  value === 'limited-matches' ||
+  value === 'groups-knockout' ||
+  value === 'swiss'
+
 const isValidMatchupIndices = (teamAIndex: number, teamBIndex: number, teamsLength: number) =>
   Number.isInteger(teamAIndex) &&
   Number.isInteger(teamBIndex) &&
@@ -49,6 +77,51 @@ const isValidMatchupIndices = (teamAIndex: number, teamBIndex: number, teamsLeng
   teamBIndex < teamsLength &&
   teamAIndex !== teamBIndex
 
+/** Parses "index,HH:MM,HH:MM" where either time may be empty. */
+const parseAvailabilityWindow = (value: string, count: number) => {
+  const [indexValue, availableFrom, availableUntil] = value.split(',')
+  const index = Number(indexValue)
+  if (
+    !indexValue ||
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= count ||
+    (availableFrom && !isValidTimeString(availableFrom)) ||
+    (availableUntil && !isValidTimeString(availableUntil))
+  ) {
+    return null
+  }
+
+  const window: AvailabilityWindow = {}
+  if (availableFrom) window.availableFrom = availableFrom
+  if (availableUntil) window.availableUntil = availableUntil
+  return { index, window }
+}
+
+/** Parses "HH:MM,minutes,label"; the label may itself contain commas. */
+const parseScheduledBreak = (value: string): ScheduledBreak | null => {
+  const [startTime, durationValue, ...labelParts] = value.split(',')
+  const durationMinutes = Number(durationValue)
+  if (!isValidTimeString(startTime) || !isPositiveInteger(durationMinutes)) {
+    return null
+  }
+  return { startTime, durationMinutes, label: labelParts.join(',').trim() || 'Pause' }
+}
+
+/** Parses "YYYY-MM-DD,HH:MM,HH:MM" with the end after the start. */
+const parseTournamentDay = (value: string): TournamentDay | null => {
+  const [date, startTime, endTime] = value.split(',')
+  if (
+    !isValidDateString(date) ||
+    !isValidTimeString(startTime) ||
+    !isValidTimeString(endTime) ||
+    endTime <= startTime
+  ) {
+    return null
+  }
+  return { date, startTime, endTime }
+}
+
 const getRequiredString = (params: URLSearchParams, key: string) => {
   const value = params.get(key)?.trim()
   return value ? value : null
@@ -70,10 +143,100 @@ const getNonNegativeInteger = (params: URLSearchParams, key: string) => {
   return Number.isInteger(parsed) && parsed >= 0 ? parsed : null
 }
 
+/** Writes team pairs as `a-b` team indexes, one `key` param per pair. */
+const appendMatchups = (
+  params: URLSearchParams,
+  key: string,
+  matchups: [string, string][],
+  nonByeTeams: Team[]
+) => {
+  const teamIdToIndex = new Map(nonByeTeams.map((team, index) => [team.id, index]))
+  for (const [teamA, teamB] of matchups) {
+    const teamAIndex = teamIdToIndex.get(teamA) ?? -1
+    const teamBIndex = teamIdToIndex.get(teamB) ?? -1
+    if (teamAIndex >= 0 && teamBIndex >= 0 && teamAIndex !== teamBIndex) {
+      params.append(key, `${teamAIndex}-${teamBIndex}`)
+    }
+  }
+}
+
+/**
+ * Writes the mode-specific config; excluded, required and pinned matchups
+ * refer to team indexes. A pin is written as `home-away,slot,pitch` with
+ * empty fields for whatever is left to the generator.
+ */
+const appendSchedulingConfig = (
+  params: URLSearchParams,
+  schedulingConfig: SchedulingConfig,
+  nonByeTeams: Team[]
+) => {
+  if (schedulingConfig.minRestSlots) {
+    params.set('minRestSlots', schedulingConfig.minRestSlots.toString())
+  }
+
+  if (schedulingConfig.pitchStrategy && schedulingConfig.pitchStrategy !== 'in-order') {
+    params.set('pitchStrategy', schedulingConfig.pitchStrategy)
+  }
+
+  if (schedulingConfig.timeAllocation && schedulingConfig.timeAllocation !== 'synchronized') {
+    params.set('timeAllocation', schedulingConfig.timeAllocation)
+  }
+
+  if (schedulingConfig.seed) {
+    params.set('seed', schedulingConfig.seed.toString())
+  }
+
+  if (schedulingConfig.mode !== 'swiss' && schedulingConfig.optimizationRuns) {
+    params.set('runs', schedulingConfig.optimizationRuns.toString())
+  }
+
+  if (schedulingConfig.mode === 'round-robin' && schedulingConfig.doubleRoundRobin) {
+    params.set('doubleRoundRobin', '1')
+  }
+
+  if (schedulingConfig.mode === 'limited-matches') {
+    if (schedulingConfig.maxMatchesPerTeam) {
+      params.set('maxMatchesPerTeam', schedulingConfig.maxMatchesPerTeam.toString())
+    }
+    if (schedulingConfig.maxTotalMatches) {
+      params.set('maxTotalMatches', schedulingConfig.maxTotalMatches.toString())
+    }
+
+    appendMatchups(params, 'exclude', schedulingConfig.excludedMatchups || [], nonByeTeams)
+    appendMatchups(params, 'require', schedulingConfig.requiredMatchups || [], nonByeTeams)
+  }
+
+  if (schedulingConfig.mode === 'round-robin' || schedulingConfig.mode === 'limited-matches') {
+    const teamIdToIndex = new Map(nonByeTeams.map((team, index) => [team.id, index]))
+    for (const pin of schedulingConfig.pinnedMatches || []) {
+      const homeIndex = teamIdToIndex.get(pin.homeTeamId) ?? -1
+      const awayIndex = teamIdToIndex.get(pin.awayTeamId) ?? -1
+      if (homeIndex >= 0 && awayIndex >= 0 && homeIndex !== awayIndex) {
+        params.append('pin', `${homeIndex}-${awayIndex},${pin.slot ?? ''},${pin.pitch ?? ''}`)
+      }
+    }
+  }
+
+  if (schedulingConfig.mode === 'swiss' && schedulingConfig.swissRounds) {
+    params.set('swissRounds', schedulingConfig.swissRounds.toString())
+  }
+
+  if (schedulingConfig.mode === 'groups-knockout') {
+    if (schedulingConfig.numGroups) {
+      params.set('numGroups', schedulingConfig.numGroups.toString())
+    }
+    if (schedulingConfig.teamsAdvancingPerGroup) {
+      params.set('teamsAdvancingPerGroup', schedulingConfig.teamsAdvancingPerGroup.toString())
+    }
+  }
+}
+
 export const createTournamentShareParams = (
   settings: TournamentSettings,
   teams: Team[],
-  schedulingConfig: SchedulingConfig
+  schedulingConfig: SchedulingConfig,
+  divisions: Division[] = [],
+  refereePool?: RefereePool
 ) => {
   const params = new URLSearchParams()
   params.set('share', SHARE_VERSION)
@@ -89,6 +252,26 @@ export const createTournamentShareParams = (
     params.append('pitchName', pitchName)
   }
 
+  settings.pitchWindows?.forEach((window, index) => {
+    if (window?.availableFrom || window?.availableUntil) {
+      params.append(
+        'pitchWindow',
+        `${index},${window.availableFrom || ''},${window.availableUntil || ''}`
+      )
+    }
+  })
+
+  for (const scheduledBreak of settings.breaks || []) {
+    params.append(
+      'break',
+      `${scheduledBreak.startTime},${scheduledBreak.durationMinutes},${scheduledBreak.label}`
+    )
+  }
+
+  for (const day of settings.days || []) {
+    params.append('day', `${day.date},${day.startTime},${day.endTime}`)
+  }
+
   if (settings.matchMode === 'full-time' && settings.matchDurationMinutes) {
     params.set('matchDurationMinutes', settings.matchDurationMinutes.toString())
   }
@@ -107,22 +290,39 @@ export const createTournamentShareParams = (
     params.append('team', team.name)
   }
 
-  if (schedulingConfig.mode === 'limited-matches') {
-    if (schedulingConfig.maxMatchesPerTeam) {
-      params.set('maxMatchesPerTeam', schedulingConfig.maxMatchesPerTeam.toString())
-    }
-    if (schedulingConfig.maxTotalMatches) {
-      params.set('maxTotalMatches', schedulingConfig.maxTotalMatches.toString())
+  nonByeTeams.forEach((team, index) => {
+    if (team.availableFrom || team.availableUntil) {
+      params.append(
+        'teamWindow',
+        `${index},${team.availableFrom || ''},${team.availableUntil || ''}`
+      )
     }
+  })
 
-    const teamIdToIndex = new Map(nonByeTeams.map((team, index) => [team.id, index]))
-    for (const [teamA, teamB] of schedulingConfig.excludedMatchups || []) {
-      const teamAIndex = teamIdToIndex.get(teamA) ?? -1
-      const teamBIndex = teamIdToIndex.get(teamB) ?? -1
-      if (teamAIndex >= 0 && teamBIndex >= 0 && teamAIndex !== teamBIndex) {
-        params.append('exclude', `${teamAIndex}-${teamBIndex}`)
-      }
+  appendSchedulingConfig(params, schedulingConfig, nonByeTeams)
+
+  divisions.forEach(division => {
+    const divisionParams = new URLSearchParams()
+    divisionParams.set('name', division.name)
+    divisionParams.set('mode', division.schedulingConfig.mode)
+    if (division.matchDurationMinutes) {
+      divisionParams.set('matchDurationMinutes', division.matchDurationMinutes.toString())
     }
+    divisionParams.set(
+      'teams',
+      nonByeTeams
+        .flatMap((team, index) => (team.divisionId === division.id ? [index] : []))
+        .join(',')
+    )
+    appendSchedulingConfig(divisionParams, division.schedulingConfig, nonByeTeams)
+    params.append('division', divisionParams.toString())
+  })
+
+  for (const referee of refereePool?.referees || []) {
+    params.append('referee', referee.name)
+  }
+  if (refereePool?.teamsReferee) {
+    params.set('teamsReferee', '1')
   }
 
   return params
@@ -132,14 +332,153 @@ export const createTournamentShareUrl = (
   settings: TournamentSettings,
   teams: Team[],
   schedulingConfig: SchedulingConfig,
-  currentUrl: string
+  currentUrl: string,
+  divisions: Division[] = [],
+  refereePool?: RefereePool
 ) => {
   const url = new URL(currentUrl)
-  url.search = createTournamentShareParams(settings, teams, schedulingConfig).toString()
+  url.search = createTournamentShareParams(
+    settings,
+    teams,
+    schedulingConfig,
+    divisions,
+    refereePool
+  ).toString()
   url.hash = ''
   return url.toString()
 }
 
+/** Reads the `a-b` team index pairs of a matchup param, skipping invalid ones. */
+const getMatchups = (params: URLSearchParams, key: string, teams: Team[]): [string, string][] =>
+  params.getAll(key).flatMap(value => {
+    const [teamAIndex, teamBIndex] = value.split('-').map(Number)
+    return isValidMatchupIndices(teamAIndex, teamBIndex, teams.length)
+      ? [[teams[teamAIndex].id, teams[teamBIndex].id] as [string, string]]
+      : []
+  })
+
+const parsePinnedMatch = (value: string, teams: Team[]): PinnedMatch | null => {
+  const [matchup, slotValue, pitchValue] = value.split(',')
+  const [homeIndex, awayIndex] = (matchup || '').split('-').map(Number)
+  if (!isValidMatchupIndices(homeIndex, awayIndex, teams.length)) return null
+
+  const slot = slotValue ? Number(slotValue) : undefined
+  const pitch = pitchValue ? Number(pitchValue) : undefined
+  if (slot !== undefined && !(Number.isInteger(slot) && slot >= 0)) return null
+  if (pitch !== undefined && !(Number.isInteger(pitch) && pitch >= 1)) return null
+  if (slot === undefined && pitch === undefined) return null
+
+  return {
+    homeTeamId: teams[homeIndex].id,
+    awayTeamId: teams[awayIndex].id,
+    ...(slot !== undefined && { slot }),
+    ...(pitch !== undefined && { pitch }),
+  }
+}
+
+/** Reads the mode-specific config written by appendSchedulingConfig. */
+const parseSchedulingConfig = (
+  params: URLSearchParams,
+  schedulingMode: SchedulingMode,
+  teams: Team[]
+): { ok: true; config: SchedulingConfig } | { ok: false; error: string } => {
+  const schedulingConfig: SchedulingConfig = {
+    mode: schedulingMode,
+  }
+
+  const minRestSlots = getPositiveInteger(params, 'minRestSlots')
+  if (minRestSlots) {
+    schedulingConfig.minRestSlots = minRestSlots
+  }
+
+  const pitchStrategy = params.get('pitchStrategy')
+  if (pitchStrategy) {
+    if (!isPitchStrategy(pitchStrategy)) {
+      return { ok: false, error: 'Delingslinket har en ugyldig banefordeling' }
+    }
+    schedulingConfig.pitchStrategy = pitchStrategy
+  }
+
+  const timeAllocation = params.get('timeAllocation')
+  if (timeAllocation) {
+    if (!isTimeAllocation(timeAllocation)) {
+      return { ok: false, error: 'Delingslinket har ugyldige starttider' }
+    }
+    schedulingConfig.timeAllocation = timeAllocation
+  }
+
+  const seed = getPositiveInteger(params, 'seed')
+  if (seed) {
+    schedulingConfig.seed = seed
+  }
+
+  const optimizationRuns = getPositiveInteger(params, 'runs')
+  if (optimizationRuns && optimizationRuns > MAX_OPTIMIZATION_RUNS) {
+    return { ok: false, error: 'Delingslinket har for mange forsøg' }
+  }
+  if (schedulingMode !== 'swiss' && optimizationRuns) {
+    schedulingConfig.optimizationRuns = optimizationRuns
+  }
+
+  if (schedulingMode === 'round-robin' && params.get('doubleRoundRobin') === '1') {
+    schedulingConfig.doubleRoundRobin = true
+  }
+
+  if (schedulingMode === 'limited-matches') {
+    const maxMatchesPerTeam = getPositiveInteger(params, 'maxMatchesPerTeam')
+    if (!maxMatchesPerTeam) {
+      return { ok: false, error: 'Delingslinket mangler maks kampe pr. hold' }
+    }
+
+    const maxTotalMatches = getPositiveInteger(params, 'maxTotalMatches')
+    const excludedMatchups = getMatchups(params, 'exclude', teams)
+    const requiredMatchups = getMatchups(params, 'require', teams)
+
+    schedulingConfig.maxMatchesPerTeam = maxMatchesPerTeam
+    schedulingConfig.maxTotalMatches = maxTotalMatches || undefined
+    schedulingConfig.excludedMatchups = excludedMatchups.length > 0 ? excludedMatchups : undefined
+    schedulingConfig.requiredMatchups = requiredMatchups.length > 0 ? requiredMatchups : undefined
+  }
+
+  if (schedulingMode === 'round-robin' || schedulingMode === 'limited-matches') {
+    const pinnedMatches: PinnedMatch[] = []
+
+    for (const value of params.getAll('pin')) {
+      const pin = parsePinnedMatch(value, teams)
+      if (!pin) {
+        return { ok: false, error: 'Delingslinket har en ugyldig fastlåst kamp' }
+      }
+      pinnedMatches.push(pin)
+    }
+
+    if (pinnedMatches.length > 0) {
+      schedulingConfig.pinnedMatches = pinnedMatches
+    }
+  }
+
+  if (schedulingMode === 'groups-knockout') {
+    const numGroups = getPositiveInteger(params, 'numGroups')
+    const teamsAdvancingPerGroup = getPositiveInteger(params, 'teamsAdvancingPerGroup')
+    if (!numGroups || !teamsAdvancingPerGroup) {
+      return { ok: false, error: 'Delingslinket mangler puljeindstillinger' }
+    }
+
+    schedulingConfig.numGroups = numGroups
+    schedulingConfig.teamsAdvancingPerGroup = teamsAdvancingPerGroup
+  }
+
+  if (schedulingMode === 'swiss') {
+    const swissRounds = getPositiveInteger(params, 'swissRounds')
+    if (!swissRounds) {
+      return { ok: false, error: 'Delingslinket mangler antal runder' }
+    }
+
+    schedulingConfig.swissRounds = swissRounds
+  }
+
+  return { ok: true, config: schedulingConfig }
+}
+
 export const parseTournamentShareParams = (params: URLSearchParams): ParseResult => {
   if (params.get('share') !== SHARE_VERSION) {
     return { ok: false, error: 'Ukendt delingslink' }
@@ -178,7 +517,7 @@ export const parseTournamentShareParams = (params: URLSearchParams): ParseResult
     return { ok: false, error: 'Delingslinket har ugyldig kampindstilling' }
   }
 
-  if (schedulingMode !== 'round-robin' && schedulingMode !== 'limited-matches') {
+  if (!isSchedulingMode(schedulingMode)) {
     return { ok: false, error: 'Delingslinket har ugyldig planlægningstilstand' }
   }
 
@@ -203,6 +542,44 @@ export const parseTournamentShareParams = (params: URLSearchParams): ParseResult
     breakBetweenMatches,
   }
 
+  const pitchWindows: AvailabilityWindow[] = []
+  for (const pitchWindow of params.getAll('pitchWindow')) {
+    const parsed = parseAvailabilityWindow(pitchWindow, settings.numPitches)
+    if (!parsed) {
+      return { ok: false, error: 'Delingslinket har ugyldige åbningstider for en bane' }
+    }
+    pitchWindows[parsed.index] = parsed.window
+  }
+  if (pitchWindows.length > 0) {
+    settings.pitchWindows = Array.from({ length: settings.numPitches }, (_, index) => ({
+      ...pitchWindows[index],
+    }))
+  }
+
+  const breaks: ScheduledBreak[] = []
+  for (const value of params.getAll('break')) {
+    const scheduledBreak = parseScheduledBreak(value)
+    if (!scheduledBreak) {
+      return { ok: false, error: 'Delingslinket har en ugyldig pause' }
+    }
+    breaks.push(scheduledBreak)
+  }
+  if (breaks.length > 0) {
+    settings.breaks = breaks
+  }
+
+  const days: TournamentDay[] = []
+  for (const value of params.getAll('day')) {
+    const day = parseTournamentDay(value)
+    if (!day || (days.length > 0 && day.date <= days[days.length - 1].date)) {
+      return { ok: false, error: 'Delingslinket har en ugyldig turneringsdag' }
+    }
+    days.push(day)
+  }
+  if (days.length > 0) {
+    settings.days = days
+  }
+
   if (matchMode === 'full-time') {
     const matchDurationMinutes = getPositiveInteger(params, 'matchDurationMinutes')
     if (!matchDurationMinutes) {
@@ -219,35 +596,70 @@ export const parseTournamentShareParams = (params: URLSearchParams): ParseResult
     settings.halftimeBreakMinutes = halftimeBreakMinutes
   }
 
-  const teams = teamNames.map((name, index) => ({
+  const teams: Team[] = teamNames.map((name, index) => ({
     id: `shared-team-${index + 1}`,
     name,
   }))
 
-  const schedulingConfig: SchedulingConfig = {
-    mode: schedulingMode,
+  for (const teamWindow of params.getAll('teamWindow')) {
+    const parsed = parseAvailabilityWindow(teamWindow, teams.length)
+    if (!parsed) {
+      return { ok: false, error: 'Delingslinket har et ugyldigt tidsvindue for et hold' }
+    }
+    Object.assign(teams[parsed.index], parsed.window)
   }
 
-  if (schedulingMode === 'limited-matches') {
-    const maxMatchesPerTeam = getPositiveInteger(params, 'maxMatchesPerTeam')
-    if (!maxMatchesPerTeam) {
-      return { ok: false, error: 'Delingslinket mangler maks kampe pr. hold' }
+  const parsedConfig = parseSchedulingConfig(params, schedulingMode, teams)
+  if (!parsedConfig.ok) return parsedConfig
+  const schedulingConfig = parsedConfig.config
+
+  const divisions: Division[] = []
+  for (const value of params.getAll('division')) {
+    const divisionParams = new URLSearchParams(value)
+    const name = getRequiredString(divisionParams, 'name')
+    const mode = divisionParams.get('mode')
+    const teamIndexes = (divisionParams.get('teams') || '').split(',').filter(Boolean).map(Number)
+    const matchDurationMinutes = getPositiveInteger(divisionParams, 'matchDurationMinutes')
+    if (
+      !name ||
+      !isSchedulingMode(mode) ||
+      mode === 'swiss' ||
+      (divisionParams.has('matchDurationMinutes') && !matchDurationMinutes) ||
+      !teamIndexes.every(index => Number.isInteger(index) && index >= 0 && index < teams.length)
+    ) {
+      return { ok: false, error: 'Delingslinket har en ugyldig række' }
     }
 
-    const maxTotalMatches = getPositiveInteger(params, 'maxTotalMatches')
-    const excludedMatchups: [string, string][] = []
+    const divisionConfig = parseSchedulingConfig(divisionParams, mode, teams)
+    if (!divisionConfig.ok) return divisionConfig
 
-    for (const excludedMatchup of params.getAll('exclude')) {
-      const [teamAIndex, teamBIndex] = excludedMatchup.split('-').map(Number)
-      if (isValidMatchupIndices(teamAIndex, teamBIndex, teams.length)) {
-        excludedMatchups.push([teams[teamAIndex].id, teams[teamBIndex].id])
-      }
+    const division: Division = {
+      id: `shared-division-${divisions.length + 1}`,
+      name,
+      schedulingConfig: divisionConfig.config,
+    }
+    if (matchDurationMinutes) division.matchDurationMinutes = matchDurationMinutes
+    for (const index of teamIndexes) {
+      teams[index].divisionId = division.id
     }
+    divisions.push(division)
+  }
 
-    schedulingConfig.maxMatchesPerTeam = maxMatchesPerTeam
-    schedulingConfig.maxTotalMatches = maxTotalMatches || undefined
-    schedulingConfig.excludedMatchups = excludedMatchups.length > 0 ? excludedMatchups : undefined
+  const refereeNames = params.getAll('referee').map(name => name.trim())
+  if (refereeNames.some(name => !name)) {
+    return { ok: false, error: 'Delingslinket har en ugyldig dommer' }
   }
+  const teamsReferee = params.get('teamsReferee') === '1'
+  const refereePool: RefereePool | null =
+    refereeNames.length > 0 || teamsReferee
+      ? {
+          referees: refereeNames.map((name, index) => ({
+            id: `shared-referee-${index + 1}`,
+            name,
+          })),
+          teamsReferee,
+        }
+      : null
 
   return {
     ok: true,
@@ -255,6 +667,8 @@ export const parseTournamentShareParams = (params: URLSearchParams): ParseResult
       settings,
       teams,
       schedulingConfig,
+      ...(divisions.length > 0 && { divisions }),
+      ...(refereePool && { refereePool }),
     },
   }
 }
@@ -0,0 +1,126 @@
+import type { GeneratedSchedule, Match, Team } from './types'
+
+export interface StandingRow {
+  team: Team
+  played: number
+  won: number
+  drawn: number
+  lost: number
+  goalsFor: number
+  goalsAgainst: number
+  goalDifference: number
+  points: number
+}
+
+const POINTS_FOR_WIN = 3
+const POINTS_FOR_DRAW = 1
+const WALKOVER_GOALS = 3
+
+type PlayedMatch = Match & { homeScore: number; awayScore: number }
+
+export function hasResult(match: Match): match is PlayedMatch {
+  return match.played === true && match.homeScore !== undefined && match.awayScore !== undefined
+}
+
+/**
+ * Records (or clears) the score of one match. A match counts as played once
+ * both scores are entered; clearing either score marks it unplayed again.
+ */
+export function applyMatchResult(
+  schedule: GeneratedSchedule,
+  matchId: string,
+  homeScore: number | undefined,
+  awayScore: number | undefined
+): GeneratedSchedule {
+  return {
+    ...schedule,
+    matches: schedule.matches.map(match =>
+      match.id === matchId
+        ? {
+            ...match,
+            homeScore,
+            awayScore,
+            played: homeScore !== undefined && awayScore !== undefined,
+          }
+        : match
+    ),
+  }
+}
+
+/** Scores a match the given team will not play as a 3-0 walkover to its opponent. */
+export function recordWalkover(match: Match, withdrawnTeamId: string): Match {
+  const homeWithdrew = match.homeTeam.id === withdrawnTeamId
+  return {
+    ...match,
+    homeScore: homeWithdrew ? 0 : WALKOVER_GOALS,
+    awayScore: homeWithdrew ? WALKOVER_GOALS : 0,
+    played: true,
+  }
+}
+
+/** The schedule's matches plus the walkovers of withdrawn teams, for the standings. */
+export function getResultMatches(schedule: GeneratedSchedule): Match[] {
+  return [
+    ...schedule.matches,
+    ...(schedule.withdrawals || []).flatMap(withdrawal => withdrawal.walkovers),
+  ]
+}
+
+/**
+ * Builds a league table from the played matches between the given teams,
+ * ranked by points, goal difference, goals scored and finally name. Matches
+ * involving teams outside the list (e.g. knockout placeholders) are ignored.
+ */
+export function computeStandings(matches: Match[], teams: Team[]): StandingRow[] {
+  const rows = new Map<string, StandingRow>(
+    teams.map(team => [
+      team.id,
+      {
+        team,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+      },
+    ])
+  )
+
+  for (const match of matches) {
+    if (!hasResult(match)) continue
+    const home = rows.get(match.homeTeam.id)
+    const away = rows.get(match.awayTeam.id)
+    if (!home || !away) continue
+
+    recordResult(home, match.homeScore, match.awayScore)
+    recordResult(away, match.awayScore, match.homeScore)
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.goalDifference - a.goalDifference ||
+      b.goalsFor - a.goalsFor ||
+      a.team.name.localeCompare(b.team.name, 'da')
+  )
+}
+
+function recordResult(row: StandingRow, scored: number, conceded: number) {
+  row.played++
+  row.goalsFor += scored
+  row.goalsAgainst += conceded
+  row.goalDifference = row.goalsFor - row.goalsAgainst
+
+  if (scored > conceded) {
+    row.won++
+    row.points += POINTS_FOR_WIN
+  } else if (scored === conceded) {
+    row.drawn++
+    row.points += POINTS_FOR_DRAW
+  } else {
+    row.lost++
+  }
+}
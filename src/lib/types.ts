@@ -1,6 +1,29 @@
 export type MatchMode = 'full-time' | 'two-halves'
 
-export type SchedulingMode = 'round-robin' | 'limited-matches'
+export type SchedulingMode = 'round-robin' | 'limited-matches' | 'groups-knockout' | 'swiss'
+
+export type MatchStage = 'group' | 'knockout'
+
+export type PitchStrategy = 'in-order' | 'rotate' | 'stay'
+
+export type TimeAllocation = 'synchronized' | 'rolling'
+
+export interface AvailabilityWindow {
+  availableFrom?: string
+  availableUntil?: string
+}
+
+export interface ScheduledBreak {
+  startTime: string
+  durationMinutes: number
+  label: string
+}
+
+export interface TournamentDay {
+  date: string
+  startTime: string
+  endTime: string
+}
 
 export interface TournamentSettings {
   name: string
@@ -8,23 +31,63 @@ export interface TournamentSettings {
   startTime: string
   numPitches: number
   pitchNames?: string[]
+  pitchWindows?: AvailabilityWindow[]
   matchMode: MatchMode
   matchDurationMinutes?: number
   halfDurationMinutes?: number
   halftimeBreakMinutes?: number
   breakBetweenMatches: number
+  breaks?: ScheduledBreak[]
+  days?: TournamentDay[]
 }
 
-export interface Team {
+export interface Team extends AvailabilityWindow {
   id: string
   name: string
+  divisionId?: string
+}
+
+export interface PinnedMatch {
+  homeTeamId: string
+  awayTeamId: string
+  slot?: number
+  pitch?: number
 }
 
 export interface SchedulingConfig {
   mode: SchedulingMode
+  doubleRoundRobin?: boolean
   maxMatchesPerTeam?: number
   maxTotalMatches?: number
   excludedMatchups?: [string, string][]
+  requiredMatchups?: [string, string][]
+  pinnedMatches?: PinnedMatch[]
+  numGroups?: number
+  teamsAdvancingPerGroup?: number
+  swissRounds?: number
+  minRestSlots?: number
+  pitchStrategy?: PitchStrategy
+  timeAllocation?: TimeAllocation
+  seed?: number
+  optimizationRuns?: number
+}
+
+export interface Division {
+  id: string
+  name: string
+  schedulingConfig: SchedulingConfig
+  matchDurationMinutes?: number
+}
+
+export interface Referee {
+  id: string
+  name: string
+  teamId?: string
+}
+
+export interface RefereePool {
+  referees: Referee[]
+  teamsReferee?: boolean
 }
 
 export interface Match {
@@ -35,6 +98,18 @@ export interface Match {
   endTime: Date
   pitch: number
   round?: number
+  stage?: MatchStage
+  group?: number
+  label?: string
+  division?: string
+  referee?: Referee
+  swissRound?: number
+  homeScore?: number
+  awayScore?: number
+  played?: boolean
+  /** Times from before the program was delayed on the day, kept for comparison. */
+  plannedStartTime?: Date
+  plannedEndTime?: Date
 }
 
 export interface ByeInfo {
@@ -43,16 +118,61 @@ export interface ByeInfo {
   startTime?: Date
 }
 
+export interface BreakPeriod {
+  label: string
+  startTime: Date
+  endTime: Date
+}
+
 export interface ScheduleConflict {
   team: Team
   matches: Match[]
 }
 
+export type ScheduleViolationType =
+  'team-availability' | 'min-rest' | 'pitch-availability' | 'day-hours' | 'pinned-match'
+
+export interface ScheduleViolation {
+  type: ScheduleViolationType
+  message: string
+  matchId?: string
+  teamId?: string
+}
+
+/** Slots and matches that finish before the hard end time of the tournament. */
+export interface EndTimeCapacity {
+  end: Date
+  slots: number
+  matches: number
+}
+
+/** A team withdrawn during the tournament. */
+export interface Withdrawal {
+  team: Team
+  /** The team's removed matches, scored as walkovers to its opponents. */
+  walkovers: Match[]
+  /** Remaining matches moved forward into the freed slots. */
+  movedMatchIds: string[]
+}
+
 export interface GeneratedSchedule {
   matches: Match[]
   conflicts: ScheduleConflict[]
   warnings: string[]
   byes?: ByeInfo[]
+  violations?: ScheduleViolation[]
+  suggestions?: string[]
+  manuallyEdited?: boolean
+  withdrawals?: Withdrawal[]
+}
+
+/** Everything needed to generate a schedule, as sent to the schedule worker. */
+export interface ScheduleRequest {
+  settings: TournamentSettings
+  teams: Team[]
+  schedulingConfig: SchedulingConfig
+  /** When set, the divisions' own configs are used instead of schedulingConfig. */
+  divisions?: Division[]
 }
 
 export interface Tournament {
@@ -60,6 +180,8 @@ export interface Tournament {
   settings: TournamentSettings
   teams: Team[]
   schedulingConfig: SchedulingConfig
+  divisions?: Division[]
+  refereePool?: RefereePool
   schedule?: GeneratedSchedule
   createdAt: string
   updatedAt: string
@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { GenerationProgressDialog } from '../components/GenerationProgressDialog'
+
+describe('GenerationProgressDialog', () => {
+  it('counts the variants of an optimised run', () => {
+    render(<GenerationProgressDialog progress={{ done: 3, total: 10 }} onCancel={vi.fn()} />)
+
+    expect(screen.getByText('Forsøg 3 af 10')).toBeInTheDocument()
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '3')
+  })
+
+  it('shows an indeterminate bar while a single variant is generated', () => {
+    render(<GenerationProgressDialog progress={{ done: 0, total: 1 }} onCancel={vi.fn()} />)
+
+    expect(screen.getByText('Kampene fordeles på baner og tider')).toBeInTheDocument()
+    expect(screen.getByRole('progressbar')).not.toHaveAttribute('aria-valuenow')
+  })
+})
@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, expect, it, vi } from 'vitest'
 import { Step1TournamentSettings } from '../components/Step1TournamentSettings'
@@ -68,6 +68,23 @@ describe('Step1TournamentSettings', () => {
     expect(screen.queryByLabelText('Bane 2')).not.toBeInTheDocument()
   })
 
+  it('submits pitch opening hours alongside the pitch names', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    render(<Step1TournamentSettings initialData={baseSettings} onNext={onNext} />)
+
+    fireEvent.change(screen.getByLabelText('Bane 2 åbner'), { target: { value: '12:00' } })
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    await waitFor(() => expect(onNext).toHaveBeenCalledTimes(1))
+    expect(onNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pitchWindows: [{}, { availableFrom: '12:00' }],
+      })
+    )
+  })
+
   it('shows the full-time duration field when matchMode is full-time', () => {
     render(<Step1TournamentSettings initialData={baseSettings} onNext={vi.fn()} />)
 
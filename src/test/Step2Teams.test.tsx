@@ -1,8 +1,8 @@
-import { render, screen, within } from '@testing-library/react'
+import { fireEvent, render, screen, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, expect, it, vi } from 'vitest'
 import { Step2Teams } from '../components/Step2Teams'
-import type { Team } from '../lib/types'
+import type { Division, Team } from '../lib/types'
 
 const renderStep2 = (initialTeams: Team[] = [], onNext = vi.fn(), onBack = vi.fn()) => {
   render(<Step2Teams initialTeams={initialTeams} onNext={onNext} onBack={onBack} />)
@@ -102,9 +102,106 @@ describe('Step2Teams', () => {
     await user.click(nextButton)
 
     expect(onNext).toHaveBeenCalledTimes(1)
-    expect(onNext).toHaveBeenCalledWith([
-      expect.objectContaining({ id: 't1', name: 'Alpha' }),
-      expect.objectContaining({ name: 'Beta' }),
+    expect(onNext).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ id: 't1', name: 'Alpha' }),
+        expect.objectContaining({ name: 'Beta' }),
+      ],
+      [],
+      undefined
+    )
+  })
+
+  it('passes availability windows on and rejects a window that ends before it starts', async () => {
+    const user = userEvent.setup()
+    const { onNext } = renderStep2([
+      { id: 't1', name: 'Alpha' },
+      { id: 't2', name: 'Beta' },
+    ])
+
+    fireEvent.change(screen.getByLabelText('Tidligste starttid for Alpha'), {
+      target: { value: '11:00' },
+    })
+    fireEvent.change(screen.getByLabelText('Seneste sluttid for Alpha'), {
+      target: { value: '10:00' },
+    })
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    expect(onNext).not.toHaveBeenCalled()
+    expect(
+      screen.getByText(/Seneste sluttid skal være efter tidligste starttid/)
+    ).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Seneste sluttid for Alpha'), {
+      target: { value: '14:00' },
+    })
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    expect(onNext).toHaveBeenCalledWith(
+      [
+        { id: 't1', name: 'Alpha', availableFrom: '11:00', availableUntil: '14:00' },
+        { id: 't2', name: 'Beta' },
+      ],
+      [],
+      undefined
+    )
+  })
+
+  it('assigns teams to divisions and requires two teams in each', async () => {
+    const user = userEvent.setup()
+    const { onNext } = renderStep2([
+      { id: 't1', name: 'Alpha' },
+      { id: 't2', name: 'Beta' },
+    ])
+
+    await user.type(screen.getByLabelText('Rækker (Valgfri)'), 'U9{Enter}')
+    await user.type(screen.getByLabelText('Rækker (Valgfri)'), 'U11{Enter}')
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    expect(onNext).not.toHaveBeenCalled()
+    expect(screen.getByText('U11: Mindst 2 hold er påkrævet i hver række')).toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Række for nye hold'))
+    await user.click(screen.getByRole('option', { name: 'U11' }))
+    await user.type(teamNameInput(), 'Gamma{Enter}')
+    await user.type(teamNameInput(), 'Delta{Enter}')
+    fireEvent.change(screen.getByLabelText('Kampvarighed for U9 (minutter)'), {
+      target: { value: '20' },
+    })
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    expect(onNext).toHaveBeenCalledTimes(1)
+    const [submittedTeams, divisions] = onNext.mock.calls[0] as [Team[], Division[]]
+    expect(divisions).toEqual([
+      expect.objectContaining({ name: 'U9', matchDurationMinutes: 20 }),
+      expect.objectContaining({ name: 'U11', schedulingConfig: { mode: 'round-robin' } }),
     ])
+    const divisionOf = (name: string) => {
+      const team = submittedTeams.find(t => t.name === name)
+      return divisions.find(d => d.id === team?.divisionId)?.name
+    }
+    expect(['Alpha', 'Beta', 'Gamma', 'Delta'].map(divisionOf)).toEqual(['U9', 'U9', 'U11', 'U11'])
+  })
+  it('passes the referee pool on', async () => {
+    const user = userEvent.setup()
+    const { onNext } = renderStep2([
+      { id: 't1', name: 'Alpha' },
+      { id: 't2', name: 'Beta' },
+    ])
+
+    await user.type(screen.getByLabelText('Dommere (Valgfri)'), 'Hans{Enter}')
+    await user.type(screen.getByLabelText('Dommere (Valgfri)'), 'hans{Enter}')
+    expect(screen.getByText('Dommer "hans" eksisterer allerede')).toBeInTheDocument()
+
+    await user.clear(screen.getByLabelText('Dommere (Valgfri)'))
+    await user.type(screen.getByLabelText('Dommere (Valgfri)'), 'Grete{Enter}')
+    await user.click(screen.getByLabelText('Fjern dommer Hans'))
+    await user.click(screen.getByLabelText('Holdene dømmer hinandens kampe'))
+    await user.click(screen.getByRole('button', { name: /Næste/ }))
+
+    expect(onNext).toHaveBeenCalledWith(expect.any(Array), [], {
+      referees: [expect.objectContaining({ name: 'Grete' })],
+      teamsReferee: true,
+    })
   })
 })
@@ -37,4 +37,261 @@ describe('Step3SchedulingMode', () => {
     await user.type(input, '4')
     expect(input).toHaveValue(4)
   })
+
+  it('passes the double round-robin and minimum rest options on', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        onNext={onNext}
+        onBack={vi.fn()}
+      />
+    )
+
+    await user.click(screen.getByLabelText(/Ude- og hjemmekamp/))
+    expect(screen.getByText('12')).toBeInTheDocument()
+
+    const restInput = screen.getByLabelText('Minimum hvile mellem kampe (runder)')
+    await user.clear(restInput)
+    await user.type(restInput, '1')
+    await user.click(screen.getByRole('button', { name: /Generer/ }))
+
+    expect(onNext).toHaveBeenCalledWith({
+      mode: 'round-robin',
+      doubleRoundRobin: true,
+      minRestSlots: 1,
+    })
+  })
+
+  it('pins a matchup to a round and pitch', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        pitchNames={['Bane 1', 'Kunst']}
+        onNext={onNext}
+        onBack={vi.fn()}
+      />
+    )
+
+    await user.click(screen.getByLabelText('Hjemmehold for fastlåst kamp'))
+    await user.click(screen.getByRole('option', { name: 'RB' }))
+    await user.click(screen.getByLabelText('Udehold for fastlåst kamp'))
+    await user.click(screen.getByRole('option', { name: 'Solrød' }))
+    await user.click(screen.getByRole('button', { name: /Fastlås/ }))
+    expect(
+      screen.getByText('Angiv en runde og/eller en bane for den fastlåste kamp')
+    ).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText('Runde for fastlåst kamp'), '2')
+    await user.click(screen.getByLabelText('Bane for fastlåst kamp'))
+    await user.click(screen.getByRole('option', { name: 'Kunst' }))
+    await user.click(screen.getByRole('button', { name: /Fastlås/ }))
+
+    expect(screen.getByText('RB mod Solrød')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /Generer/ }))
+
+    expect(onNext).toHaveBeenCalledWith({
+      mode: 'round-robin',
+      pinnedMatches: [{ homeTeamId: '2', awayTeamId: '4', slot: 1, pitch: 2 }],
+    })
+  })
+
+  it('passes the chosen pitch strategy on', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        onNext={onNext}
+        onBack={vi.fn()}
+      />
+    )
+
+    await user.click(screen.getByLabelText('Banefordeling'))
+    await user.click(screen.getByRole('option', { name: /Skift bane/ }))
+    await user.click(screen.getByRole('button', { name: /Generer/ }))
+
+    expect(onNext).toHaveBeenCalledWith({ mode: 'round-robin', pitchStrategy: 'rotate' })
+  })
+
+  it('passes rolling start times on, except for divisions', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    const { unmount } = render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        onNext={onNext}
+        onBack={vi.fn()}
+      />
+    )
+
+    await user.click(screen.getByLabelText('Starttider'))
+    await user.click(screen.getByRole('option', { name: /Rullende start/ }))
+    await user.click(screen.getByRole('button', { name: /Generer/ }))
+
+    expect(onNext).toHaveBeenCalledWith({ mode: 'round-robin', timeAllocation: 'rolling' })
+    unmount()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin', timeAllocation: 'rolling' }}
+        teamCount={teams.length}
+        teams={teams}
+        divisionName="U9"
+        onNext={vi.fn()}
+        onBack={vi.fn()}
+      />
+    )
+    expect(screen.queryByLabelText('Starttider')).not.toBeInTheDocument()
+  })
+
+  it('explains live which teams cannot reach their match count', async () => {
+    const user = userEvent.setup()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{
+          mode: 'limited-matches',
+          maxMatchesPerTeam: 2,
+          excludedMatchups: [
+            ['1', '2'],
+            ['1', '3'],
+          ],
+        }}
+        teamCount={teams.length}
+        teams={teams}
+        onNext={vi.fn()}
+        onBack={vi.fn()}
+      />
+    )
+
+    const issues = screen.getByLabelText('Problemer med antal kampe')
+    expect(issues).toHaveTextContent(
+      'Karlslunde har kun 1 tilladte modstander (Solrød) og må møde den flere gange for at nå 2 kampe'
+    )
+
+    await user.click(
+      screen.getByRole('button', { name: 'Fjern udelukket holdpar Karlslunde og RB' })
+    )
+    expect(screen.queryByLabelText('Problemer med antal kampe')).not.toBeInTheDocument()
+  })
+
+  it('adds required matchups that are never also excluded', async () => {
+    const user = userEvent.setup()
+    const onNext = vi.fn()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{
+          mode: 'limited-matches',
+          maxMatchesPerTeam: 1,
+          excludedMatchups: [['1', '2']],
+        }}
+        teamCount={teams.length}
+        teams={teams}
+        onNext={onNext}
+        onBack={vi.fn()}
+      />
+    )
+
+    const pick = async (label: string, name: string) => {
+      await user.click(screen.getByLabelText(label))
+      await user.click(screen.getByRole('option', { name }))
+    }
+    await pick('Sikret hold 1', 'RB')
+    await pick('Sikret hold 2', 'Karlslunde')
+    await user.click(screen.getByRole('button', { name: 'Tilføj sikret holdpar' }))
+    expect(screen.getByText('Denne parring er udelukket og kan ikke sikres')).toBeInTheDocument()
+
+    await pick('Sikret hold 2', 'Solrød')
+    await user.click(screen.getByRole('button', { name: 'Tilføj sikret holdpar' }))
+    expect(
+      screen.getByRole('button', { name: 'Fjern sikret holdpar RB og Solrød' })
+    ).toBeInTheDocument()
+    await pick('Sikret hold 1', 'Herlufsholm')
+    await pick('Sikret hold 2', 'RB')
+    await user.click(screen.getByRole('button', { name: 'Tilføj sikret holdpar' }))
+    expect(screen.getByLabelText('Problemer med antal kampe')).toHaveTextContent(
+      'RB skal møde Herlufsholm og Solrød, men spiller kun 1 kamp'
+    )
+    await user.click(screen.getByRole('button', { name: 'Fjern sikret holdpar Herlufsholm og RB' }))
+    await user.click(screen.getByRole('button', { name: /Generer/ }))
+
+    expect(onNext).toHaveBeenCalledWith(
+      expect.objectContaining({ requiredMatchups: [['2', '4']], excludedMatchups: [['1', '2']] })
+    )
+  })
+
+  it('shows how many matches fit before the end time', async () => {
+    const user = userEvent.setup()
+
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        endTimeCapacity={{ end: new Date('2026-01-15T11:00'), slots: 2, matches: 4 }}
+        onNext={vi.fn()}
+        onBack={vi.fn()}
+      />
+    )
+
+    expect(
+      screen.getByText('Inden sluttidspunktet kl. 11:00 er der plads til 4 kampe')
+    ).toBeInTheDocument()
+    expect(screen.getByText(/Kun 4 kampe kan nå at blive spillet/)).toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Begræns antal kampe'))
+    expect(screen.getByText(/Sættes automatisk til 4/)).toBeInTheDocument()
+  })
+
+  it('tells a division that its matches are not capped to the end time', () => {
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        divisionName="U9"
+        endTimeCapacity={{ end: new Date('2026-01-15T11:00'), slots: 2, matches: 4 }}
+        onNext={vi.fn()}
+        onBack={vi.fn()}
+      />
+    )
+
+    expect(
+      screen.getByText(/tilpasses ikke automatisk til sluttidspunktet kl. 11:00/)
+    ).toBeInTheDocument()
+    expect(screen.queryByText(/er der plads til 4 kampe/)).not.toBeInTheDocument()
+    expect(screen.queryByText(/Kun 4 kampe kan nå at blive spillet/)).not.toBeInTheDocument()
+  })
+
+  it('hides pinned matches for divisions', () => {
+    render(
+      <Step3SchedulingMode
+        initialConfig={{ mode: 'round-robin' }}
+        teamCount={teams.length}
+        teams={teams}
+        divisionName="U9"
+        onNext={vi.fn()}
+        onBack={vi.fn()}
+      />
+    )
+
+    expect(screen.queryByText('Fastlåste kampe (valgfri)')).not.toBeInTheDocument()
+  })
 })
@@ -1,8 +1,9 @@
-import { render, screen, within } from '@testing-library/react'
+import { fireEvent, render, screen, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import { Step4Schedule } from '../components/Step4Schedule'
-import { exportToCSV, generateSchedule } from '../lib/scheduler'
+import { delaySchedule, exportToCSV, generateSchedule, withdrawTeam } from '../lib/scheduler'
+import { assignReferees } from '../lib/referees'
 import type { Match, Team, TournamentSettings } from '../lib/types'
 
 const settings: TournamentSettings = {
@@ -100,6 +101,8 @@ describe('Step4Schedule', () => {
       expect(content.replace(/^\uFEFF/, '').split('\r\n')[0]).toBe(
         'Time,Pitch,Home Team,Away Team,End Time'
       )
+      // A single table, so spreadsheets and imports read it as is
+      expect(content).not.toContain('\r\n\r\n')
       expect(click).toHaveBeenCalledTimes(1)
       expect(revokeObjectURL).toHaveBeenCalledWith('blob:mock-url')
     } finally {
@@ -108,6 +111,29 @@ describe('Step4Schedule', () => {
     }
   })
 
+  it('downloads the fairness report as a CSV file of its own', async () => {
+    const user = userEvent.setup()
+    const createObjectURL = vi.fn((_blob: Blob | MediaSource) => 'blob:mock-url')
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = vi.fn()
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined)
+
+    try {
+      renderStep4()
+      await user.click(screen.getByRole('tab', { name: 'Fordeling' }))
+      await user.click(screen.getByRole('button', { name: 'Fordeling som CSV' }))
+
+      const blob = createObjectURL.mock.calls[0][0] as Blob
+      const content = await blob.text()
+      expect(content.replace(/^\uFEFF/, '').split('\r\n')[0]).toBe(
+        'Team,Matches,Byes,Shortest Rest (min),Longest Rest (min),First Match,Last Match,Home,Away,Bane 1,Bane 2'
+      )
+    } finally {
+      delete (URL as { createObjectURL?: unknown }).createObjectURL
+      delete (URL as { revokeObjectURL?: unknown }).revokeObjectURL
+    }
+  })
+
   it('shows an empty state when the search matches no team', async () => {
     const user = userEvent.setup()
     renderStep4()
@@ -135,6 +161,7 @@ describe('Step4Schedule', () => {
     const text = writeText.mock.calls[0][0]
     expect(text).toContain('FOOTBALL TOURNAMENT SCHEDULE')
     expect(text).toContain('Bane 1: ')
+    expect(text).toContain('TEAM OVERVIEW')
     expect(await screen.findByText('Kopieret!')).toBeInTheDocument()
   })
 
@@ -170,6 +197,217 @@ describe('Step4Schedule', () => {
     // Odd-team warning surfaces above the table
     expect(screen.getByText('Ulige antal hold: Et hold sidder over i hver runde')).toBeVisible()
   })
+
+  it('renders the group stage and the knockout bracket as separate tables', () => {
+    const schedule = generateSchedule(settings, fourTeams, {
+      mode: 'groups-knockout',
+      numGroups: 2,
+      teamsAdvancingPerGroup: 1,
+    })
+    renderStep4(schedule)
+
+    expect(screen.getByRole('heading', { name: 'Puljespil' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Slutspil' })).toBeInTheDocument()
+
+    const [groupTable, knockoutTable] = screen.getAllByRole('table')
+    expect(within(groupTable).getAllByText(/^Pulje [AB]$/)).toHaveLength(2)
+    expect(within(knockoutTable).getByText('Finale')).toBeInTheDocument()
+    expect(within(knockoutTable).getByText('1. Pulje A')).toBeInTheDocument()
+  })
+
+  it('shows referees and filters the program by referee', async () => {
+    const user = userEvent.setup()
+    const schedule = assignReferees(fourTeamSchedule(), fourTeams, {
+      referees: [
+        { id: 'r1', name: 'Hans' },
+        { id: 'r2', name: 'Grete' },
+      ],
+    })
+    renderStep4(schedule)
+
+    const table = screen.getByRole('table')
+    expect(within(table).getByRole('columnheader', { name: 'Dommer' })).toBeInTheDocument()
+    expect(within(table).getAllByText('Hans')).toHaveLength(3)
+
+    await user.click(screen.getByLabelText('Dommer'))
+    await user.click(screen.getByRole('option', { name: 'Grete' }))
+
+    expect(within(screen.getByRole('table')).queryByText('Hans')).not.toBeInTheDocument()
+    expect(within(screen.getByRole('table')).getAllByText('Grete')).toHaveLength(3)
+  })
+
+  it('moves a dragged match onto another match or a free pitch', () => {
+    const onMoveMatch = vi.fn()
+    const threePitches = { ...settings, numPitches: 3 }
+    const schedule = renderStep4(
+      generateSchedule(threePitches, fourTeams, { mode: 'round-robin' }),
+      fourTeams,
+      { onMoveMatch, settings: threePitches }
+    )
+    const [first, , third] = schedule.matches
+    const rowOf = (match: Match) =>
+      screen
+        .getAllByText(match.homeTeam.name)
+        .map(cell => cell.closest('tr')!)
+        .find(row => within(row).queryByText(match.awayTeam.name))!
+
+    fireEvent.dragStart(rowOf(first))
+    fireEvent.dragOver(rowOf(third))
+    fireEvent.drop(rowOf(third))
+    expect(onMoveMatch).toHaveBeenCalledWith(first.id, {
+      startTime: third.startTime,
+      pitch: third.pitch,
+    })
+
+    fireEvent.dragStart(rowOf(first))
+    const freePitches = screen.getAllByText('Flyt hertil: Bane 3')
+    expect(freePitches).toHaveLength(3)
+    fireEvent.drop(freePitches[1])
+    expect(onMoveMatch).toHaveBeenLastCalledWith(first.id, {
+      startTime: third.startTime,
+      pitch: 3,
+    })
+    expect(screen.queryByText('Flyt hertil: Bane 3')).not.toBeInTheDocument()
+  })
+
+  it('marks a manually edited schedule', () => {
+    renderStep4({ ...fourTeamSchedule(), manuallyEdited: true })
+
+    expect(screen.getByText('Manuelt redigeret')).toBeInTheDocument()
+  })
+
+  it('lists the per-team fairness numbers', async () => {
+    const user = userEvent.setup()
+    renderStep4()
+
+    await user.click(screen.getByRole('tab', { name: 'Fordeling' }))
+
+    const table = screen.getByRole('table', { name: 'Fordeling pr. hold' })
+    const alphaRow = within(table).getByText('Alpha').closest('tr')!
+    // Three matches back to back: 20 minutes each with 5-minute breaks
+    expect(within(alphaRow).getAllByText('5 min')).toHaveLength(2)
+    expect(within(alphaRow).getByText('10:00')).toBeInTheDocument()
+    expect(within(alphaRow).getByText('10:50')).toBeInTheDocument()
+    // Home/away is balanced: three matches split two to one
+    expect(within(alphaRow).getByText(/^(2\/1|1\/2)$/)).toBeInTheDocument()
+  })
+
+  it('shows the quality score and its components', () => {
+    renderStep4()
+
+    expect(screen.getByText('Skemakvalitet')).toBeInTheDocument()
+    expect(screen.getByLabelText('Kvalitetsscore')).toHaveTextContent(/^\d+\/100$/)
+    expect(screen.getByText('Kampe i træk')).toBeInTheDocument()
+    expect(screen.getByText('Skæv banefordeling')).toBeInTheDocument()
+  })
+
+  it('lists suggestions for finishing before the end time', () => {
+    const schedule = generateSchedule(
+      { ...settings, days: [{ date: '2026-06-20', startTime: '10:00', endTime: '10:45' }] },
+      fourTeams,
+      { mode: 'round-robin' }
+    )
+    renderStep4(schedule)
+
+    expect(screen.getByText('Forslag til at nå sluttidspunktet')).toBeInTheDocument()
+    expect(
+      screen.getByText('Skemaet slutter kl. 11:10, 25 min efter sluttidspunktet 10:45')
+    ).toBeInTheDocument()
+  })
+
+  it('generates another variant until results are entered', async () => {
+    const user = userEvent.setup()
+    const onGenerateVariant = vi.fn()
+    renderStep4(fourTeamSchedule(), fourTeams, { seed: 2, onGenerateVariant })
+
+    expect(screen.getByText('Variant 3')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /Ny variant/ }))
+    expect(onGenerateVariant).toHaveBeenCalledTimes(1)
+  })
+
+  it('disables new variants once a result is entered', () => {
+    const schedule = fourTeamSchedule()
+    schedule.matches[0] = { ...schedule.matches[0], homeScore: 1, awayScore: 0, played: true }
+    renderStep4(schedule, fourTeams, { onGenerateVariant: vi.fn() })
+
+    expect(screen.getByRole('button', { name: /Ny variant/ })).toBeDisabled()
+  })
+})
+
+describe('Step4Schedule team withdrawal', () => {
+  it('withdraws the chosen team and offers to close the gaps', async () => {
+    const user = userEvent.setup()
+    const onWithdrawTeam = vi.fn()
+    renderStep4(fourTeamSchedule(), fourTeams, { onWithdrawTeam })
+
+    const withdrawButton = screen.getByRole('button', { name: /Træk hold/ })
+    expect(withdrawButton).toBeDisabled()
+    await user.click(screen.getByLabelText('Hold der trækkes'))
+    await user.click(screen.getByRole('option', { name: 'Gamma' }))
+    await user.click(screen.getByLabelText('Ryk senere kampe frem i de ledige tider'))
+    await user.click(withdrawButton)
+
+    expect(onWithdrawTeam).toHaveBeenCalledWith('c', false)
+  })
+
+  it('highlights withdrawn teams and the matches moved forward', async () => {
+    const user = userEvent.setup()
+    const sixTeams: Team[] = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ id, name: `Hold ${id}` }))
+    const schedule = generateSchedule(settings, sixTeams, { mode: 'round-robin' })
+    const withdrawn = withdrawTeam(
+      schedule,
+      'a',
+      sixTeams,
+      settings,
+      schedule.matches[0].startTime,
+      true
+    )
+    const moved = withdrawn.withdrawals![0].movedMatchIds.length
+    renderStep4(withdrawn, sixTeams, { onWithdrawTeam: vi.fn() })
+
+    expect(screen.getByLabelText('Trukne hold')).toHaveTextContent(
+      `Hold a er trukket: 5 kampe registreret som walkover (3-0), ${moved} kampe rykket frem`
+    )
+    expect(screen.getAllByText('Rykket frem')).toHaveLength(moved)
+    await user.click(screen.getByLabelText('Hold der trækkes'))
+    expect(screen.queryByRole('option', { name: 'Hold a' })).not.toBeInTheDocument()
+  })
+})
+
+describe('Step4Schedule delays', () => {
+  it('delays the program from the chosen slot', async () => {
+    const user = userEvent.setup()
+    const onDelay = vi.fn()
+    const schedule = renderStep4(fourTeamSchedule(), fourTeams, { onDelay })
+
+    await user.click(screen.getByLabelText('Fra kampstart'))
+    await user.click(screen.getByRole('option', { name: '10:25' }))
+    await user.type(screen.getByLabelText('Minutter bagud'), '15')
+    await user.clear(screen.getByLabelText('Korteste pause mellem kampe (min)'))
+    await user.type(screen.getByLabelText('Korteste pause mellem kampe (min)'), '2')
+    await user.click(screen.getByRole('button', { name: /Ryk programmet/ }))
+
+    const slot = schedule.matches.find(m => m.round === 1)!.startTime
+    expect(onDelay).toHaveBeenCalledWith(slot, 15, 2)
+  })
+
+  it('shows the planned times of delayed slots', () => {
+    const schedule = fourTeamSchedule()
+    renderStep4(
+      delaySchedule(schedule, schedule.matches[0].startTime, 10, fourTeams, settings),
+      fourTeams,
+      { onDelay: vi.fn() }
+    )
+
+    expect(screen.getByText('Forsinket')).toBeInTheDocument()
+    const rows = within(screen.getByRole('table')).getAllByRole('row')
+    expect(rows[1]).toHaveTextContent('10:1010:00')
+    expect(screen.getAllByTitle('Planlagt tidspunkt').map(el => el.textContent)).toEqual([
+      '10:00',
+      '10:25',
+      '10:50',
+    ])
+  })
 })
 
 describe('exportToCSV', () => {
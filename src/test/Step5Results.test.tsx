@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { Step5Results } from '../components/Step5Results'
+import { generateSchedule, withdrawTeam } from '../lib/scheduler'
+import { applyMatchResult } from '../lib/standings'
+import type { GeneratedSchedule, Team, TournamentSettings } from '../lib/types'
+
+const settings: TournamentSettings = {
+  name: 'Test Cup',
+  startDate: '2026-06-20',
+  startTime: '10:00',
+  numPitches: 2,
+  matchMode: 'full-time',
+  matchDurationMinutes: 20,
+  breakBetweenMatches: 5,
+}
+
+const teams: Team[] = [
+  { id: 'a', name: 'Alpha' },
+  { id: 'b', name: 'Beta' },
+]
+
+function ResultsHarness({ initialSchedule }: { initialSchedule: GeneratedSchedule }) {
+  const [schedule, setSchedule] = useState(initialSchedule)
+  return (
+    <Step5Results
+      schedule={schedule}
+      teams={teams}
+      settings={settings}
+      onResultChange={(matchId, homeScore, awayScore) =>
+        setSchedule(current => applyMatchResult(current, matchId, homeScore, awayScore))
+      }
+      onBack={vi.fn()}
+      onSave={vi.fn()}
+    />
+  )
+}
+
+describe('Step5Results', () => {
+  it('updates the standings table as scores are entered', async () => {
+    const user = userEvent.setup()
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    const [match] = schedule.matches
+    render(<ResultsHarness initialSchedule={schedule} />)
+
+    expect(screen.getByText('0 af 1 kampe spillet')).toBeInTheDocument()
+
+    await user.type(
+      screen.getByLabelText(`Mål til ${match.homeTeam.name} mod ${match.awayTeam.name}`),
+      '2'
+    )
+    await user.type(
+      screen.getByLabelText(`Mål til ${match.awayTeam.name} mod ${match.homeTeam.name}`),
+      '0'
+    )
+
+    expect(screen.getByText('1 af 1 kampe spillet')).toBeInTheDocument()
+    const standingsRows = within(screen.getAllByRole('table')[0]).getAllByRole('row')
+    expect(standingsRows[1]).toHaveTextContent(match.homeTeam.name)
+    expect(standingsRows[1]).toHaveTextContent('2-0')
+    expect(standingsRows[1]).toHaveTextContent('+2')
+  })
+
+  it('counts walkovers in the standings and marks the withdrawn team', () => {
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    render(
+      <ResultsHarness
+        initialSchedule={withdrawTeam(
+          schedule,
+          'a',
+          teams,
+          settings,
+          schedule.matches[0].startTime
+        )}
+      />
+    )
+
+    expect(screen.getByText('0 af 0 kampe spillet')).toBeInTheDocument()
+    const standingsRows = within(screen.getByRole('table')).getAllByRole('row')
+    expect(standingsRows[1]).toHaveTextContent('Beta')
+    expect(standingsRows[1]).toHaveTextContent('3-0')
+    expect(standingsRows[2]).toHaveTextContent('Alpha(trukket)')
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { computeFairnessReport, exportFairnessToCSV, exportFairnessToText } from '../lib/fairness'
+import { generateSchedule } from '../lib/scheduler'
+import type { Team, TournamentSettings } from '../lib/types'
+
+describe('computeFairnessReport', () => {
+  const settings: TournamentSettings = {
+    name: 'Test Cup',
+    startDate: '2026-06-20',
+    startTime: '10:00',
+    numPitches: 2,
+    pitchNames: ['Kunst', 'Græs'],
+    matchMode: 'full-time',
+    matchDurationMinutes: 20,
+    breakBetweenMatches: 5,
+  }
+  const teams: Team[] = ['A', 'B', 'C', 'D', 'E'].map(id => ({ id, name: `Team ${id}` }))
+
+  it('counts matches, byes, rest, kick-off times, pitches and home/away per team', () => {
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    const report = computeFairnessReport(schedule, teams)
+
+    expect(report.map(row => row.team.id)).toEqual(['A', 'B', 'C', 'D', 'E'])
+    for (const row of report) {
+      const matches = schedule.matches.filter(
+        m => m.homeTeam.id === row.team.id || m.awayTeam.id === row.team.id
+      )
+      expect(row.matches).toBe(4)
+      expect(row.home + row.away).toBe(4)
+      expect(row.pitchCounts.reduce((sum, n) => sum + n, 0)).toBe(4)
+      expect(row.byes).toBe(schedule.byes!.filter(b => b.team.id === row.team.id).length)
+      expect(row.shortestRestMinutes).toBeGreaterThanOrEqual(5)
+      expect(row.longestRestMinutes).toBeGreaterThanOrEqual(row.shortestRestMinutes!)
+      expect(row.firstMatch).toEqual(new Date(Math.min(...matches.map(m => m.startTime.getTime()))))
+      expect(row.lastMatch).toEqual(new Date(Math.max(...matches.map(m => m.startTime.getTime()))))
+    }
+    // Five teams: every team sits out exactly one round
+    expect(report.every(row => row.byes === 1)).toBe(true)
+  })
+
+  it('leaves rest empty for a team with a single match', () => {
+    const schedule = generateSchedule(settings, teams.slice(0, 2), { mode: 'round-robin' })
+    const [row] = computeFairnessReport(schedule, teams.slice(0, 2))
+
+    expect(row.matches).toBe(1)
+    expect(row.shortestRestMinutes).toBeUndefined()
+    expect(row.longestRestMinutes).toBeUndefined()
+  })
+
+  it('writes the report as CSV and text sections', () => {
+    const schedule = generateSchedule(settings, teams.slice(0, 2), { mode: 'round-robin' })
+    const report = computeFairnessReport(schedule, teams.slice(0, 2))
+
+    expect(exportFairnessToCSV(report, settings).split('\r\n')).toEqual([
+      'Team,Matches,Byes,Shortest Rest (min),Longest Rest (min),First Match,Last Match,Home,Away,Kunst',
+      'Team A,1,0,,,10:00,10:00,1,0,1',
+      'Team B,1,0,,,10:00,10:00,0,1,1',
+    ])
+    const text = exportFairnessToText(report, settings)
+    expect(text).toContain('TEAM OVERVIEW')
+    expect(text).toContain('Team A\n  Matches: 1 (home 1, away 0)\n')
+    expect(text).toContain('  Pitches: Kunst: 1\n')
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeFeasibility } from '../lib/feasibility'
+import { generateSchedule } from '../lib/scheduler'
+import type { SchedulingConfig, Team, TournamentSettings } from '../lib/types'
+
+describe('analyzeFeasibility', () => {
+  const teams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(id => ({ id, name: `Team ${id}` }))
+
+  it('finds nothing wrong without constraints', () => {
+    expect(analyzeFeasibility(teams, { mode: 'limited-matches', maxMatchesPerTeam: 3 })).toEqual([])
+    expect(analyzeFeasibility(teams, { mode: 'round-robin' })).toEqual([])
+  })
+
+  it('explains teams with no or few allowed opponents', () => {
+    const issues = analyzeFeasibility(teams.slice(0, 4), {
+      mode: 'limited-matches',
+      maxMatchesPerTeam: 3,
+      excludedMatchups: [
+        ['A', 'B'],
+        ['A', 'C'],
+        ['A', 'D'],
+        ['B', 'C'],
+      ],
+    })
+
+    expect(issues).toContainEqual({
+      key: 'no-opponents',
+      message: 'Team A har ingen tilladte modstandere og får ingen kampe',
+      teamIds: ['A'],
+    })
+    expect(issues).toContainEqual({
+      key: 'few-opponents',
+      message:
+        'Team B har kun 1 tilladte modstander (Team D) og må møde den flere gange for at nå 3 kampe',
+      teamIds: ['B'],
+    })
+  })
+
+  it('explains teams that share too few opponents', () => {
+    // Three teams from one club may not meet, leaving them two opponents
+    const issues = analyzeFeasibility(teams.slice(0, 5), {
+      mode: 'limited-matches',
+      maxMatchesPerTeam: 2,
+      excludedMatchups: [
+        ['A', 'B'],
+        ['A', 'C'],
+        ['B', 'C'],
+      ],
+    })
+
+    expect(issues).toEqual([
+      {
+        key: 'shared-opponents',
+        message:
+          'Team A, Team B og Team C må kun spille mod Team D og Team E, så de kan ikke alle nå 2 kampe',
+        teamIds: ['A', 'B', 'C'],
+      },
+    ])
+  })
+
+  it('explains teams with more required matchups than matches', () => {
+    expect(
+      analyzeFeasibility(teams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 2,
+        requiredMatchups: [
+          ['A', 'B'],
+          ['C', 'A'],
+          ['A', 'D'],
+        ],
+      })
+    ).toEqual([
+      {
+        key: 'required-cap',
+        message: 'Team A skal møde Team B, Team C og Team D, men spiller kun 2 kampe',
+        teamIds: ['A'],
+      },
+    ])
+  })
+
+  it('explains a total cap that is too low and an odd number of team matches', () => {
+    expect(
+      analyzeFeasibility(teams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 3,
+        maxTotalMatches: 7,
+      })
+    ).toEqual([
+      {
+        key: 'total-cap',
+        message:
+          'Maks 7 kampe i alt er for få til at alle 6 hold kan spille 3 kampe; det kræver 9 kampe',
+        teamIds: [],
+      },
+    ])
+    expect(
+      analyzeFeasibility(teams.slice(0, 5), { mode: 'limited-matches', maxMatchesPerTeam: 3 })
+    ).toEqual([
+      {
+        key: 'odd-total',
+        message:
+          '5 hold med 3 kampe hver giver et ulige antal holdkampe, så ét hold får en kamp mindre',
+        teamIds: [],
+      },
+    ])
+  })
+
+  it('matches the teams the scheduler leaves short', () => {
+    const settings: TournamentSettings = {
+      name: 'Test Cup',
+      startDate: '2026-06-20',
+      startTime: '10:00',
+      numPitches: 2,
+      matchMode: 'full-time',
+      matchDurationMinutes: 20,
+      breakBetweenMatches: 5,
+    }
+    const config: SchedulingConfig = {
+      mode: 'limited-matches',
+      maxMatchesPerTeam: 2,
+      excludedMatchups: [
+        ['A', 'B'],
+        ['A', 'C'],
+        ['B', 'C'],
+      ],
+    }
+    const fiveTeams = teams.slice(0, 5)
+    const schedule = generateSchedule(settings, fiveTeams, config)
+    const counts = fiveTeams.map(
+      team =>
+        schedule.matches.filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id).length
+    )
+
+    expect(counts.slice(0, 3).some(count => count < 2)).toBe(true)
+    expect(schedule.warnings.some(w => w.includes('færre kampe end de 2 ønskede'))).toBe(true)
+    expect(analyzeFeasibility(fiveTeams, config)[0].teamIds).toEqual(['A', 'B', 'C'])
+  })
+})
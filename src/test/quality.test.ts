@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { scoreSchedule } from '../lib/quality'
+import { generateSchedule } from '../lib/scheduler'
+import type { GeneratedSchedule, Match, Team, TournamentSettings } from '../lib/types'
+
+describe('scoreSchedule', () => {
+  const teams: Team[] = ['A', 'B', 'C', 'D'].map(id => ({ id, name: `Team ${id}` }))
+  const team = (id: string) => teams.find(t => t.id === id)!
+
+  const makeMatch = (home: string, away: string, slot: number, pitch = 1): Match => {
+    const startTime = new Date(2026, 5, 20, 10, slot * 25)
+    return {
+      id: `${home}-${away}`,
+      homeTeam: team(home),
+      awayTeam: team(away),
+      startTime,
+      endTime: new Date(startTime.getTime() + 20 * 60000),
+      pitch,
+    }
+  }
+
+  const scheduleOf = (matches: Match[]): GeneratedSchedule => ({
+    matches,
+    conflicts: [],
+    warnings: [],
+  })
+
+  it('penalises matches and byes in a row and uneven opening and closing slots', () => {
+    const quality = scoreSchedule(
+      scheduleOf([
+        makeMatch('A', 'B', 0),
+        makeMatch('A', 'C', 1),
+        makeMatch('C', 'D', 2),
+        makeMatch('B', 'D', 3),
+      ]),
+      teams
+    )
+
+    const byKey = Object.fromEntries(quality.components.map(c => [c.key, c]))
+    expect(byKey['consecutive-matches'].detail).toBe('3 gange')
+    expect(byKey['consecutive-matches'].penalty).toBe(7.5)
+    expect(byKey['consecutive-byes'].penalty).toBe(2.5)
+    expect(byKey['rest-variance'].penalty).toBe(0)
+    expect(byKey['first-last-slot'].detail).toBe('forskel på 2')
+    expect(byKey['pitch-balance'].penalty).toBe(0)
+    expect(quality.score).toBe(80)
+  })
+
+  it('flags teams that play one pitch much more than another', () => {
+    const quality = scoreSchedule(
+      scheduleOf([
+        makeMatch('A', 'B', 0, 1),
+        makeMatch('C', 'D', 0, 2),
+        makeMatch('A', 'C', 2, 1),
+        makeMatch('B', 'D', 2, 2),
+        makeMatch('A', 'D', 4, 1),
+        makeMatch('B', 'C', 4, 2),
+      ]),
+      teams
+    )
+
+    const pitchBalance = quality.components.find(c => c.key === 'pitch-balance')!
+    // A plays all three on pitch 1; the others split theirs two to one
+    expect(pitchBalance.detail).toBe('1 hold')
+    expect(pitchBalance.penalty).toBe(5)
+  })
+})
+
+describe('generateSchedule with optimisation runs', () => {
+  const settings: TournamentSettings = {
+    name: 'Test Cup',
+    startDate: '2026-06-20',
+    startTime: '10:00',
+    numPitches: 2,
+    matchMode: 'full-time',
+    matchDurationMinutes: 20,
+    breakBetweenMatches: 5,
+  }
+  const teams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G'].map(id => ({ id, name: id }))
+
+  it('keeps the best scoring of the seeded variants', () => {
+    const scores = Array.from(
+      { length: 10 },
+      (_, seed) =>
+        scoreSchedule(generateSchedule(settings, teams, { mode: 'round-robin', seed }), teams).score
+    )
+
+    const best = generateSchedule(settings, teams, { mode: 'round-robin', optimizationRuns: 10 })
+
+    expect(scoreSchedule(best, teams).score).toBe(Math.max(...scores))
+    expect(best.matches).toHaveLength(21)
+  })
+})
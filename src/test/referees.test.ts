@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { assignReferees } from '../lib/referees'
+import { exportToCSV, exportToText, generateSchedule, withdrawTeam } from '../lib/scheduler'
+import type { GeneratedSchedule, Match, Team, TournamentSettings } from '../lib/types'
+
+describe('assignReferees', () => {
+  const settings: TournamentSettings = {
+    name: 'Test Cup',
+    startDate: '2026-06-20',
+    startTime: '10:00',
+    numPitches: 2,
+    matchMode: 'full-time',
+    matchDurationMinutes: 20,
+    breakBetweenMatches: 5,
+  }
+
+  const teams: Team[] = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta'].map(name => ({
+    id: name.toLowerCase(),
+    name,
+  }))
+
+  const overlaps = (a: Match, b: Match) => a.startTime < b.endTime && b.startTime < a.endTime
+
+  const expectNoDoubleBooking = (schedule: GeneratedSchedule) => {
+    for (const match of schedule.matches) {
+      const clashes = schedule.matches.filter(
+        other =>
+          other.id !== match.id && other.referee?.id === match.referee?.id && overlaps(other, match)
+      )
+      expect(clashes).toEqual([])
+    }
+  }
+
+  it('gives every match a named referee and balances the workload', () => {
+    const schedule = assignReferees(
+      generateSchedule(settings, teams, { mode: 'round-robin' }),
+      teams,
+      {
+        referees: [
+          { id: 'r1', name: 'Hans' },
+          { id: 'r2', name: 'Grete' },
+        ],
+      }
+    )
+
+    expect(schedule.matches).toHaveLength(15)
+    expect(schedule.matches.every(m => m.referee)).toBe(true)
+    expectNoDoubleBooking(schedule)
+    const loads = ['r1', 'r2'].map(id => schedule.matches.filter(m => m.referee?.id === id).length)
+    expect(Math.max(...loads) - Math.min(...loads)).toBeLessThanOrEqual(1)
+  })
+
+  it('lets teams referee matches they are not playing in or alongside', () => {
+    const schedule = assignReferees(
+      generateSchedule(settings, teams, { mode: 'round-robin' }),
+      teams,
+      { referees: [], teamsReferee: true }
+    )
+
+    expect(schedule.matches.every(m => m.referee?.teamId)).toBe(true)
+    expectNoDoubleBooking(schedule)
+    for (const match of schedule.matches) {
+      const refereeTeam = match.referee!.teamId
+      const playing = schedule.matches.filter(
+        other =>
+          (other.homeTeam.id === refereeTeam || other.awayTeam.id === refereeTeam) &&
+          (other.id === match.id || overlaps(other, match))
+      )
+      expect(playing).toEqual([])
+    }
+    const loads = teams.map(t => schedule.matches.filter(m => m.referee?.teamId === t.id).length)
+    expect(Math.max(...loads) - Math.min(...loads)).toBeLessThanOrEqual(1)
+  })
+
+  it('keeps teams from refereeing knockout matches they could still play in', () => {
+    const fourTeams = teams.slice(0, 4)
+    const schedule = assignReferees(
+      generateSchedule(settings, fourTeams, {
+        mode: 'groups-knockout',
+        numGroups: 2,
+        teamsAdvancingPerGroup: 2,
+      }),
+      fourTeams,
+      { referees: [], teamsReferee: true }
+    )
+
+    // Every team can reach the final or bronze match, and a semifinal draws on
+    // both groups while the other semifinal is played alongside it
+    const knockout = schedule.matches.filter(m => m.stage === 'knockout')
+    expect(knockout.length).toBeGreaterThan(0)
+    for (const match of knockout) {
+      expect(match.referee).toBeUndefined()
+    }
+  })
+
+  it('gives withdrawn teams no referee duties', () => {
+    let schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    schedule = withdrawTeam(schedule, 'alpha', teams, settings, schedule.matches[0].startTime)
+
+    const refereed = assignReferees(schedule, teams, { referees: [], teamsReferee: true })
+
+    expect(refereed.matches.some(m => m.referee?.teamId === 'alpha')).toBe(false)
+  })
+
+  it('warns about matches no referee can take', () => {
+    const fourTeams = teams.slice(0, 4)
+    const schedule = assignReferees(
+      generateSchedule(settings, fourTeams, { mode: 'round-robin' }),
+      fourTeams,
+      { referees: [{ id: 'r1', name: 'Hans' }] }
+    )
+
+    const unassigned = schedule.matches.filter(m => !m.referee)
+    expect(unassigned).toHaveLength(3)
+    expect(schedule.warnings.filter(w => w.startsWith('Ingen ledig dommer'))).toHaveLength(3)
+  })
+
+  it('keeps existing assignments when run again', () => {
+    const pool = { referees: [{ id: 'r1', name: 'Hans' }], teamsReferee: true }
+    const first = assignReferees(
+      generateSchedule(settings, teams, { mode: 'round-robin' }),
+      teams,
+      pool
+    )
+    const second = assignReferees(first, teams, pool)
+
+    expect(second.matches).toEqual(first.matches)
+    expect(second.warnings).toEqual(first.warnings)
+  })
+
+  it('leaves the schedule untouched without a referee pool', () => {
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+    expect(assignReferees(schedule, teams, undefined)).toBe(schedule)
+  })
+
+  it('lists referees in the text and CSV exports', () => {
+    const schedule = assignReferees(
+      generateSchedule(settings, teams, { mode: 'round-robin' }),
+      teams,
+      { referees: [{ id: 'r1', name: 'Hans' }], teamsReferee: true }
+    )
+
+    expect(exportToText(schedule.matches, settings)).toContain(' - Dommer: Hans')
+    const lines = exportToCSV(schedule.matches, settings).split('\r\n')
+    expect(lines[0]).toBe('Time,Pitch,Home Team,Away Team,End Time,Referee')
+    expect(lines.filter(line => line.endsWith(',Hans')).length).toBeGreaterThan(0)
+  })
+})
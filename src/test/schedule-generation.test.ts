@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getRequestRuns, startScheduleGeneration } from '../lib/schedule-generation'
+import { generateSchedule } from '../lib/scheduler'
+import type { ScheduleRequest, Team, TournamentSettings } from '../lib/types'
+
+const settings: TournamentSettings = {
+  name: 'Test Cup',
+  startDate: '2026-06-20',
+  startTime: '10:00',
+  numPitches: 2,
+  matchMode: 'full-time',
+  matchDurationMinutes: 20,
+  breakBetweenMatches: 5,
+}
+const teams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(id => ({ id, name: `Team ${id}` }))
+const request: ScheduleRequest = {
+  settings,
+  teams,
+  schedulingConfig: { mode: 'round-robin', optimizationRuns: 3 },
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('startScheduleGeneration', () => {
+  it('counts the variants of a request', () => {
+    expect(getRequestRuns(request)).toBe(3)
+    expect(
+      getRequestRuns({
+        ...request,
+        divisions: [
+          { id: 'u9', name: 'U9', schedulingConfig: { mode: 'round-robin', optimizationRuns: 4 } },
+          { id: 'u11', name: 'U11', schedulingConfig: { mode: 'swiss', optimizationRuns: 4 } },
+        ],
+      })
+    ).toBe(5)
+  })
+
+  it('generates on the main thread with progress when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined)
+    const onProgress = vi.fn()
+
+    const schedule = await startScheduleGeneration(request, onProgress).result
+
+    expect(schedule).toEqual(generateSchedule(settings, teams, request.schedulingConfig))
+    expect(onProgress.mock.calls).toEqual([
+      [{ done: 1, total: 3 }],
+      [{ done: 2, total: 3 }],
+      [{ done: 3, total: 3 }],
+    ])
+  })
+
+  it('posts the request to a worker and relays its progress and result', async () => {
+    const workers: FakeWorker[] = []
+    class FakeWorker {
+      onmessage: ((event: { data: unknown }) => void) | null = null
+      onerror: (() => void) | null = null
+      posted: unknown[] = []
+      terminate = vi.fn()
+      constructor() {
+        workers.push(this)
+      }
+      postMessage(message: unknown) {
+        this.posted.push(message)
+      }
+    }
+    vi.stubGlobal('Worker', FakeWorker)
+    const onProgress = vi.fn()
+
+    const generation = startScheduleGeneration(request, onProgress)
+    const [worker] = workers
+    expect(worker.posted).toEqual([request])
+
+    const schedule = generateSchedule(settings, teams, request.schedulingConfig)
+    worker.onmessage!({ data: { type: 'progress', done: 1, total: 3 } })
+    worker.onmessage!({ data: { type: 'result', schedule } })
+
+    await expect(generation.result).resolves.toBe(schedule)
+    expect(onProgress).toHaveBeenCalledWith({ done: 1, total: 3 })
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+
+  it('terminates the worker on cancel and rejects on errors', async () => {
+    const workers: { onmessage: (event: { data: unknown }) => void; terminate: () => void }[] = []
+    vi.stubGlobal(
+      'Worker',
+      class {
+        onmessage = () => {}
+        terminate = vi.fn()
+        constructor() {
+          workers.push(this)
+        }
+        postMessage() {}
+      }
+    )
+
+    const cancelled = startScheduleGeneration(request)
+    cancelled.cancel()
+    await expect(cancelled.result).resolves.toBeNull()
+    expect(workers[0].terminate).toHaveBeenCalled()
+
+    const failed = startScheduleGeneration(request)
+    workers[1].onmessage({ data: { type: 'error', message: 'Ugyldig starttid' } })
+    await expect(failed.result).rejects.toThrow('Ugyldig starttid')
+  })
+})
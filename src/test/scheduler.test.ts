@@ -1,6 +1,26 @@
 import { describe, it, expect } from 'vitest'
-import { generateSchedule, getPitchName } from '../lib/scheduler'
-import type { Team, TournamentSettings, SchedulingConfig } from '../lib/types'
+import {
+  canGenerateNextSwissRound,
+  delaySchedule,
+  exportToCSV,
+  exportToText,
+  generateDivisionSchedule,
+  generateNextSwissRound,
+  generateSchedule,
+  getEndTimeCapacity,
+  getPitchName,
+  moveMatch,
+  withdrawTeam,
+} from '../lib/scheduler'
+import { applyMatchResult } from '../lib/standings'
+import type {
+  Division,
+  GeneratedSchedule,
+  Match,
+  Team,
+  TournamentSettings,
+  SchedulingConfig,
+} from '../lib/types'
 
 describe('Scheduler', () => {
   const defaultSettings: TournamentSettings = {
@@ -407,6 +427,70 @@ describe('Scheduler', () => {
       expect(schedule.warnings.some(w => w.includes('udelukket'))).toBe(true)
     })
 
+    it('should always include required matchups', () => {
+      const eightTeams: Team[] = ['1', '2', '3', '4', '5', '6', '7', '8'].map(id => ({
+        id,
+        name: `Team ${id}`,
+      }))
+      const requiredMatchups: [string, string][] = [
+        ['1', '8'],
+        ['2', '7'],
+        ['3', '6'],
+      ]
+      const keys = (schedule: GeneratedSchedule) =>
+        schedule.matches.map(m => [m.homeTeam.id, m.awayTeam.id].sort().join('-'))
+
+      for (let seed = 0; seed < 5; seed++) {
+        const schedule = generateSchedule(defaultSettings, eightTeams, {
+          mode: 'limited-matches',
+          maxMatchesPerTeam: 2,
+          requiredMatchups,
+          seed,
+        })
+
+        expect(keys(schedule)).toEqual(expect.arrayContaining(['1-8', '2-7', '3-6']))
+        expect(schedule.matches).toHaveLength(8)
+        for (const team of eightTeams) {
+          expect(keys(schedule).filter(key => key.split('-').includes(team.id))).toHaveLength(2)
+        }
+      }
+    })
+
+    it('should warn about required matchups beyond the match cap', () => {
+      const schedule = generateSchedule(defaultSettings, teams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 1,
+        requiredMatchups: [
+          ['1', '2'],
+          ['1', '3'],
+        ],
+      })
+      const keys = schedule.matches.map(m => [m.homeTeam.id, m.awayTeam.id].sort().join('-'))
+
+      expect(keys).toContain('1-2')
+      expect(keys).not.toContain('1-3')
+      expect(schedule.warnings).toContain(
+        'Team A og Team C skulle mødes, men der er ikke plads til kampen inden for det maksimale antal kampe'
+      )
+      expect(schedule.warnings).toContain('1 holdpar er sikret en kamp mod hinanden')
+    })
+
+    it('should warn about required matchups that are also excluded', () => {
+      const schedule = generateSchedule(defaultSettings, teams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 1,
+        requiredMatchups: [['1', '2']],
+        excludedMatchups: [['1', '2']],
+      })
+      const keys = schedule.matches.map(m => [m.homeTeam.id, m.awayTeam.id].sort().join('-'))
+
+      expect(keys).not.toContain('1-2')
+      expect(schedule.warnings).toContain(
+        'Team A og Team B skulle mødes, men parret er også udelukket fra at spille mod hinanden'
+      )
+      expect(schedule.warnings.some(w => w.includes('er sikret en kamp'))).toBe(false)
+    })
+
     it('should give all teams equal matches even with excluded matchups', () => {
       const sixTeams: Team[] = [
         { id: '1', name: 'Team A' },
@@ -761,6 +845,1464 @@ describe('Scheduler', () => {
     })
   })
 
+  describe('generateSchedule - Double Round Robin', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', doubleRoundRobin: true }
+
+    it('should play every pairing twice with home and away swapped', () => {
+      const schedule = generateSchedule(defaultSettings, teams, config)
+      expect(schedule.matches).toHaveLength(12)
+
+      const fixtures = schedule.matches.map(m => `${m.homeTeam.id}-${m.awayTeam.id}`)
+      expect(new Set(fixtures).size).toBe(12)
+      for (const match of schedule.matches) {
+        expect(fixtures).toContain(`${match.awayTeam.id}-${match.homeTeam.id}`)
+      }
+    })
+
+    it('should start the second leg only after the first leg is complete', () => {
+      const schedule = generateSchedule(
+        defaultSettings,
+        [...teams, { id: '5', name: 'Team E' }],
+        config
+      )
+      const legLength = schedule.matches.length / 2
+      const firstLegEnd = Math.max(...schedule.matches.slice(0, legLength).map(m => m.round!))
+
+      const firstLegPairs = new Set(
+        schedule.matches
+          .filter(m => m.round! <= firstLegEnd)
+          .map(m => [m.homeTeam.id, m.awayTeam.id].sort().join('-'))
+      )
+      expect(firstLegPairs.size).toBe(legLength)
+
+      for (const match of schedule.matches.filter(m => m.round! > firstLegEnd)) {
+        const firstMeeting = schedule.matches.find(
+          m => m.homeTeam.id === match.awayTeam.id && m.awayTeam.id === match.homeTeam.id
+        )!
+        expect(match.round! - firstMeeting.round!).toBe(firstLegEnd + 1)
+      }
+      expect(schedule.conflicts).toHaveLength(0)
+    })
+  })
+
+  describe('generateSchedule - Groups and Knockout', () => {
+    const eightTeams: Team[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `${i + 1}`,
+      name: `Team ${i + 1}`,
+    }))
+
+    const groupsConfig: SchedulingConfig = {
+      mode: 'groups-knockout',
+      numGroups: 2,
+      teamsAdvancingPerGroup: 2,
+    }
+
+    it('should play a round robin inside each group', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams, groupsConfig)
+      const groupMatches = schedule.matches.filter(m => m.stage === 'group')
+
+      // Two groups of 4: 6 matches each
+      expect(groupMatches).toHaveLength(12)
+      for (const match of groupMatches) {
+        const homeGroup = eightTeams.findIndex(t => t.id === match.homeTeam.id) % 2
+        const awayGroup = eightTeams.findIndex(t => t.id === match.awayTeam.id) % 2
+        expect(homeGroup).toBe(match.group)
+        expect(awayGroup).toBe(match.group)
+      }
+      expect(schedule.conflicts).toHaveLength(0)
+    })
+
+    it('should schedule semifinals, bronze match and final after the group stage', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams, groupsConfig)
+      const groupMatches = schedule.matches.filter(m => m.stage === 'group')
+      const knockoutMatches = schedule.matches.filter(m => m.stage === 'knockout')
+      const lastGroupEnd = Math.max(...groupMatches.map(m => m.endTime.getTime()))
+
+      expect(knockoutMatches.map(m => m.label)).toEqual([
+        'Semifinale 1',
+        'Semifinale 2',
+        'Finale',
+        'Bronzekamp',
+      ])
+      for (const match of knockoutMatches) {
+        expect(match.startTime.getTime()).toBeGreaterThan(lastGroupEnd)
+      }
+
+      const [semi1, semi2, final] = knockoutMatches
+      expect([semi1.homeTeam.name, semi1.awayTeam.name]).toEqual(['1. Pulje A', '2. Pulje B'])
+      expect([semi2.homeTeam.name, semi2.awayTeam.name]).toEqual(['1. Pulje B', '2. Pulje A'])
+      expect(final.homeTeam.name).toBe('Vinder Semifinale 1')
+      expect(final.startTime.getTime()).toBeGreaterThan(semi1.endTime.getTime())
+    })
+
+    it('should build quarterfinals when eight teams advance', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams, {
+        mode: 'groups-knockout',
+        numGroups: 4,
+        teamsAdvancingPerGroup: 2,
+      })
+      const labels = schedule.matches.filter(m => m.stage === 'knockout').map(m => m.label)
+
+      expect(labels.filter(label => label?.startsWith('Kvartfinale'))).toHaveLength(4)
+      expect(labels.filter(label => label?.startsWith('Semifinale'))).toHaveLength(2)
+      expect(labels).toContain('Finale')
+    })
+
+    it('should warn when the qualifiers do not fill a bracket', () => {
+      const nineTeams: Team[] = [...eightTeams, { id: '9', name: 'Team 9' }]
+      const schedule = generateSchedule(defaultSettings, nineTeams, {
+        mode: 'groups-knockout',
+        numGroups: 3,
+        teamsAdvancingPerGroup: 2,
+      })
+
+      expect(schedule.warnings).toContain(
+        'Slutspillet har plads til 4 af 6 hold, så kun 1. Pulje A, 1. Pulje B, 1. Pulje C og 2. Pulje A går videre'
+      )
+      const semifinals = schedule.matches.filter(m => m.label?.startsWith('Semifinale'))
+      expect(semifinals).toHaveLength(2)
+      // 2. Pulje A does not meet its own group winner straight away
+      for (const semifinal of semifinals) {
+        const groups = [semifinal.homeTeam.name, semifinal.awayTeam.name].map(n => n.slice(3))
+        expect(groups[0]).not.toBe(groups[1])
+      }
+    })
+
+    it('should only track byes for the group stage', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams, groupsConfig)
+      const lastGroupStart = Math.max(
+        ...schedule.matches.filter(m => m.stage === 'group').map(m => m.startTime.getTime())
+      )
+
+      for (const bye of schedule.byes!) {
+        expect(bye.startTime!.getTime()).toBeLessThanOrEqual(lastGroupStart)
+      }
+    })
+  })
+
+  describe('generateSchedule - Swiss', () => {
+    const swissTeams: Team[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `${i + 1}`,
+      name: `Team ${i + 1}`,
+    }))
+    const config: SchedulingConfig = { mode: 'swiss', swissRounds: 3 }
+
+    // Each side scores the other's id, so every match has a decisive result
+    const playAll = (schedule: GeneratedSchedule) =>
+      schedule.matches.reduce(
+        (current, m) =>
+          m.played
+            ? current
+            : applyMatchResult(current, m.id, Number(m.awayTeam.id), Number(m.homeTeam.id)),
+        schedule
+      )
+
+    it('should only schedule the first round, pairing top half against bottom half', () => {
+      const schedule = generateSchedule(defaultSettings, swissTeams, config)
+
+      expect(schedule.matches).toHaveLength(4)
+      expect(schedule.matches.every(m => m.swissRound === 1)).toBe(true)
+      const pairs = schedule.matches.map(m => [m.homeTeam.id, m.awayTeam.id])
+      expect(pairs).toEqual(
+        expect.arrayContaining([
+          ['1', '5'],
+          ['2', '6'],
+          ['3', '7'],
+          ['4', '8'],
+        ])
+      )
+    })
+
+    it('should require all results before pairing the next round', () => {
+      const schedule = generateSchedule(defaultSettings, swissTeams, config)
+
+      expect(canGenerateNextSwissRound(schedule, config)).toBe(false)
+      expect(() => generateNextSwissRound(schedule, swissTeams, defaultSettings, config)).toThrow()
+      expect(canGenerateNextSwissRound(playAll(schedule), config)).toBe(true)
+    })
+
+    it('should pair teams on equal points without rematches', () => {
+      let schedule = generateSchedule(defaultSettings, swissTeams, config)
+      schedule = generateNextSwissRound(playAll(schedule), swissTeams, defaultSettings, config)
+      const round2 = schedule.matches.filter(m => m.swissRound === 2)
+
+      expect(round2).toHaveLength(4)
+      // Round 1 winners (1-4) meet each other, as do the losers (5-8)
+      for (const match of round2) {
+        expect(Number(match.homeTeam.id) > 4).toBe(Number(match.awayTeam.id) > 4)
+      }
+
+      schedule = generateNextSwissRound(playAll(schedule), swissTeams, defaultSettings, config)
+      const pairings = schedule.matches.map(m => [m.homeTeam.id, m.awayTeam.id].sort().join('-'))
+      expect(new Set(pairings).size).toBe(12)
+      expect(canGenerateNextSwissRound(playAll(schedule), config)).toBe(false)
+    })
+
+    it('should append new rounds after the last scheduled slot', () => {
+      const first = playAll(generateSchedule(defaultSettings, swissTeams, config))
+      const next = generateNextSwissRound(first, swissTeams, defaultSettings, config)
+
+      const firstEnd = Math.max(...first.matches.map(m => m.endTime.getTime()))
+      const round2 = next.matches.filter(m => m.swissRound === 2)
+      for (const match of round2) {
+        expect(match.startTime.getTime()).toBeGreaterThanOrEqual(
+          firstEnd + defaultSettings.breakBetweenMatches * 60000
+        )
+      }
+      expect(next.matches.slice(0, 4)).toEqual(first.matches)
+      expect(new Set(next.matches.map(m => m.id)).size).toBe(8)
+      expect(next.conflicts).toHaveLength(0)
+    })
+
+    it('should give the bye to a different team each round with an odd team count', () => {
+      const oddTeams = swissTeams.slice(0, 5)
+      const oddConfig: SchedulingConfig = { mode: 'swiss', swissRounds: 5 }
+      let schedule = generateSchedule(defaultSettings, oddTeams, oddConfig)
+      for (let round = 2; round <= 5; round++) {
+        schedule = generateNextSwissRound(playAll(schedule), oddTeams, defaultSettings, oddConfig)
+      }
+
+      for (const team of oddTeams) {
+        const played = schedule.matches.filter(
+          m => m.homeTeam.id === team.id || m.awayTeam.id === team.id
+        )
+        expect(played).toHaveLength(4)
+      }
+    })
+  })
+
+  describe('generateSchedule - Team Availability', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+    const matchesOf = (matches: Match[], id: string) =>
+      matches.filter(m => m.homeTeam.id === id || m.awayTeam.id === id)
+
+    it('should not schedule a late-arriving team before its earliest start', () => {
+      const windowTeams = teams.map(t => (t.id === '1' ? { ...t, availableFrom: '10:00' } : t))
+      const schedule = generateSchedule(defaultSettings, windowTeams, { mode: 'round-robin' })
+
+      expect(schedule.matches).toHaveLength(6)
+      for (const match of matchesOf(schedule.matches, '1')) {
+        expect(timeOf(match.startTime) >= '10:00').toBe(true)
+      }
+      expect(schedule.violations).toEqual([])
+      expect(schedule.conflicts).toHaveLength(0)
+    })
+
+    it('should finish an early-leaving team before its latest end', () => {
+      const windowTeams = teams.map(t => (t.id === '4' ? { ...t, availableUntil: '10:45' } : t))
+      const schedule = generateSchedule(defaultSettings, windowTeams, { mode: 'round-robin' })
+
+      // Only the first three slots (09:00, 09:35, 10:10) end by 10:45
+      for (const match of matchesOf(schedule.matches, '4')) {
+        expect(timeOf(match.endTime) <= '10:45').toBe(true)
+      }
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should wait with an empty slot when no match can start yet', () => {
+      const lateTeams = teams.map(t => ({ ...t, availableFrom: '09:30' }))
+      const schedule = generateSchedule(defaultSettings, lateTeams, { mode: 'round-robin' })
+
+      expect(timeOf(schedule.matches[0].startTime)).toBe('09:35')
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should report a structured violation when a window cannot be met', () => {
+      const windowTeams = teams.map(t =>
+        t.id === '2' ? { ...t, availableFrom: '09:00', availableUntil: '09:40' } : t
+      )
+      const schedule = generateSchedule(defaultSettings, windowTeams, { mode: 'round-robin' })
+
+      // Team B plays three matches but only one slot fits its window
+      const violations = schedule.violations || []
+      expect(violations).toHaveLength(2)
+      for (const violation of violations) {
+        expect(violation).toMatchObject({ type: 'team-availability', teamId: '2' })
+        expect(schedule.matches.some(m => m.id === violation.matchId)).toBe(true)
+        expect(schedule.warnings).toContain(violation.message)
+      }
+      expect(violations[0].message).toContain('Team B')
+      expect(violations[0].message).toContain('09:00-09:40')
+    })
+  })
+
+  describe('generateSchedule - Minimum Rest', () => {
+    const makeTeams = (count: number): Team[] =>
+      Array.from({ length: count }, (_, i) => ({ id: `${i + 1}`, name: `Team ${i + 1}` }))
+
+    // Slot index of every match, derived from its start time
+    const slotIndexes = (schedule: GeneratedSchedule) => {
+      const slotLength = (30 + 5) * 60000
+      const start = schedule.matches[0].startTime.getTime()
+      return new Map(
+        schedule.matches.map(m => [m.id, (m.startTime.getTime() - start) / slotLength])
+      )
+    }
+
+    const expectRest = (schedule: GeneratedSchedule, teamList: Team[], minRest: number) => {
+      const slots = slotIndexes(schedule)
+      for (const team of teamList) {
+        const teamSlots = schedule.matches
+          .filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+          .map(m => slots.get(m.id)!)
+          .sort((a, b) => a - b)
+        for (let i = 1; i < teamSlots.length; i++) {
+          expect(teamSlots[i] - teamSlots[i - 1] - 1).toBeGreaterThanOrEqual(minRest)
+        }
+      }
+    }
+
+    it('should keep 5 teams on 2 pitches from playing back-to-back', () => {
+      const fiveTeams = makeTeams(5)
+      const schedule = generateSchedule(defaultSettings, fiveTeams, {
+        mode: 'round-robin',
+        minRestSlots: 1,
+      })
+
+      expect(schedule.matches).toHaveLength(10)
+      expectRest(schedule, fiveTeams, 1)
+      expect(schedule.violations).toEqual([])
+      expect(schedule.conflicts).toHaveLength(0)
+    })
+
+    it('should respect a two-slot rest in limited-matches mode', () => {
+      const nineTeams = makeTeams(9)
+      const schedule = generateSchedule(defaultSettings, nineTeams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 4,
+        minRestSlots: 2,
+      })
+
+      expectRest(schedule, nineTeams, 2)
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should report every unavoidable violation', () => {
+      const schedule = generateSchedule(defaultSettings, teams, {
+        mode: 'round-robin',
+        minRestSlots: 1,
+      })
+
+      const violations = schedule.violations || []
+      expect(violations.length).toBeGreaterThan(0)
+      for (const violation of violations) {
+        expect(violation.type).toBe('min-rest')
+        expect(schedule.warnings).toContain(violation.message)
+      }
+
+      // Every back-to-back appearance is reported exactly once
+      const slots = slotIndexes(schedule)
+      let backToBack = 0
+      for (const team of teams) {
+        const teamSlots = schedule.matches
+          .filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+          .map(m => slots.get(m.id)!)
+          .sort((a, b) => a - b)
+        for (let i = 1; i < teamSlots.length; i++) {
+          if (teamSlots[i] - teamSlots[i - 1] === 1) backToBack++
+        }
+      }
+      expect(violations).toHaveLength(backToBack)
+    })
+
+    it('should not change schedules without a minimum rest', () => {
+      const withoutRest = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const zeroRest = generateSchedule(defaultSettings, teams, {
+        mode: 'round-robin',
+        minRestSlots: 0,
+      })
+
+      expect(zeroRest.matches).toEqual(withoutRest.matches)
+    })
+  })
+
+  describe('generateSchedule - Pitch Availability', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+
+    it('should not use a pitch before it opens', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        numPitches: 3,
+        pitchWindows: [{}, {}, { availableFrom: '10:00' }],
+      }
+      const sixTeams = [...teams, { id: '5', name: 'Team E' }, { id: '6', name: 'Team F' }]
+      const schedule = generateSchedule(settings, sixTeams, { mode: 'round-robin' })
+
+      expect(schedule.matches).toHaveLength(15)
+      for (const match of schedule.matches.filter(m => m.pitch === 3)) {
+        expect(timeOf(match.startTime) >= '10:00').toBe(true)
+      }
+      expect(schedule.matches.some(m => m.pitch === 3)).toBe(true)
+      expect(schedule.violations).toEqual([])
+      expect(schedule.conflicts).toHaveLength(0)
+    })
+
+    it('should stop using a pitch once it closes', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        pitchWindows: [{ availableUntil: '09:35' }, {}],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      expect(schedule.matches).toHaveLength(6)
+      for (const match of schedule.matches.filter(m => m.pitch === 1)) {
+        expect(timeOf(match.endTime) <= '09:35').toBe(true)
+      }
+      // One pitch left after the first slot, so each later slot holds one match
+      expect(new Set(schedule.matches.map(m => m.startTime.getTime())).size).toBe(5)
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should wait while every pitch is closed', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        pitchWindows: [{ availableFrom: '10:00' }, { availableFrom: '10:00' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      // Slots start every 35 minutes from 09:00; 10:10 is the first after 10:00
+      expect(timeOf(schedule.matches[0].startTime)).toBe('10:10')
+    })
+
+    it('should report matches that cannot fit before every pitch closes', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        pitchWindows: [{ availableUntil: '10:00' }, { availableUntil: '10:00' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      const violations = schedule.violations || []
+      expect(violations.length).toBeGreaterThan(0)
+      for (const violation of violations) {
+        expect(violation.type).toBe('pitch-availability')
+        const match = schedule.matches.find(m => m.id === violation.matchId)!
+        expect(timeOf(match.endTime) > '10:00').toBe(true)
+      }
+    })
+  })
+
+  describe('generateSchedule - Scheduled Breaks', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+    const settings: TournamentSettings = {
+      ...defaultSettings,
+      breaks: [{ startTime: '10:00', durationMinutes: 30, label: 'Frokost' }],
+    }
+
+    it('should not schedule matches during a break', () => {
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      expect(schedule.matches).toHaveLength(6)
+      for (const match of schedule.matches) {
+        expect(timeOf(match.endTime) <= '10:00' || timeOf(match.startTime) >= '10:30').toBe(true)
+      }
+      // The 09:35 slot would run into the break, so play resumes at 10:30
+      const slotTimes = Array.from(new Set(schedule.matches.map(m => timeOf(m.startTime))))
+      expect(slotTimes).toEqual(['09:00', '10:30', '11:05'])
+    })
+
+    it('should keep team availability aligned with the shifted slots', () => {
+      const lateTeams = teams.map(t => (t.id === '4' ? { ...t, availableFrom: '10:30' } : t))
+      const schedule = generateSchedule(settings, lateTeams, { mode: 'round-robin' })
+
+      for (const match of schedule.matches.filter(
+        m => m.awayTeam.id === '4' || m.homeTeam.id === '4'
+      )) {
+        expect(timeOf(match.startTime) >= '10:30').toBe(true)
+      }
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should list breaks in the text and CSV exports', () => {
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      const text = exportToText(schedule.matches, settings, schedule.byes || [])
+      expect(text).toContain('10:00-10:30  Frokost')
+      expect(text.indexOf('Frokost')).toBeLessThan(text.indexOf('10:30\n'))
+
+      const lines = exportToCSV(schedule.matches, settings).split('\r\n')
+      expect(lines[0]).toBe('Time,Pitch,Home Team,Away Team,End Time,Break')
+      expect(lines).toContain('10:00,,,,10:30,Frokost')
+    })
+  })
+
+  describe('generateSchedule - Multi-day Tournaments', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+    const settings: TournamentSettings = {
+      ...defaultSettings,
+      days: [
+        { date: '2026-01-15', startTime: '09:00', endTime: '10:00' },
+        { date: '2026-01-16', startTime: '09:00', endTime: '17:00' },
+      ],
+    }
+
+    it('should roll over to the next day instead of passing the day end', () => {
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      expect(schedule.matches).toHaveLength(6)
+      const firstDay = schedule.matches.filter(m => m.startTime.getDate() === 15)
+      const secondDay = schedule.matches.filter(m => m.startTime.getDate() === 16)
+      expect(firstDay).toHaveLength(2)
+      expect(secondDay).toHaveLength(4)
+      for (const match of firstDay) {
+        expect(timeOf(match.endTime) <= '10:00').toBe(true)
+      }
+      expect(secondDay.map(m => timeOf(m.startTime)).sort()).toEqual([
+        '09:00',
+        '09:00',
+        '09:35',
+        '09:35',
+      ])
+      expect(schedule.violations).toEqual([])
+      expect(schedule.conflicts).toEqual([])
+    })
+
+    it('should group and label the exports by date', () => {
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      const text = exportToText(schedule.matches, settings, schedule.byes || [])
+      expect(text).toContain('Thursday, 15 January 2026')
+      expect(text).toContain('Friday, 16 January 2026')
+      expect(text.indexOf('Friday, 16 January 2026')).toBeLessThan(text.lastIndexOf('09:00\n'))
+
+      const lines = exportToCSV(schedule.matches, settings).split('\r\n')
+      expect(lines[0]).toBe('Date,Time,Pitch,Home Team,Away Team,End Time')
+      expect(lines.filter(line => line.startsWith('2026-01-16,09:00'))).toHaveLength(2)
+    })
+
+    it('should leave single-day exports without dates', () => {
+      const schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+
+      expect(exportToCSV(schedule.matches, defaultSettings).split('\r\n')[0]).toBe(
+        'Time,Pitch,Home Team,Away Team,End Time'
+      )
+      expect(exportToText(schedule.matches, defaultSettings)).not.toContain('January')
+    })
+  })
+
+  describe('fit to end time', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+    const settings: TournamentSettings = {
+      ...defaultSettings,
+      days: [{ date: '2026-01-15', startTime: '09:00', endTime: '11:00' }],
+    }
+    const sixTeams: Team[] = [...teams, { id: '5', name: 'Team E' }, { id: '6', name: 'Team F' }]
+
+    it('should count the slots and matches that finish before the end time', () => {
+      const capacity = getEndTimeCapacity(settings)
+
+      expect(timeOf(capacity!.end)).toBe('11:00')
+      expect(capacity!.slots).toBe(3)
+      expect(capacity!.matches).toBe(6)
+      expect(getEndTimeCapacity(defaultSettings)).toBeUndefined()
+    })
+
+    it('should cap limited matches to what fits before the end time', () => {
+      const schedule = generateSchedule(settings, sixTeams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 3,
+      })
+
+      expect(schedule.matches).toHaveLength(6)
+      expect(schedule.matches.every(m => timeOf(m.endTime) <= '11:00')).toBe(true)
+      expect(schedule.violations).toEqual([])
+      expect(schedule.warnings).toContain(
+        'Maks totale kampe er sat til 6, så alle kampe kan nå at blive spillet inden 11:00'
+      )
+      expect(schedule.suggestions).toEqual([])
+    })
+
+    it('should not cap divisions to the whole venue and report their overrun instead', () => {
+      const divisionTeams = ['u9', 'u11'].flatMap(division =>
+        sixTeams.map(team => ({ ...team, id: `${division}-${team.id}`, divisionId: division }))
+      )
+      const config: SchedulingConfig = { mode: 'limited-matches', maxMatchesPerTeam: 3 }
+      const schedule = generateDivisionSchedule(settings, divisionTeams, [
+        { id: 'u9', name: 'U9', schedulingConfig: config },
+        { id: 'u11', name: 'U11', schedulingConfig: config },
+      ])
+
+      // Each division alone fits 6 matches, together they still only fit 6
+      expect(schedule.matches).toHaveLength(18)
+      expect(schedule.warnings.some(w => w.includes('Maks totale kampe er sat til'))).toBe(false)
+      expect(schedule.violations!.filter(v => v.type === 'day-hours')).toHaveLength(12)
+    })
+
+    it('should name the matches that end after the end time and suggest fixes', () => {
+      const schedule = generateSchedule(settings, sixTeams, { mode: 'round-robin' })
+
+      const late = schedule.matches.filter(m => timeOf(m.endTime) > '11:00')
+      expect(late).toHaveLength(9)
+      expect(schedule.violations).toHaveLength(9)
+      const first = late.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0]
+      expect(schedule.violations).toContainEqual({
+        type: 'day-hours',
+        message: `${first.homeTeam.name} mod ${first.awayTeam.name} kl. 10:45-11:15 slutter efter sluttidspunktet 11:00`,
+        matchId: first.id,
+      })
+      expect(schedule.suggestions).toEqual([
+        'Skemaet slutter kl. 13:35, 155 min efter sluttidspunktet 11:00',
+        '6 af 15 kampe når at blive spillet inden 11:00. Spil færre kampe, f.eks. med begrænset antal kampe og maks 6 kampe i alt',
+        'Med kampe på 10 min når alle kampe at slutte inden 11:00',
+      ])
+    })
+
+    it('should suggest shorter halves for matches played in two halves', () => {
+      const schedule = generateSchedule(
+        {
+          ...settings,
+          matchMode: 'two-halves',
+          halfDurationMinutes: 15,
+          halftimeBreakMinutes: 5,
+        },
+        sixTeams,
+        { mode: 'round-robin' }
+      )
+
+      expect(schedule.suggestions).toContain(
+        'Med halvlege på 2 min når alle kampe at slutte inden 11:00'
+      )
+    })
+  })
+
+  describe('moveMatch', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+
+    it('should swap two matches and re-detect conflicts', () => {
+      const schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const [first, second, third] = schedule.matches
+
+      const swapped = moveMatch(schedule, first.id, third, teams, defaultSettings)
+      const movedFirst = swapped.matches.find(m => m.id === first.id)!
+      const movedThird = swapped.matches.find(m => m.id === third.id)!
+
+      expect([timeOf(movedFirst.startTime), movedFirst.pitch]).toEqual(['09:35', third.pitch])
+      expect([timeOf(movedThird.startTime), movedThird.pitch]).toEqual(['09:00', first.pitch])
+      expect(movedThird.endTime.getTime() - movedThird.startTime.getTime()).toBe(30 * 60000)
+      expect(swapped.manuallyEdited).toBe(true)
+      // Every team plays in every slot, so the swap double-books a team
+      expect(swapped.conflicts.length).toBeGreaterThan(0)
+      expect(swapped.conflicts.flatMap(c => c.matches.map(m => m.id))).toContain(second.id)
+      expect(swapped.warnings.some(w => w.includes('scheduling conflict(s) detected'))).toBe(true)
+
+      const restored = moveMatch(swapped, first.id, first, teams, defaultSettings)
+      expect(restored.conflicts).toEqual([])
+      expect(restored.warnings.some(w => w.includes('scheduling conflict(s) detected'))).toBe(false)
+    })
+
+    it('should move a match to a free pitch', () => {
+      const settings = { ...defaultSettings, numPitches: 3 }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      const match = schedule.matches[0]
+
+      const moved = moveMatch(
+        schedule,
+        match.id,
+        { startTime: match.startTime, pitch: 3 },
+        teams,
+        settings
+      )
+
+      expect(moved.matches.find(m => m.id === match.id)!.pitch).toBe(3)
+      expect(moved.matches.filter(m => m.pitch === 3)).toHaveLength(1)
+      expect(moved.conflicts).toEqual([])
+    })
+
+    it('should flag matches that overlap without sharing a start time', () => {
+      const schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const first = schedule.matches[0]
+      const next = schedule.matches.find(
+        m => m.round === 1 && [m.homeTeam.id, m.awayTeam.id].includes(first.homeTeam.id)
+      )!
+      const target = { startTime: new Date(next.startTime.getTime() - 10 * 60000), pitch: 1 }
+
+      const moved = moveMatch(schedule, first.id, target, teams, defaultSettings)
+
+      expect(moved.conflicts).toContainEqual({
+        team: first.homeTeam,
+        matches: [moved.matches.find(m => m.id === first.id), next],
+      })
+    })
+
+    it('should re-check the day hours and clear double-booked referees', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        days: [{ date: '2026-01-15', startTime: '09:00', endTime: '11:00' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      const [first, second] = schedule.matches
+      const refereed = {
+        ...schedule,
+        matches: schedule.matches.map(m =>
+          m.id === second.id ? { ...m, referee: { id: 'r1', name: 'Hans' } } : m
+        ),
+      }
+      const late = { startTime: new Date(first.startTime.getTime() + 110 * 60000), pitch: 1 }
+
+      const lateMove = moveMatch(refereed, first.id, late, teams, settings)
+      expect(lateMove.violations).toContainEqual(expect.objectContaining({ matchId: first.id }))
+      expect(lateMove.warnings.some(w => w.includes('slutter efter sluttidspunktet'))).toBe(true)
+      expect(lateMove.matches.find(m => m.id === second.id)!.referee?.name).toBe('Hans')
+
+      const backMove = moveMatch(lateMove, first.id, first, teams, settings)
+      expect(backMove.violations).toEqual([])
+      expect(backMove.warnings.some(w => w.includes('slutter efter sluttidspunktet'))).toBe(false)
+
+      const withFirstRefereed = {
+        ...refereed,
+        matches: refereed.matches.map(m =>
+          m.id === first.id ? { ...m, referee: { id: 'r1', name: 'Hans' } } : m
+        ),
+      }
+      const clash = { startTime: second.startTime, pitch: 3 }
+      const clashMove = moveMatch(withFirstRefereed, first.id, clash, teams, {
+        ...settings,
+        numPitches: 3,
+      })
+      expect(clashMove.matches.filter(m => m.referee)).toEqual([])
+    })
+
+    it('should recompute the byes for the new slots', () => {
+      const settings = { ...defaultSettings, numPitches: 1 }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      const [first, second] = schedule.matches
+
+      const swapped = moveMatch(schedule, first.id, second, teams, settings)
+      const firstSlotByes = swapped
+        .byes!.filter(b => b.startTime?.getTime() === first.startTime.getTime())
+        .map(b => b.team.id)
+
+      expect(firstSlotByes.sort()).toEqual(
+        teams
+          .map(t => t.id)
+          .filter(id => id !== second.homeTeam.id && id !== second.awayTeam.id)
+          .sort()
+      )
+    })
+
+    it('should leave the knockout slots out of the byes', () => {
+      const eightTeams: Team[] = Array.from({ length: 8 }, (_, i) => ({
+        id: `${i + 1}`,
+        name: `Team ${i + 1}`,
+      }))
+      const schedule = generateSchedule(defaultSettings, eightTeams, {
+        mode: 'groups-knockout',
+        numGroups: 2,
+        teamsAdvancingPerGroup: 2,
+      })
+      const [first, second] = schedule.matches
+
+      const swapped = moveMatch(schedule, first.id, second, eightTeams, defaultSettings)
+      const knockoutStarts = new Set(
+        schedule.matches.filter(m => m.stage === 'knockout').map(m => m.startTime.getTime())
+      )
+
+      expect(swapped.byes).toHaveLength(schedule.byes!.length)
+      expect(swapped.byes!.some(b => knockoutStarts.has(b.startTime!.getTime()))).toBe(false)
+    })
+  })
+
+  describe('withdrawTeam', () => {
+    const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({
+      id: n,
+      name: `Team ${n}`,
+    }))
+    const lastEnd = (schedule: GeneratedSchedule) =>
+      Math.max(...schedule.matches.map(m => m.endTime.getTime()))
+    const playsIn = (match: Match, id: string) =>
+      match.homeTeam.id === id || match.awayTeam.id === id
+
+    it('should remove unstarted matches and score them as walkovers', () => {
+      const schedule = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const now = schedule.matches.find(m => m.round === 1)!.startTime
+      const started = schedule.matches.filter(m => m.startTime < now)
+
+      const withdrawn = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, now)
+      const [withdrawal] = withdrawn.withdrawals!
+
+      expect(withdrawal.team.id).toBe('A')
+      expect(withdrawal.walkovers).toHaveLength(
+        schedule.matches.filter(m => m.startTime >= now && playsIn(m, 'A')).length
+      )
+      for (const walkover of withdrawal.walkovers) {
+        const aIsHome = walkover.homeTeam.id === 'A'
+        expect([walkover.homeScore, walkover.awayScore]).toEqual(aIsHome ? [0, 3] : [3, 0])
+        expect(walkover.played).toBe(true)
+      }
+      expect(withdrawn.matches.filter(m => m.startTime >= now && playsIn(m, 'A'))).toEqual([])
+      expect(withdrawn.matches.filter(m => m.startTime < now)).toEqual(started)
+      expect(withdrawn.byes!.some(b => b.team.id === 'A')).toBe(false)
+      expect(withdrawn.manuallyEdited).toBe(true)
+      expect(withdrawal.movedMatchIds).toEqual([])
+    })
+
+    it('should move later matches into the freed slots when closing gaps', () => {
+      const schedule = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const now = schedule.matches.find(m => m.round === 1)!.startTime
+      const original = new Map(schedule.matches.map(m => [m.id, m]))
+
+      const compacted = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, now, true)
+      const [withdrawal] = compacted.withdrawals!
+
+      expect(withdrawal.movedMatchIds.length).toBeGreaterThan(0)
+      expect(lastEnd(compacted)).toBeLessThan(lastEnd(schedule))
+      expect(compacted.conflicts).toEqual([])
+      for (const id of withdrawal.movedMatchIds) {
+        const moved = compacted.matches.find(m => m.id === id)!
+        expect(moved.startTime.getTime()).toBeLessThan(original.get(id)!.startTime.getTime())
+        expect(moved.startTime.getTime()).toBeGreaterThanOrEqual(now.getTime())
+      }
+      // Both teams of a moved match still get the break before and after it
+      for (const team of sixTeams.slice(1)) {
+        const own = compacted.matches
+          .filter(m => playsIn(m, team.id))
+          .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        for (let i = 1; i < own.length; i++) {
+          expect(own[i].startTime.getTime() - own[i - 1].endTime.getTime()).toBeGreaterThanOrEqual(
+            5 * 60000
+          )
+        }
+      }
+    })
+
+    it('should keep the minimum rest when closing gaps', () => {
+      const config: SchedulingConfig = { mode: 'round-robin', minRestSlots: 1 }
+      const schedule = generateSchedule(defaultSettings, sixTeams, config)
+      const now = schedule.matches.find(m => m.round === 1)!.startTime
+      expect(schedule.violations).toEqual([])
+
+      const compacted = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, now, true, config)
+
+      expect(compacted.violations).toEqual([])
+      for (const team of sixTeams.slice(1)) {
+        const rounds = compacted.matches
+          .filter(m => playsIn(m, team.id))
+          .map(m => m.round!)
+          .sort((a, b) => a - b)
+        for (let i = 1; i < rounds.length; i++) {
+          expect(rounds[i] - rounds[i - 1]).toBeGreaterThan(1)
+        }
+      }
+    })
+
+    it('should keep moved matches inside the time windows when closing gaps', () => {
+      const late = sixTeams.map(t => (t.id === 'F' ? { ...t, availableFrom: '10:30' } : t))
+      const schedule = generateSchedule(defaultSettings, late, { mode: 'round-robin' })
+      const now = schedule.matches.find(m => m.round === 1)!.startTime
+      expect(schedule.violations).toEqual([])
+
+      const compacted = withdrawTeam(schedule, 'A', late, defaultSettings, now, true)
+
+      const opening = new Date(now)
+      opening.setHours(10, 30)
+      expect(compacted.withdrawals![0].movedMatchIds.length).toBeGreaterThan(0)
+      expect(compacted.violations).toEqual([])
+      for (const match of compacted.matches.filter(m => playsIn(m, 'F'))) {
+        expect(match.startTime.getTime()).toBeGreaterThanOrEqual(opening.getTime())
+      }
+    })
+
+    it('should re-detect the minimum rest after closing gaps', () => {
+      const schedule = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const now = schedule.matches.find(m => m.round === 1)!.startTime
+
+      const compacted = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, now, true, {
+        mode: 'round-robin',
+        minRestSlots: 1,
+      })
+
+      expect(compacted.violations!.length).toBeGreaterThan(0)
+      expect(compacted.violations!.every(v => v.type === 'min-rest')).toBe(true)
+    })
+
+    it('should never touch played or started matches', () => {
+      let schedule = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const firstOfA = schedule.matches.find(m => playsIn(m, 'A'))!
+      schedule = applyMatchResult(schedule, firstOfA.id, 2, 1)
+
+      const withdrawn = withdrawTeam(
+        schedule,
+        'A',
+        sixTeams,
+        defaultSettings,
+        schedule.matches[0].startTime,
+        true
+      )
+
+      expect(withdrawn.matches.find(m => m.id === firstOfA.id)).toEqual(
+        schedule.matches.find(m => m.id === firstOfA.id)
+      )
+      expect(withdrawn.withdrawals![0].walkovers.map(m => m.id)).not.toContain(firstOfA.id)
+    })
+
+    it('should keep withdrawn teams out of the byes when matches are moved afterwards', () => {
+      const schedule = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const withdrawn = withdrawTeam(
+        schedule,
+        'A',
+        sixTeams,
+        defaultSettings,
+        schedule.matches[0].startTime
+      )
+      const [first, last] = [withdrawn.matches[0], withdrawn.matches[withdrawn.matches.length - 1]]
+
+      const moved = moveMatch(withdrawn, first.id, last, sixTeams, defaultSettings)
+
+      expect(moved.byes!.some(b => b.team.id === 'A')).toBe(false)
+    })
+
+    it('should leave withdrawn teams out of later Swiss rounds but count their walkovers', () => {
+      const config: SchedulingConfig = { mode: 'swiss', swissRounds: 3 }
+      let schedule = generateSchedule(defaultSettings, sixTeams, config)
+      for (const match of schedule.matches) {
+        schedule = applyMatchResult(schedule, match.id, 1, 1)
+      }
+      const now = new Date(lastEnd(schedule))
+      schedule = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, now)
+
+      const next = generateNextSwissRound(schedule, sixTeams, defaultSettings, config)
+      const roundTwo = next.matches.filter(m => m.swissRound === 2)
+
+      expect(roundTwo.some(m => playsIn(m, 'A'))).toBe(false)
+      expect(roundTwo).toHaveLength(2)
+      expect(next.withdrawals).toEqual(schedule.withdrawals)
+      expect(next.byes!.some(b => b.team.id === 'A')).toBe(false)
+    })
+
+    it('should rank Swiss teams on their walkovers and results against withdrawn teams', () => {
+      const config: SchedulingConfig = { mode: 'swiss', swissRounds: 3 }
+      const homeWins = (current: GeneratedSchedule) =>
+        current.matches.reduce(
+          (played, m) => (m.played ? played : applyMatchResult(played, m.id, 1, 0)),
+          current
+        )
+      let schedule = homeWins(generateSchedule(defaultSettings, sixTeams, config))
+      schedule = generateNextSwissRound(schedule, sixTeams, defaultSettings, config)
+      const roundTwoStart = schedule.matches.find(m => m.swissRound === 2)!.startTime
+      schedule = withdrawTeam(schedule, 'A', sixTeams, defaultSettings, roundTwoStart)
+      schedule = homeWins(schedule)
+      const next = generateNextSwissRound(schedule, sixTeams, defaultSettings, config)
+      const pairs = next.matches
+        .filter(m => m.swissRound === 3)
+        .map(m => [m.homeTeam.id, m.awayTeam.id])
+
+      // B leads on its win and the walkover; D's loss to A puts it level with C
+      // and E, so the top pair is B against C rather than D
+      expect(pairs).toEqual([
+        ['B', 'C'],
+        ['D', 'E'],
+      ])
+    })
+  })
+
+  describe('delaySchedule', () => {
+    const timeOf = (date: Date) =>
+      date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+    const slotTimes = (schedule: GeneratedSchedule) =>
+      Array.from(new Set(schedule.matches.map(m => timeOf(m.startTime))))
+
+    it('should re-detect the pitch opening hours for the delayed times', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        pitchWindows: [{ availableUntil: '10:45' }, { availableUntil: '10:45' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      expect(schedule.violations).toEqual([])
+
+      const delayed = delaySchedule(schedule, schedule.matches[0].startTime, 30, teams, settings)
+      const late = delayed.violations!.filter(v => v.type === 'pitch-availability')
+
+      expect(late).toHaveLength(2)
+      expect(late.every(v => v.message.includes('kl. 10:40'))).toBe(true)
+      expect(delayed.warnings).toEqual(expect.arrayContaining(late.map(v => v.message)))
+
+      const later = delaySchedule(delayed, delayed.matches[0].startTime, 10, teams, settings)
+      expect(later.violations!.every(v => v.message.includes('kl. 10:50'))).toBe(true)
+      expect(later.warnings.some(w => w.includes('kl. 10:40'))).toBe(false)
+    })
+
+    it('should re-detect the minimum rest when breaks are shortened', () => {
+      const config: SchedulingConfig = { mode: 'round-robin', minRestSlots: 1 }
+      const settings = { ...defaultSettings, numPitches: 1 }
+      const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({ id: n, name: n }))
+      const schedule = generateSchedule(settings, sixTeams, config)
+      expect(schedule.violations).toEqual([])
+
+      const delayed = delaySchedule(
+        schedule,
+        schedule.matches[0].startTime,
+        10,
+        sixTeams,
+        settings,
+        0,
+        config
+      )
+
+      expect(delayed.violations!.length).toBeGreaterThan(0)
+      expect(delayed.violations!.every(v => v.type === 'min-rest')).toBe(true)
+    })
+
+    it('should shift the late slot and every later slot, keeping the planned times', () => {
+      const schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const from = schedule.matches.find(m => m.round === 1)!.startTime
+
+      const delayed = delaySchedule(schedule, from, 15, teams, defaultSettings)
+
+      expect(slotTimes(schedule)).toEqual(['09:00', '09:35', '10:10'])
+      expect(slotTimes(delayed)).toEqual(['09:00', '09:50', '10:25'])
+      expect(delayed.conflicts).toEqual([])
+      for (const match of delayed.matches) {
+        const original = schedule.matches.find(m => m.id === match.id)!
+        if (match.startTime < from) {
+          expect(match).toEqual(original)
+        } else {
+          expect(match.plannedStartTime).toEqual(original.startTime)
+          expect(match.plannedEndTime).toEqual(original.endTime)
+          expect(match.endTime.getTime() - match.startTime.getTime()).toBe(30 * 60000)
+        }
+      }
+      expect(delayed.byes!.every(b => slotTimes(delayed).includes(timeOf(b.startTime!)))).toBe(true)
+    })
+
+    it('should catch up by shortening the breaks', () => {
+      const schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const from = schedule.matches.find(m => m.round === 1)!.startTime
+
+      const delayed = delaySchedule(schedule, from, 15, teams, defaultSettings, 0)
+
+      // 09:50-10:20, then straight on at 10:20 instead of 10:25
+      expect(slotTimes(delayed)).toEqual(['09:00', '09:50', '10:20'])
+      expect(delayed.conflicts).toEqual([])
+    })
+
+    it('should move shifted slots past scheduled breaks', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        matchDurationMinutes: 20,
+        breaks: [{ startTime: '10:15', durationMinutes: 45, label: 'Frokost' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      const delayed = delaySchedule(schedule, schedule.matches[0].startTime, 20, teams, settings)
+
+      expect(slotTimes(schedule)).toEqual(['09:00', '09:25', '09:50'])
+      expect(slotTimes(delayed)).toEqual(['09:20', '09:45', '11:00'])
+      expect(delayed.conflicts).toEqual([])
+    })
+
+    it('should let planned buffers absorb the delay', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        breaks: [{ startTime: '09:40', durationMinutes: 30, label: 'Frokost' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+      const delayed = delaySchedule(schedule, schedule.matches[0].startTime, 10, teams, settings)
+
+      expect(slotTimes(schedule)).toEqual(['09:00', '10:10', '10:45'])
+      expect(slotTimes(delayed)).toEqual(['09:10', '10:10', '10:45'])
+    })
+
+    it('should keep the first planned time and played matches over repeated delays', () => {
+      let schedule = generateSchedule(defaultSettings, teams, { mode: 'round-robin' })
+      const [first] = schedule.matches
+      schedule = applyMatchResult(schedule, first.id, 1, 0)
+
+      const once = delaySchedule(schedule, first.startTime, 10, teams, defaultSettings)
+      const twice = delaySchedule(once, once.matches[3].startTime, 5, teams, defaultSettings)
+
+      expect(twice.matches.find(m => m.id === first.id)).toEqual(
+        schedule.matches.find(m => m.id === first.id)
+      )
+      expect(slotTimes(twice)).toEqual(['09:00', '09:10', '09:50', '10:25'])
+      const last = twice.matches[twice.matches.length - 1]
+      expect(timeOf(last.plannedStartTime!)).toBe('10:10')
+    })
+
+    it('should warn when the delay runs past the end time', () => {
+      const settings: TournamentSettings = {
+        ...defaultSettings,
+        days: [{ date: '2026-01-15', startTime: '09:00', endTime: '10:45' }],
+      }
+      const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+
+      const delayed = delaySchedule(schedule, schedule.matches[0].startTime, 20, teams, settings)
+
+      expect(delayed.warnings).toContain(
+        'Forsinkelsen får 2 kampe til at slutte efter sluttidspunktet 10:45'
+      )
+      expect(
+        delaySchedule(delayed, delayed.matches[0].startTime, 5, teams, settings).warnings.filter(
+          w => w.startsWith('Forsinkelsen får')
+        )
+      ).toHaveLength(1)
+    })
+  })
+
+  describe('rolling start times', () => {
+    const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({
+      id: n,
+      name: `Team ${n}`,
+    }))
+    const settings: TournamentSettings = { ...defaultSettings, numPitches: 3 }
+    const lastEnd = (schedule: GeneratedSchedule) =>
+      Math.max(...schedule.matches.map(m => m.endTime.getTime()))
+
+    it('should finish earlier than synchronized slots while keeping the rest', () => {
+      const config: SchedulingConfig = { mode: 'round-robin', minRestSlots: 1 }
+      const synchronized = generateSchedule(settings, sixTeams, config)
+      const rolling = generateSchedule(settings, sixTeams, {
+        ...config,
+        timeAllocation: 'rolling',
+      })
+
+      expect(rolling.matches).toHaveLength(15)
+      expect(lastEnd(rolling)).toBeLessThan(lastEnd(synchronized))
+      expect(rolling.conflicts).toEqual([])
+      expect(rolling.violations).toEqual([])
+      for (let pitch = 1; pitch <= 3; pitch++) {
+        const onPitch = rolling.matches.filter(m => m.pitch === pitch)
+        for (let i = 1; i < onPitch.length; i++) {
+          expect(onPitch[i].startTime.getTime()).toBeGreaterThanOrEqual(
+            onPitch[i - 1].endTime.getTime() + 5 * 60000
+          )
+        }
+      }
+      const starts = new Set(rolling.matches.map(m => m.startTime.getTime()))
+      expect(rolling.byes!.every(b => starts.has(b.startTime!.getTime()))).toBe(true)
+    })
+
+    it('should start the knockout stage once the group matches are over', () => {
+      const schedule = generateSchedule({ ...settings, numPitches: 4 }, sixTeams, {
+        mode: 'groups-knockout',
+        numGroups: 2,
+        teamsAdvancingPerGroup: 2,
+        timeAllocation: 'rolling',
+      })
+
+      const groupEnd = Math.max(
+        ...schedule.matches.filter(m => m.stage === 'group').map(m => m.endTime.getTime())
+      )
+      const knockout = schedule.matches.filter(m => m.stage === 'knockout')
+      expect(knockout.length).toBeGreaterThan(0)
+      for (const match of knockout) {
+        expect(match.startTime.getTime()).toBeGreaterThan(groupEnd)
+      }
+    })
+
+    it('should keep pinned matches on their pitch', () => {
+      const schedule = generateSchedule(settings, sixTeams, {
+        mode: 'round-robin',
+        minRestSlots: 1,
+        timeAllocation: 'rolling',
+        pinnedMatches: [{ homeTeamId: 'A', awayTeamId: 'B', pitch: 3 }],
+      })
+
+      const pinned = schedule.matches.find(
+        m => [m.homeTeam.id, m.awayTeam.id].sort().join() === 'A,B'
+      )
+      expect(pinned!.pitch).toBe(3)
+      expect(schedule.violations).toEqual([])
+    })
+  })
+
+  describe('home/away balance', () => {
+    const eightTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].map(n => ({
+      id: n,
+      name: `Team ${n}`,
+    }))
+    const homeAwayGaps = (schedule: GeneratedSchedule, teamList: Team[]) =>
+      teamList.map(team => {
+        const home = schedule.matches.filter(m => m.homeTeam.id === team.id).length
+        const away = schedule.matches.filter(m => m.awayTeam.id === team.id).length
+        return Math.abs(home - away)
+      })
+
+    it('should keep every team within one home match of its away matches', () => {
+      for (const count of [4, 5, 6, 7, 8]) {
+        const teamList = eightTeams.slice(0, count)
+        const schedule = generateSchedule(defaultSettings, teamList, { mode: 'round-robin' })
+
+        expect(Math.max(...homeAwayGaps(schedule, teamList))).toBeLessThanOrEqual(1)
+      }
+    })
+
+    it('should not leave the first team at home with limited matches', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 4,
+      })
+
+      expect(Math.max(...homeAwayGaps(schedule, eightTeams))).toBeLessThanOrEqual(2)
+      const firstTeamHome = schedule.matches.filter(m => m.homeTeam.id === 'A').length
+      expect(firstTeamHome).toBeLessThanOrEqual(2)
+    })
+
+    it('should keep the mirrored legs of a double round robin', () => {
+      const schedule = generateSchedule(defaultSettings, eightTeams.slice(0, 6), {
+        mode: 'round-robin',
+        doubleRoundRobin: true,
+      })
+
+      expect(Math.max(...homeAwayGaps(schedule, eightTeams.slice(0, 6)))).toBe(0)
+      const pairs = schedule.matches.map(m => `${m.homeTeam.id}-${m.awayTeam.id}`)
+      expect(new Set(pairs).size).toBe(30)
+    })
+  })
+
+  describe('pitch strategies', () => {
+    const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({ id: n, name: `Team ${n}` }))
+    const threePitches = { ...defaultSettings, numPitches: 3 }
+    const teamMatches = (schedule: GeneratedSchedule, team: Team) =>
+      schedule.matches.filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+    const pitchChanges = (schedule: GeneratedSchedule) =>
+      sixTeams.reduce((sum, team) => {
+        const matches = teamMatches(schedule, team)
+        return sum + matches.slice(1).filter((m, i) => m.pitch !== matches[i].pitch).length
+      }, 0)
+
+    it('should fill the pitches in order by default', () => {
+      const schedule = generateSchedule(threePitches, sixTeams, { mode: 'round-robin' })
+
+      // The circle method's fixed team always plays the first match of a slot
+      expect(teamMatches(schedule, sixTeams[0]).every(m => m.pitch === 1)).toBe(true)
+    })
+
+    it('should rotate every team over every pitch', () => {
+      const schedule = generateSchedule(threePitches, sixTeams, {
+        mode: 'round-robin',
+        pitchStrategy: 'rotate',
+      })
+
+      for (const team of sixTeams) {
+        const perPitch = [1, 2, 3].map(
+          pitch => teamMatches(schedule, team).filter(m => m.pitch === pitch).length
+        )
+        expect(Math.min(...perPitch)).toBeGreaterThanOrEqual(1)
+        expect(Math.max(...perPitch) - Math.min(...perPitch)).toBeLessThanOrEqual(1)
+      }
+      expect(schedule.conflicts).toEqual([])
+    })
+
+    it('should keep teams on the same pitch where it can', () => {
+      const inOrder = generateSchedule(threePitches, sixTeams, { mode: 'round-robin' })
+      const stay = generateSchedule(threePitches, sixTeams, {
+        mode: 'round-robin',
+        pitchStrategy: 'stay',
+      })
+
+      expect(pitchChanges(stay)).toBeLessThan(pitchChanges(inOrder))
+      expect(stay.matches.map(m => m.round)).toEqual(inOrder.matches.map(m => m.round))
+    })
+
+    it('should rotate the pitches of divisions sharing them', () => {
+      const divisionTeams: Team[] = ['A', 'B', 'C', 'D'].flatMap(n => [
+        { id: `u9-${n}`, name: `U9 ${n}`, divisionId: 'u9' },
+        { id: `u11-${n}`, name: `U11 ${n}`, divisionId: 'u11' },
+      ])
+      const schedule = generateDivisionSchedule(threePitches, divisionTeams, [
+        {
+          id: 'u9',
+          name: 'U9',
+          schedulingConfig: { mode: 'round-robin', pitchStrategy: 'rotate' },
+        },
+        {
+          id: 'u11',
+          name: 'U11',
+          schedulingConfig: { mode: 'round-robin', pitchStrategy: 'rotate' },
+        },
+      ])
+
+      for (const team of divisionTeams) {
+        const pitches = schedule.matches
+          .filter(m => m.homeTeam.id === team.id || m.awayTeam.id === team.id)
+          .map(m => m.pitch)
+        expect(new Set(pitches).size).toBeGreaterThan(1)
+      }
+    })
+  })
+
+  describe('seeded variants', () => {
+    const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({ id: n, name: `Team ${n}` }))
+    const layout = (schedule: GeneratedSchedule) =>
+      schedule.matches.map(
+        m => `${m.startTime.toISOString()} ${m.pitch} ${m.homeTeam.id}-${m.awayTeam.id}`
+      )
+
+    it('should reproduce the same schedule for the same seed', () => {
+      const config: SchedulingConfig = { mode: 'round-robin', seed: 7 }
+
+      expect(layout(generateSchedule(defaultSettings, sixTeams, config))).toEqual(
+        layout(generateSchedule(defaultSettings, sixTeams, config))
+      )
+    })
+
+    it('should give another valid schedule for another seed', () => {
+      const original = generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin' })
+      const variants = [1, 2, 3].map(seed =>
+        generateSchedule(defaultSettings, sixTeams, { mode: 'round-robin', seed })
+      )
+
+      for (const variant of variants) {
+        expect(variant.matches).toHaveLength(15)
+        expect(variant.conflicts).toEqual([])
+      }
+      expect(new Set([original, ...variants].map(s => layout(s).join('|'))).size).toBe(4)
+    })
+  })
+
+  describe('pinned matches', () => {
+    const sixTeams: Team[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(n => ({ id: n, name: `Team ${n}` }))
+    const threePitches = { ...defaultSettings, numPitches: 3 }
+
+    const meetings = (schedule: GeneratedSchedule, home: string, away: string) =>
+      schedule.matches.filter(
+        m =>
+          (m.homeTeam.id === home && m.awayTeam.id === away) ||
+          (m.homeTeam.id === away && m.awayTeam.id === home)
+      )
+
+    it('should place a pinned round robin match in its round and on its pitch', () => {
+      const schedule = generateSchedule(threePitches, sixTeams, {
+        mode: 'round-robin',
+        pinnedMatches: [
+          { homeTeamId: 'E', awayTeamId: 'B', slot: 0, pitch: 1 },
+          { homeTeamId: 'F', awayTeamId: 'A', slot: 3 },
+        ],
+      })
+
+      const [eb] = meetings(schedule, 'E', 'B')
+      const [fa] = meetings(schedule, 'F', 'A')
+      expect([eb.homeTeam.id, eb.round, eb.pitch]).toEqual(['E', 0, 1])
+      expect([fa.homeTeam.id, fa.round]).toEqual(['F', 3])
+      expect(schedule.matches).toHaveLength(15)
+      expect(schedule.conflicts).toEqual([])
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should keep both legs of a double round robin when pinning one', () => {
+      const schedule = generateSchedule(defaultSettings, teams, {
+        mode: 'round-robin',
+        doubleRoundRobin: true,
+        pinnedMatches: [{ homeTeamId: '2', awayTeamId: '1', slot: 0, pitch: 2 }],
+      })
+
+      const legs = meetings(schedule, '1', '2')
+      expect(legs.map(m => m.homeTeam.id).sort()).toEqual(['1', '2'])
+      const pinned = legs.find(m => m.homeTeam.id === '2')!
+      expect([pinned.round, pinned.pitch]).toEqual([0, 2])
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should always play pinned matchups with limited matches', () => {
+      const schedule = generateSchedule(threePitches, sixTeams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 1,
+        pinnedMatches: [{ homeTeamId: 'A', awayTeamId: 'F', pitch: 3 }],
+      })
+
+      const [af] = meetings(schedule, 'A', 'F')
+      expect([af.homeTeam.id, af.pitch]).toEqual(['A', 3])
+      expect(schedule.matches).toHaveLength(3)
+      expect(schedule.violations).toEqual([])
+    })
+
+    it('should report pins that cannot be satisfied', () => {
+      const schedule = generateSchedule(threePitches, sixTeams, {
+        mode: 'limited-matches',
+        maxMatchesPerTeam: 2,
+        excludedMatchups: [['A', 'B']],
+        pinnedMatches: [
+          { homeTeamId: 'A', awayTeamId: 'B', slot: 0 },
+          { homeTeamId: 'C', awayTeamId: 'D', slot: 0, pitch: 5 },
+        ],
+      })
+
+      const pinViolations = schedule.violations!.filter(v => v.type === 'pinned-match')
+      expect(pinViolations.map(v => v.message)).toEqual([
+        'Fastlåst kamp Team A mod Team B er ikke med i skemaet',
+        'Fastlåst kamp Team C mod Team D kunne ikke placeres på Bane 5',
+      ])
+      const [cd] = meetings(schedule, 'C', 'D')
+      expect(cd.round).toBe(0)
+      expect(cd.pitch).toBeLessThanOrEqual(3)
+    })
+  })
+
+  describe('generateDivisionSchedule', () => {
+    const divisions: Division[] = [
+      { id: 'u9', name: 'U9', schedulingConfig: { mode: 'round-robin' }, matchDurationMinutes: 20 },
+      { id: 'u11', name: 'U11', schedulingConfig: { mode: 'round-robin' } },
+    ]
+    const divisionTeams: Team[] = [
+      ...['A', 'B', 'C', 'D'].map(n => ({ id: `u9-${n}`, name: `U9 ${n}`, divisionId: 'u9' })),
+      ...['A', 'B', 'C', 'D'].map(n => ({ id: `u11-${n}`, name: `U11 ${n}`, divisionId: 'u11' })),
+    ]
+
+    it('should schedule every division on the shared pitches without double-booking', () => {
+      const schedule = generateDivisionSchedule(defaultSettings, divisionTeams, divisions)
+
+      expect(schedule.matches).toHaveLength(12)
+      expect(new Set(schedule.matches.map(m => m.id)).size).toBe(12)
+      expect(schedule.conflicts).toHaveLength(0)
+      for (let pitch = 1; pitch <= defaultSettings.numPitches; pitch++) {
+        const onPitch = schedule.matches.filter(m => m.pitch === pitch)
+        for (let i = 1; i < onPitch.length; i++) {
+          const gap = onPitch[i].startTime.getTime() - onPitch[i - 1].endTime.getTime()
+          expect(gap).toBeGreaterThanOrEqual(defaultSettings.breakBetweenMatches * 60000)
+        }
+      }
+    })
+
+    it('should use each division its own teams and match duration', () => {
+      const schedule = generateDivisionSchedule(defaultSettings, divisionTeams, divisions)
+
+      for (const match of schedule.matches) {
+        const minutes = (match.endTime.getTime() - match.startTime.getTime()) / 60000
+        expect(match.division).toBe(match.homeTeam.divisionId === 'u9' ? 'U9' : 'U11')
+        expect(match.awayTeam.divisionId).toBe(match.homeTeam.divisionId)
+        expect(minutes).toBe(match.division === 'U9' ? 20 : 30)
+      }
+      // Both divisions start right away rather than one after the other
+      const firstSlot = schedule.matches.filter(
+        m => m.startTime.getTime() === schedule.matches[0].startTime.getTime()
+      )
+      expect(new Set(firstSlot.map(m => m.division))).toEqual(new Set(['U9', 'U11']))
+    })
+
+    it('should add a division column to the CSV export', () => {
+      const schedule = generateDivisionSchedule(defaultSettings, divisionTeams, divisions)
+      const lines = exportToCSV(schedule.matches, defaultSettings).split('\r\n')
+
+      expect(lines[0]).toBe('Time,Pitch,Home Team,Away Team,End Time,Division')
+      expect(lines.filter(line => line.endsWith(',U9'))).toHaveLength(6)
+    })
+
+    it('should start knockout matches only once the group stage is over', () => {
+      const knockoutDivisions: Division[] = [
+        {
+          ...divisions[0],
+          schedulingConfig: { mode: 'groups-knockout', numGroups: 2, teamsAdvancingPerGroup: 1 },
+        },
+        divisions[1],
+      ]
+      const settings = { ...defaultSettings, numPitches: 6 }
+      const schedule = generateDivisionSchedule(settings, divisionTeams, knockoutDivisions)
+
+      const u9 = schedule.matches.filter(m => m.division === 'U9')
+      const final = u9.find(m => m.stage === 'knockout')!
+      const groupEnd = Math.max(
+        ...u9.filter(m => m.stage === 'group').map(m => m.endTime.getTime())
+      )
+      expect(final.startTime.getTime()).toBeGreaterThanOrEqual(
+        groupEnd + settings.breakBetweenMatches * 60000
+      )
+    })
+  })
+
   describe('Conflict Detection', () => {
     it('should detect no conflicts when schedule is valid', () => {
       const config: SchedulingConfig = { mode: 'round-robin' }
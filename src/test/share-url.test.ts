@@ -60,6 +60,283 @@ describe('share-url', () => {
     ])
   })
 
+  it('round-trips required matchups by team index', () => {
+    const config: SchedulingConfig = {
+      mode: 'limited-matches',
+      maxMatchesPerTeam: 1,
+      requiredMatchups: [['team-c', 'team-b']],
+    }
+    const params = createTournamentShareParams(settings, teams, config)
+    const parsed = parseTournamentShareParams(params)
+
+    expect(params.getAll('require')).toEqual(['2-1'])
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+    expect(parsed.data.schedulingConfig.requiredMatchups).toEqual([
+      ['shared-team-3', 'shared-team-2'],
+    ])
+    expect(parsed.data.schedulingConfig.excludedMatchups).toBeUndefined()
+  })
+
+  it('round-trips pinned matches by team index', () => {
+    const config: SchedulingConfig = {
+      mode: 'round-robin',
+      pinnedMatches: [
+        { homeTeamId: 'team-c', awayTeamId: 'team-a', slot: 0, pitch: 2 },
+        { homeTeamId: 'team-b', awayTeamId: 'team-c', slot: 2 },
+      ],
+    }
+    const params = createTournamentShareParams(settings, teams, config)
+    const parsed = parseTournamentShareParams(params)
+
+    expect(params.getAll('pin')).toEqual(['2-0,0,2', '1-2,2,'])
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig.pinnedMatches).toEqual([
+      { homeTeamId: 'shared-team-3', awayTeamId: 'shared-team-1', slot: 0, pitch: 2 },
+      { homeTeamId: 'shared-team-2', awayTeamId: 'shared-team-3', slot: 2 },
+    ])
+  })
+
+  it('rejects pinned matches without a round or pitch', () => {
+    const params = createTournamentShareParams(settings, teams, { mode: 'round-robin' })
+    params.append('pin', '0-1,,')
+
+    const parsed = parseTournamentShareParams(params)
+    expect(parsed).toEqual({ ok: false, error: 'Delingslinket har en ugyldig fastlåst kamp' })
+  })
+
+  it('round-trips group and knockout settings', () => {
+    const config: SchedulingConfig = {
+      mode: 'groups-knockout',
+      numGroups: 2,
+      teamsAdvancingPerGroup: 1,
+    }
+    const parsed = parseTournamentShareParams(createTournamentShareParams(settings, teams, config))
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig).toEqual(config)
+  })
+
+  it('round-trips the double round-robin option', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', doubleRoundRobin: true }
+    const parsed = parseTournamentShareParams(createTournamentShareParams(settings, teams, config))
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig).toEqual(config)
+  })
+
+  it('round-trips the number of Swiss rounds', () => {
+    const config: SchedulingConfig = { mode: 'swiss', swissRounds: 4 }
+    const parsed = parseTournamentShareParams(createTournamentShareParams(settings, teams, config))
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig).toEqual(config)
+  })
+
+  it('round-trips team availability windows', () => {
+    const windowTeams: Team[] = [
+      { ...teams[0], availableFrom: '11:00', availableUntil: '14:00' },
+      { ...teams[1], availableUntil: '13:30' },
+      ...teams.slice(2),
+    ]
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(settings, windowTeams, { mode: 'round-robin' })
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.teams[0]).toMatchObject({ availableFrom: '11:00', availableUntil: '14:00' })
+    expect(parsed.data.teams[1].availableFrom).toBeUndefined()
+    expect(parsed.data.teams[1].availableUntil).toBe('13:30')
+  })
+
+  it('round-trips the minimum rest between matches', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', minRestSlots: 2 }
+    const parsed = parseTournamentShareParams(createTournamentShareParams(settings, teams, config))
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig).toEqual(config)
+  })
+
+  it('round-trips the schedule variant seed and optimisation runs', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', seed: 3, optimizationRuns: 20 }
+    const params = createTournamentShareParams(settings, teams, config)
+    const parsed = parseTournamentShareParams(params)
+
+    expect(params.get('seed')).toBe('3')
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.schedulingConfig).toEqual(config)
+
+    params.set('runs', '101')
+    expect(parseTournamentShareParams(params)).toEqual({
+      ok: false,
+      error: 'Delingslinket har for mange forsøg',
+    })
+  })
+
+  it('round-trips the pitch strategy and rejects unknown ones', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', pitchStrategy: 'rotate' }
+    const params = createTournamentShareParams(settings, teams, config)
+    const parsed = parseTournamentShareParams(params)
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+    expect(parsed.data.schedulingConfig).toEqual(config)
+
+    params.set('pitchStrategy', 'random')
+    expect(parseTournamentShareParams(params)).toEqual({
+      ok: false,
+      error: 'Delingslinket har en ugyldig banefordeling',
+    })
+  })
+
+  it('round-trips rolling start times and rejects unknown ones', () => {
+    const config: SchedulingConfig = { mode: 'round-robin', timeAllocation: 'rolling' }
+    const params = createTournamentShareParams(settings, teams, config)
+    const parsed = parseTournamentShareParams(params)
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+    expect(parsed.data.schedulingConfig).toEqual(config)
+
+    params.set('timeAllocation', 'random')
+    expect(parseTournamentShareParams(params)).toEqual({
+      ok: false,
+      error: 'Delingslinket har ugyldige starttider',
+    })
+  })
+
+  it('round-trips pitch opening hours', () => {
+    const windowSettings: TournamentSettings = {
+      ...settings,
+      pitchWindows: [{}, { availableFrom: '12:00', availableUntil: '16:00' }],
+    }
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(windowSettings, teams, { mode: 'round-robin' })
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.settings.pitchWindows).toEqual(windowSettings.pitchWindows)
+  })
+
+  it('round-trips scheduled breaks', () => {
+    const breakSettings: TournamentSettings = {
+      ...settings,
+      breaks: [
+        { startTime: '12:00', durationMinutes: 30, label: 'Frokost, grill' },
+        { startTime: '15:00', durationMinutes: 15, label: 'Præmieoverrækkelse' },
+      ],
+    }
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(breakSettings, teams, { mode: 'round-robin' })
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.settings.breaks).toEqual(breakSettings.breaks)
+  })
+
+  it('round-trips tournament days', () => {
+    const daySettings: TournamentSettings = {
+      ...settings,
+      days: [
+        { date: settings.startDate, startTime: settings.startTime, endTime: '16:00' },
+        { date: '2026-06-16', startTime: '10:00', endTime: '15:00' },
+      ],
+    }
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(daySettings, teams, { mode: 'round-robin' })
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.settings.days).toEqual(daySettings.days)
+  })
+
+  it('rejects tournament days that are out of order', () => {
+    const params = createTournamentShareParams(settings, teams, { mode: 'round-robin' })
+    params.append('day', '2099-01-02,09:00,16:00')
+    params.append('day', '2099-01-01,09:00,16:00')
+
+    const parsed = parseTournamentShareParams(params)
+    expect(parsed).toEqual({ ok: false, error: 'Delingslinket har en ugyldig turneringsdag' })
+  })
+
+  it('round-trips the referee pool', () => {
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(settings, teams, { mode: 'round-robin' }, [], {
+        referees: [
+          { id: 'r1', name: 'Hans' },
+          { id: 'r2', name: 'Grete' },
+        ],
+        teamsReferee: true,
+      })
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    expect(parsed.data.refereePool).toEqual({
+      referees: [
+        { id: 'shared-referee-1', name: 'Hans' },
+        { id: 'shared-referee-2', name: 'Grete' },
+      ],
+      teamsReferee: true,
+    })
+  })
+
+  it('round-trips divisions with their own teams, config and match duration', () => {
+    const divisionTeams: Team[] = [
+      { id: 'team-a', name: 'Team A', divisionId: 'u9' },
+      { id: 'team-b', name: 'Team B', divisionId: 'u9' },
+      { id: 'team-c', name: 'Team C', divisionId: 'u11' },
+      { id: 'team-d', name: 'Team D', divisionId: 'u11' },
+    ]
+    const parsed = parseTournamentShareParams(
+      createTournamentShareParams(settings, divisionTeams, { mode: 'round-robin' }, [
+        {
+          id: 'u9',
+          name: 'U9',
+          schedulingConfig: { mode: 'round-robin', doubleRoundRobin: true },
+          matchDurationMinutes: 12,
+        },
+        { id: 'u11', name: 'U11', schedulingConfig: { mode: 'round-robin', minRestSlots: 1 } },
+      ])
+    )
+
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+
+    const [u9, u11] = parsed.data.divisions!
+    expect(u9).toMatchObject({
+      name: 'U9',
+      matchDurationMinutes: 12,
+      schedulingConfig: { mode: 'round-robin', doubleRoundRobin: true },
+    })
+    expect(u11).toMatchObject({
+      name: 'U11',
+      schedulingConfig: { mode: 'round-robin', minRestSlots: 1 },
+    })
+    expect(parsed.data.teams.map(team => team.divisionId)).toEqual([u9.id, u9.id, u11.id, u11.id])
+  })
+
   it('round-trips two-halves settings with zero-minute breaks', () => {
     const twoHalvesSettings: TournamentSettings = {
       ...settings,
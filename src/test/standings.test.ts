@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { applyMatchResult, computeStandings, getResultMatches } from '../lib/standings'
+import { generateSchedule, rehydrateSchedule, withdrawTeam } from '../lib/scheduler'
+import type { Team, TournamentSettings } from '../lib/types'
+
+describe('standings', () => {
+  const settings: TournamentSettings = {
+    name: 'Test Cup',
+    startDate: '2026-06-20',
+    startTime: '10:00',
+    numPitches: 2,
+    matchMode: 'full-time',
+    matchDurationMinutes: 20,
+    breakBetweenMatches: 5,
+  }
+
+  const teams: Team[] = [
+    { id: 'a', name: 'Alpha' },
+    { id: 'b', name: 'Beta' },
+    { id: 'c', name: 'Gamma' },
+    { id: 'd', name: 'Delta' },
+  ]
+
+  const findMatch = (schedule: ReturnType<typeof generateSchedule>, teamA: string, teamB: string) =>
+    schedule.matches.find(
+      m =>
+        (m.homeTeam.id === teamA && m.awayTeam.id === teamB) ||
+        (m.homeTeam.id === teamB && m.awayTeam.id === teamA)
+    )!
+
+  const withResult = (
+    schedule: ReturnType<typeof generateSchedule>,
+    winner: string,
+    loser: string,
+    winnerGoals: number,
+    loserGoals: number
+  ) => {
+    const match = findMatch(schedule, winner, loser)
+    const winnerIsHome = match.homeTeam.id === winner
+    return applyMatchResult(
+      schedule,
+      match.id,
+      winnerIsHome ? winnerGoals : loserGoals,
+      winnerIsHome ? loserGoals : winnerGoals
+    )
+  }
+
+  it('marks a match as played once both scores are entered', () => {
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    const matchId = schedule.matches[0].id
+
+    const halfEntered = applyMatchResult(schedule, matchId, 2, undefined)
+    expect(halfEntered.matches[0].played).toBe(false)
+
+    const entered = applyMatchResult(schedule, matchId, 2, 1)
+    expect(entered.matches[0]).toMatchObject({ homeScore: 2, awayScore: 1, played: true })
+    expect(schedule.matches[0].played).toBeUndefined()
+  })
+
+  it('computes points, goals and goal difference from played matches only', () => {
+    let schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    schedule = withResult(schedule, 'a', 'b', 3, 1)
+    schedule = withResult(schedule, 'c', 'd', 2, 2)
+
+    const standings = computeStandings(schedule.matches, teams)
+    const alpha = standings.find(row => row.team.id === 'a')!
+    const gamma = standings.find(row => row.team.id === 'c')!
+
+    expect(standings[0].team.id).toBe('a')
+    expect(alpha).toMatchObject({
+      played: 1,
+      won: 1,
+      drawn: 0,
+      lost: 0,
+      goalsFor: 3,
+      goalsAgainst: 1,
+      goalDifference: 2,
+      points: 3,
+    })
+    expect(gamma).toMatchObject({ played: 1, drawn: 1, points: 1 })
+    expect(standings[standings.length - 1].team.id).toBe('b')
+  })
+
+  it('ranks teams on points, then goal difference, then goals scored', () => {
+    let schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    schedule = withResult(schedule, 'a', 'b', 1, 0)
+    schedule = withResult(schedule, 'c', 'd', 4, 3)
+
+    const standings = computeStandings(schedule.matches, teams)
+
+    // Level on points and goal difference, so goals scored separates both pairs
+    expect(standings.map(row => row.team.id)).toEqual(['c', 'a', 'd', 'b'])
+  })
+
+  it('counts the walkovers of a withdrawn team as 3-0 wins for its opponents', () => {
+    const schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    const withdrawn = withdrawTeam(schedule, 'a', teams, settings, schedule.matches[0].startTime)
+
+    const standings = computeStandings(getResultMatches(withdrawn), teams)
+
+    expect(standings.find(row => row.team.id === 'a')).toMatchObject({
+      played: 3,
+      lost: 3,
+      goalsAgainst: 9,
+      points: 0,
+    })
+    for (const id of ['b', 'c', 'd']) {
+      expect(standings.find(row => row.team.id === id)).toMatchObject({
+        played: 1,
+        won: 1,
+        goalsFor: 3,
+        points: 3,
+      })
+    }
+    const restored = rehydrateSchedule(JSON.parse(JSON.stringify(withdrawn)))
+    expect(computeStandings(getResultMatches(restored), teams)).toEqual(standings)
+  })
+
+  it('keeps results through a JSON round-trip and rehydrateSchedule', () => {
+    let schedule = generateSchedule(settings, teams, { mode: 'round-robin' })
+    schedule = withResult(schedule, 'a', 'b', 3, 1)
+
+    const restored = rehydrateSchedule(JSON.parse(JSON.stringify(schedule)))
+
+    expect(computeStandings(restored.matches, teams)).toEqual(
+      computeStandings(schedule.matches, teams)
+    )
+  })
+})